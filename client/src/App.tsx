@@ -1,42 +1,92 @@
 import {
   AlertTriangle,
+  ArrowLeftRight,
+  Bomb,
+  BookOpen,
+  Bot,
   CheckCircle2,
   ChevronDown,
   ChevronUp,
+  ChevronsRight,
   ClipboardPaste,
+  CalendarDays,
   Copy,
   Crown,
+  Download,
   Eye,
   EyeOff,
+  FileUp,
+  Film,
+  Gavel,
+  Hash,
   Heart,
+  KeyRound,
   Link2,
+  LogOut,
   MonitorPlay,
   Palmtree,
   RadioTower,
   Skull,
+  Shuffle,
   Sparkles,
   Swords,
+  ThumbsDown,
+  ThumbsUp,
   TimerReset,
+  Trophy,
   Users,
   Waves,
+  X,
   Zap,
 } from "lucide-react";
 import { FormEvent, RefObject, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import QRCode from "qrcode";
 import BorderTimer from "./BorderTimer";
+import LeaderboardView from "./LeaderboardView";
+import MatchAnalyticsPanel from "./MatchAnalyticsPanel";
+import ReplayView, { downloadMatchReplay, parseMatchReplay } from "./ReplayView";
+import { POWER_UP_HINTS, POWER_UP_LABELS } from "./powerUps";
 import { socket } from "./socket";
+import { describeTurnModifiers } from "./turnModifiers";
 import {
+  AccountResponse,
   AckResponse,
+  BonusLetterRules,
+  BotDifficulty,
+  ExplosionHint,
   ChunkTier,
+  DifficultyPreset,
+  DifficultyProfile,
+  DifficultyStage,
+  LanguageCode,
+  MatchReplay,
+  PlayerHandicap,
+  PowerUpKind,
+  ScoringRules,
   PublicPlayerState,
   PublicRoomState,
+  PublicTeamState,
+  PublicWordChallenge,
+  PublicWordListState,
+  RoomRemovedPayload,
   RoomConfig,
   Session,
+  StoredAccount,
+  TimerMode,
   TypingState,
+  WinCondition,
 } from "./types";
 import { useTurnCountdown } from "./useTurnCountdown";
 
 const SESSION_KEY = "word-fuse-session";
+const ACCOUNT_KEY = "word-fuse-account";
+const CLIENT_ID_KEY = "word-fuse-client-id";
+const AVATAR_TONE_CLASSES = [
+  "border-neonCyan/25 bg-neonCyan/10 text-neonCyan",
+  "border-sunsetOrange/25 bg-sunsetOrange/10 text-sunsetOrange",
+  "border-neonPurple/25 bg-neonPurple/10 text-neonPurple",
+  "border-success/25 bg-success/10 text-success",
+];
 const MIN_ERROR_DISPLAY_MS = 3000;
 const LONG_DISPLAY_ERRORS = new Set([
   "Word not found in dictionary.",
@@ -46,10 +96,80 @@ const TYPING_THROTTLE_MS = 125;
 const MOTION_FEEDBACK_MS = 420;
 const BOOM_FEEDBACK_MS = 520;
 const WORD_FLASH_MS = 320;
+const EXPLOSION_HINT_MS = 5000;
+const CHALLENGE_TICK_MS = 250;
 
-type RoomSettingsUpdate = Partial<RoomConfig> & { hostSpectatorMode?: boolean };
+type RoomSettingsUpdate = Partial<Omit<RoomConfig, "difficulty">> & {
+  hostSpectatorMode?: boolean;
+  difficulty?: { preset: DifficultyPreset; stages?: DifficultyStage[] };
+};
+type ModerationAction = "room:kick" | "room:ban" | "room:transferHost";
 type ConnectionStatus = "connecting" | "connected" | "reconnecting" | "disconnected";
 
+const BOT_DIFFICULTY_LABELS: Record<BotDifficulty, string> = {
+  easy: "Easy",
+  medium: "Medium",
+  hard: "Hard",
+};
+
+const WIN_CONDITION_LABELS: Record<WinCondition, string> = {
+  lastStanding: "Last Standing",
+  pointsRace: "Points Race",
+};
+
+const DIFFICULTY_PRESET_LABELS: Record<DifficultyPreset, string> = {
+  casual: "Casual",
+  standard: "Standard",
+  brutal: "Brutal",
+  custom: "Custom",
+};
+
+const DIFFICULTY_PRESET_HINTS: Record<DifficultyPreset, string> = {
+  casual: "Stays on easy and medium chunks.",
+  standard: "Climbs one tier every two rounds, then mixes medium, hard, and very hard.",
+  brutal: "Starts on hard chunks and settles on very hard.",
+  custom: "Each stage starts on a round and draws tiers by weight. A round is one turn per player.",
+};
+
+const MAX_DIFFICULTY_STAGES = 8;
+
+const TIMER_MODE_LABELS: Record<TimerMode, string> = {
+  linear: "Linear",
+  exponential: "Exponential",
+  fixed: "Fixed",
+  hiddenFuse: "Hidden Fuse",
+};
+
+const TIMER_MODE_HINTS: Record<TimerMode, string> = {
+  linear: "Turns lose a second every three turns, down to 5 seconds.",
+  exponential: "Turns shrink by 5% each turn, down to 5 seconds.",
+  fixed: "Every turn gets the full timer.",
+  hiddenFuse: "One secret fuse of 1-3x the timer passes between players and only resets when it blows.",
+};
+
+const LANGUAGE_LABELS: Record<LanguageCode, string> = {
+  en: "English",
+  es: "Español",
+  fr: "Français",
+  de: "Deutsch",
+};
+
+// Mirrors the server's letter sets so the preview and submitted word keep ñ, ç, ß, and umlauts.
+const LANGUAGE_LETTERS: Record<LanguageCode, string> = {
+  en: "abcdefghijklmnopqrstuvwxyz",
+  es: "abcdefghijklmnopqrstuvwxyzáéíóúüñ",
+  fr: "abcdefghijklmnopqrstuvwxyzàâæçéèêëîïôœùûüÿ",
+  de: "abcdefghijklmnopqrstuvwxyzäöüß",
+};
+
+const TEAM_NAMES = ["Coral", "Lagoon", "Sunset", "Reef"];
+const TEAM_TONE_CLASSES = [
+  "border-sunsetOrange/35 bg-sunsetOrange/10 text-sunsetOrange",
+  "border-neonCyan/35 bg-neonCyan/10 text-neonCyan",
+  "border-neonPurple/35 bg-neonPurple/10 text-neonPurple",
+  "border-success/35 bg-success/10 text-success",
+];
+
 const TIER_LABELS: Record<ChunkTier, string> = {
   veryEasy: "Very Easy",
   easy: "Easy",
@@ -62,6 +182,14 @@ function sanitizeRoomCodeInput(input: string): string {
   return input.toUpperCase().replace(/[^A-Z0-9]/g, "").slice(0, 6);
 }
 
+function sanitizeMatchSeedInput(input: string): string {
+  return input.toUpperCase().replace(/[^A-Z0-9-]/g, "").slice(0, 24);
+}
+
+function createDailySeed(): string {
+  return `DAILY-${new Date().toISOString().slice(0, 10)}`;
+}
+
 function loadStoredSession(): Session | null {
   const raw = localStorage.getItem(SESSION_KEY);
   if (!raw) {
@@ -87,6 +215,57 @@ function clearStoredSession(): void {
   localStorage.removeItem(SESSION_KEY);
 }
 
+// A random id kept by this browser so room bans stick to it rather than to a display name.
+function loadClientId(): string {
+  const stored = localStorage.getItem(CLIENT_ID_KEY);
+  if (stored) {
+    return stored;
+  }
+
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  const clientId = Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+  localStorage.setItem(CLIENT_ID_KEY, clientId);
+  return clientId;
+}
+
+function loadStoredAccount(): StoredAccount | null {
+  const raw = localStorage.getItem(ACCOUNT_KEY);
+  if (!raw) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as StoredAccount;
+    return parsed.token && parsed.profile ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveStoredAccount(account: StoredAccount | null): void {
+  if (account) {
+    localStorage.setItem(ACCOUNT_KEY, JSON.stringify(account));
+  } else {
+    localStorage.removeItem(ACCOUNT_KEY);
+  }
+}
+
+function avatarToneClass(seed: string): string {
+  if (!seed) {
+    return AVATAR_TONE_CLASSES[0];
+  }
+
+  let hash = 0;
+  for (const character of seed) {
+    hash = (hash * 31 + character.charCodeAt(0)) >>> 0;
+  }
+  return AVATAR_TONE_CLASSES[hash % AVATAR_TONE_CLASSES.length];
+}
+
+function createAvatarSeed(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
+
 function statusLabel(status: ConnectionStatus): string {
   if (status === "connected") {
     return "Connected";
@@ -107,12 +286,35 @@ function isPlayerOut(player: PublicPlayerState | null | undefined): boolean {
   return !!player && player.role === "player" && (player.eliminated || player.lives <= 0);
 }
 
-function orderedScoreboardPlayers(players: PublicPlayerState[]): PublicPlayerState[] {
+function isPointsRace(roomState: PublicRoomState): boolean {
+  return roomState.config.scoring.winCondition === "pointsRace";
+}
+
+function hasScoringBonuses(rules: ScoringRules): boolean {
+  return rules.lengthBonus || rules.rarityBonus || rules.speedBonus;
+}
+
+function formatLastWord(player: PublicPlayerState, roomState: PublicRoomState): string {
+  if (!player.lastWord || !hasScoringBonuses(roomState.config.scoring)) {
+    return player.lastWord;
+  }
+
+  return `${player.lastWord} +${player.lastWordPoints}`;
+}
+
+function orderedScoreboardPlayers(
+  players: PublicPlayerState[],
+  winCondition: WinCondition = "lastStanding",
+): PublicPlayerState[] {
   return [...players].sort((a, b) => {
     if (a.role !== b.role) {
       return a.role === "player" ? -1 : 1;
     }
 
+    if (winCondition === "pointsRace" && b.score !== a.score) {
+      return b.score - a.score;
+    }
+
     const aOut = isPlayerOut(a);
     const bOut = isPlayerOut(b);
     if (aOut !== bOut) {
@@ -127,21 +329,28 @@ function orderedScoreboardPlayers(players: PublicPlayerState[]): PublicPlayerSta
   });
 }
 
-function normalizeWordForSubmit(input: string): string {
-  return input
-    .normalize("NFKD")
-    .replace(/[\u0300-\u036f]/g, "")
-    .replace(/[\u200B-\u200D\uFEFF]/g, "")
-    .trim()
-    .toLowerCase();
+function isLanguageLetter(char: string, language: LanguageCode): boolean {
+  return char.length > 0 && LANGUAGE_LETTERS[language].includes(char.toLowerCase());
 }
 
-function normalizeTypingPreview(input: string): string {
-  return input
-    .normalize("NFKD")
-    .replace(/[\u0300-\u036f]/g, "")
-    .replace(/[\u200B-\u200D\uFEFF]/g, "")
-    .replace(/[^A-Za-z]/g, "")
+function foldForeignAccents(input: string, language: LanguageCode): string {
+  return [...input.normalize("NFC")]
+    .map((char) =>
+      isLanguageLetter(char, language) ? char : char.normalize("NFKD").replace(/[\u0300-\u036f]/g, ""),
+    )
+    .join("")
+    .replace(/[\u200B-\u200D\uFEFF]/g, "");
+}
+
+function normalizeWordForSubmit(input: string, language: LanguageCode): string {
+  return foldForeignAccents(input, language).trim().toLowerCase();
+}
+
+function normalizeTypingPreview(input: string, language: LanguageCode): string {
+  return [...foldForeignAccents(input, language)]
+    .filter((char) => isLanguageLetter(char, language))
+    .join("")
+    .replace(/ß/g, "ẞ")
     .toUpperCase()
     .slice(0, 24);
 }
@@ -155,7 +364,8 @@ function createBlankTypingState(activePlayerId: string | null = null): TypingSta
 }
 
 function formatCoverageK(value: number | null): string {
-  return `${Math.round((value ?? 0) / 1000)}k`;
+  const coverage = value ?? 0;
+  return coverage < 1000 ? String(coverage) : `${Math.round(coverage / 1000)}k`;
 }
 
 function loadJoinCodeFromUrl(): string {
@@ -276,7 +486,77 @@ function RoleTag(props: { label: string; tone?: "default" | "cyan" | "orange" |
   return <span className={`badge ${toneClass}`}>{props.label}</span>;
 }
 
-function Avatar(props: { name: string; size?: "sm" | "md" }): JSX.Element {
+function HandicapTag(props: { handicap: PlayerHandicap | null }): JSX.Element | null {
+  const handicap = props.handicap;
+  if (!handicap) {
+    return null;
+  }
+
+  if (handicap.successRate === null) {
+    return <span className="badge border-white/10 bg-white/10 text-sand/75">Calibrating</span>;
+  }
+
+  const tone =
+    handicap.level > 0
+      ? "border-sunsetOrange/35 bg-sunsetOrange/10 text-sunsetOrange"
+      : handicap.level < 0
+        ? "border-neonCyan/35 bg-neonCyan/10 text-neonCyan"
+        : "border-white/10 bg-white/10 text-sand/75";
+  const signed = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+  const label =
+    handicap.level === 0
+      ? "Even"
+      : `${signed(handicap.level)} Tier | ${signed(handicap.timeAdjustSeconds)}s`;
+  const speed =
+    handicap.averageResponseMs === null
+      ? "no answers yet"
+      : `${(handicap.averageResponseMs / 1000).toFixed(1)}s average answer`;
+  const cleared = Math.round(handicap.successRate * 100);
+
+  return (
+    <span
+      className={`badge ${tone}`}
+      title={`Last ${handicap.recentTurns} turns: ${cleared}% cleared, ${speed}`}
+    >
+      {label}
+    </span>
+  );
+}
+
+function TeamTag(props: { teamId: number | null }): JSX.Element | null {
+  if (props.teamId === null) {
+    return null;
+  }
+
+  return (
+    <span className={`badge ${TEAM_TONE_CLASSES[props.teamId] ?? TEAM_TONE_CLASSES[0]}`}>
+      {TEAM_NAMES[props.teamId] ?? `Team ${props.teamId + 1}`}
+    </span>
+  );
+}
+
+function TeamLivesStrip(props: { teams: PublicTeamState[] }): JSX.Element | null {
+  if (props.teams.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {props.teams.map((team) => (
+        <span
+          key={team.id}
+          className={`badge ${TEAM_TONE_CLASSES[team.id] ?? TEAM_TONE_CLASSES[0]} ${team.eliminated ? "opacity-50 line-through" : ""}`}
+        >
+          {team.name}
+          <Heart className="size-3.5" aria-hidden="true" />
+          <span className="arcade-mono">{team.lives}</span>
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function Avatar(props: { name: string; seed?: string; size?: "sm" | "md" }): JSX.Element {
   const sizeClass =
     props.size === "sm"
       ? "size-10 text-xs tracking-[0.16em]"
@@ -284,7 +564,7 @@ function Avatar(props: { name: string; size?: "sm" | "md" }): JSX.Element {
 
   return (
     <div
-      className={`flex shrink-0 items-center justify-center rounded-full border border-neonCyan/25 bg-neonCyan/10 font-display text-neonCyan ${sizeClass}`}
+      className={`flex shrink-0 items-center justify-center rounded-full border font-display ${avatarToneClass(props.seed ?? "")} ${sizeClass}`}
     >
       {playerInitials(props.name)}
     </div>
@@ -323,6 +603,16 @@ function LivesIndicator(props: {
   );
 }
 
+function PointsIndicator(props: { score: number; target?: number }): JSX.Element {
+  return (
+    <span className="arcade-mono inline-flex items-center gap-1.5 rounded-full border border-neonCyan/35 bg-neonCyan/10 px-2.5 py-1 text-xs font-semibold text-sand/84">
+      <Sparkles className="size-3.5 text-neonCyan" aria-hidden="true" />
+      {props.score}
+      {props.target ? <span className="text-sand/45">/{props.target}</span> : null}
+    </span>
+  );
+}
+
 function RangeSetting(props: {
   label: string;
   valueLabel: string;
@@ -378,6 +668,509 @@ function ToggleSetting(props: {
   );
 }
 
+const BONUS_ALPHABET = "abcdefghijklmnopqrstuvwxyz";
+const MAX_EXCLUDED_BONUS_LETTERS = 10;
+
+function BonusLetterSetting(props: {
+  value: BonusLetterRules;
+  disabled: boolean;
+  onChange: (excludedLetters: string[]) => void;
+}): JSX.Element {
+  const excluded = props.value.excludedLetters;
+
+  const toggleLetter = (letter: string): void => {
+    props.onChange(
+      excluded.includes(letter)
+        ? excluded.filter((entry) => entry !== letter)
+        : [...excluded, letter].sort(),
+    );
+  };
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-ocean/40 p-4">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm font-semibold text-sand">Bonus Alphabet</p>
+        <span className="arcade-mono text-xs text-sand/55">
+          {BONUS_ALPHABET.length - excluded.length} letters
+        </span>
+      </div>
+      <p className="mt-1 text-sm text-sand/55">
+        Tap a letter to leave it out. Up to {MAX_EXCLUDED_BONUS_LETTERS} letters can be skipped.
+      </p>
+      <div className="mt-3 grid grid-cols-9 gap-1.5">
+        {[...BONUS_ALPHABET].map((letter) => {
+          const isExcluded = excluded.includes(letter);
+
+          return (
+            <button
+              key={letter}
+              className={`arcade-mono rounded-lg border py-1 text-xs uppercase ${
+                isExcluded
+                  ? "border-white/10 bg-black/15 text-sand/30 line-through"
+                  : "border-neonCyan/30 bg-neonCyan/10 text-neonCyan"
+              }`}
+              type="button"
+              aria-pressed={!isExcluded}
+              disabled={
+                props.disabled ||
+                (!isExcluded && excluded.length >= MAX_EXCLUDED_BONUS_LETTERS)
+              }
+              onClick={() => toggleLetter(letter)}
+            >
+              {letter}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function BonusLetterStrip(props: { rules: BonusLetterRules; collected: string[] }): JSX.Element {
+  const alphabet = [...BONUS_ALPHABET].filter(
+    (letter) => !props.rules.excludedLetters.includes(letter),
+  );
+
+  return (
+    <div
+      className="mt-2 flex flex-wrap gap-x-0.5"
+      aria-label={`${props.collected.length} of ${alphabet.length} bonus letters collected`}
+    >
+      {alphabet.map((letter) => (
+        <span
+          key={letter}
+          className={`arcade-mono w-3 text-center text-[10px] uppercase ${
+            props.collected.includes(letter) ? "text-neonCyan" : "text-sand/25"
+          }`}
+        >
+          {letter}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function MatchSeedSetting(props: {
+  value: string;
+  disabled: boolean;
+  onChange: (seed: string) => void;
+}): JSX.Element {
+  const [draft, setDraft] = useState(props.value);
+
+  useEffect(() => {
+    setDraft(props.value);
+  }, [props.value]);
+
+  const commit = (seed: string): void => {
+    const nextSeed = sanitizeMatchSeedInput(seed);
+    setDraft(nextSeed);
+    if (nextSeed !== props.value) {
+      props.onChange(nextSeed);
+    }
+  };
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-ocean/40 p-4">
+      <div className="flex items-center gap-2 text-sm font-semibold text-sand">
+        <Hash className="size-4 text-neonCyan" aria-hidden="true" />
+        Match Seed
+      </div>
+      <p className="mt-1 text-sm text-sand/55">
+        Rooms with the same seed get the same chunk on the same turn. Leave blank for a random match.
+      </p>
+      <input
+        className="arcade-input arcade-mono mt-3 py-2 text-sm uppercase tracking-[0.2em]"
+        value={draft}
+        disabled={props.disabled}
+        maxLength={24}
+        placeholder="RANDOM"
+        onChange={(event) => setDraft(sanitizeMatchSeedInput(event.target.value))}
+        onBlur={() => commit(draft)}
+        onKeyDown={(event) => {
+          if (event.key === "Enter") {
+            commit(draft);
+          }
+        }}
+      />
+      <div className="mt-3 flex gap-2">
+        <button
+          className="btn-ghost flex-1 px-3 py-2 text-xs"
+          type="button"
+          disabled={props.disabled}
+          onClick={() => commit(createDailySeed())}
+        >
+          <CalendarDays className="size-4" aria-hidden="true" />
+          Daily Seed
+        </button>
+        <button
+          className="btn-ghost flex-1 px-3 py-2 text-xs"
+          type="button"
+          disabled={props.disabled || !props.value}
+          onClick={() => commit("")}
+        >
+          Random
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function DifficultySetting(props: {
+  value: DifficultyProfile;
+  disabled: boolean;
+  onChange: (difficulty: { preset: DifficultyPreset; stages?: DifficultyStage[] }) => void;
+}): JSX.Element {
+  const [draft, setDraft] = useState(props.value.stages);
+
+  useEffect(() => {
+    setDraft(props.value.stages);
+  }, [props.value]);
+
+  const updateStage = (index: number, stage: DifficultyStage): void => {
+    setDraft((current) =>
+      current.map((entry, entryIndex) => (entryIndex === index ? stage : entry)),
+    );
+  };
+
+  const readWholeNumber = (value: string): number => Math.max(0, Number.parseInt(value, 10) || 0);
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-ocean/40 p-4">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <p className="text-sm font-semibold text-sand">Difficulty Curve</p>
+          <p className="text-xs uppercase tracking-[0.24em] text-sand/45">Chunk tiers</p>
+        </div>
+        <select
+          className="arcade-input w-auto py-2 text-sm"
+          value={props.value.preset}
+          disabled={props.disabled}
+          onChange={(event) => {
+            const preset = event.target.value as DifficultyPreset;
+            // A new custom curve starts from the stages currently in effect.
+            props.onChange(
+              preset === "custom" ? { preset, stages: props.value.stages } : { preset },
+            );
+          }}
+        >
+          {(Object.keys(DIFFICULTY_PRESET_LABELS) as DifficultyPreset[]).map((preset) => (
+            <option key={preset} value={preset}>
+              {DIFFICULTY_PRESET_LABELS[preset]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <p className="mt-2 text-sm text-sand/55">{DIFFICULTY_PRESET_HINTS[props.value.preset]}</p>
+
+      {props.value.preset === "custom" ? (
+        <div className="mt-3 space-y-2">
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs text-sand/72">
+              <thead>
+                <tr className="text-[10px] uppercase tracking-[0.18em] text-sand/45">
+                  <th className="px-1 py-1 text-left font-medium">Round</th>
+                  {(Object.keys(TIER_LABELS) as ChunkTier[]).map((tier) => (
+                    <th key={tier} className="px-1 py-1 text-left font-medium">
+                      {TIER_LABELS[tier]}
+                    </th>
+                  ))}
+                  <th className="px-1 py-1" aria-label="Remove stage" />
+                </tr>
+              </thead>
+              <tbody>
+                {draft.map((stage, index) => (
+                  <tr key={index}>
+                    <td className="px-1 py-1">
+                      <input
+                        className="arcade-input arcade-mono w-14 px-2 py-1 text-xs"
+                        type="number"
+                        min={0}
+                        max={40}
+                        value={stage.fromRound}
+                        disabled={props.disabled}
+                        aria-label={`Stage ${index + 1} starting round`}
+                        onChange={(event) =>
+                          updateStage(index, {
+                            ...stage,
+                            fromRound: readWholeNumber(event.target.value),
+                          })
+                        }
+                      />
+                    </td>
+                    {(Object.keys(TIER_LABELS) as ChunkTier[]).map((tier) => (
+                      <td key={tier} className="px-1 py-1">
+                        <input
+                          className="arcade-input arcade-mono w-14 px-2 py-1 text-xs"
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={stage.tierWeights[tier] ?? 0}
+                          disabled={props.disabled}
+                          aria-label={`Stage ${index + 1} ${TIER_LABELS[tier]} weight`}
+                          onChange={(event) =>
+                            updateStage(index, {
+                              ...stage,
+                              tierWeights: {
+                                ...stage.tierWeights,
+                                [tier]: readWholeNumber(event.target.value),
+                              },
+                            })
+                          }
+                        />
+                      </td>
+                    ))}
+                    <td className="px-1 py-1">
+                      <button
+                        className="btn-ghost px-2 py-1 text-xs"
+                        type="button"
+                        disabled={props.disabled || draft.length <= 1}
+                        aria-label={`Remove stage ${index + 1}`}
+                        onClick={() =>
+                          setDraft((current) =>
+                            current.filter((_, entryIndex) => entryIndex !== index),
+                          )
+                        }
+                      >
+                        <X className="size-3.5" aria-hidden="true" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex gap-2">
+            <button
+              className="btn-ghost flex-1 px-3 py-2 text-xs"
+              type="button"
+              disabled={props.disabled || draft.length >= MAX_DIFFICULTY_STAGES}
+              onClick={() =>
+                setDraft((current) => [
+                  ...current,
+                  {
+                    fromRound: (current[current.length - 1]?.fromRound ?? -2) + 2,
+                    tierWeights: { ...current[current.length - 1]?.tierWeights },
+                  },
+                ])
+              }
+            >
+              Add Stage
+            </button>
+            <button
+              className="btn-ghost flex-1 px-3 py-2 text-xs"
+              type="button"
+              disabled={props.disabled}
+              onClick={() => props.onChange({ preset: "custom", stages: draft })}
+            >
+              Apply Curve
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function WordListSetting(props: {
+  wordList: PublicWordListState | null;
+  disabled: boolean;
+  onApply: (name: string, text: string | null) => void;
+}): JSX.Element {
+  const [name, setName] = useState("");
+  const [text, setText] = useState("");
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-ocean/40 p-4">
+      <div className="flex items-center gap-2 text-sm font-semibold text-sand">
+        <BookOpen className="size-4 text-neonCyan" aria-hidden="true" />
+        Word List
+      </div>
+      <p className="mt-1 text-sm text-sand/55">
+        {props.wordList
+          ? `${props.wordList.name}: ${props.wordList.wordCount} words, ${props.wordList.chunkCount} chunks.`
+          : "Standard dictionary. Paste or upload a themed list to validate words and draw chunks from it."}
+      </p>
+      {props.disabled ? null : (
+        <>
+          <input
+            className="arcade-input mt-3 py-2 text-sm"
+            value={name}
+            maxLength={32}
+            placeholder="List name"
+            onChange={(event) => setName(event.target.value)}
+          />
+          <textarea
+            className="arcade-input mt-2 h-28 resize-y py-2 text-sm"
+            value={text}
+            placeholder="One word per line, or separated by commas"
+            onChange={(event) => setText(event.target.value)}
+          />
+          <div className="mt-3 flex flex-wrap gap-2">
+            <label className="btn-ghost flex-1 cursor-pointer px-3 py-2 text-xs">
+              <FileUp className="size-4" aria-hidden="true" />
+              Upload .txt
+              <input
+                className="sr-only"
+                type="file"
+                accept="text/plain,.txt"
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  if (file) {
+                    void file.text().then((contents) => {
+                      setText(contents);
+                      setName((current) => current || file.name.replace(/\.[^.]+$/, ""));
+                    });
+                  }
+                  event.target.value = "";
+                }}
+              />
+            </label>
+            <button
+              className="btn-ghost flex-1 px-3 py-2 text-xs"
+              type="button"
+              disabled={!text.trim()}
+              onClick={() => props.onApply(name, text)}
+            >
+              Use List
+            </button>
+            <button
+              className="btn-ghost flex-1 px-3 py-2 text-xs"
+              type="button"
+              disabled={!props.wordList}
+              onClick={() => props.onApply("", null)}
+            >
+              Standard
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function AccountPanel(props: {
+  account: StoredAccount | null;
+  onSignIn: (username: string, passphrase: string, createAccount: boolean) => void;
+  onUpdateProfile: (update: { displayName?: string; avatarSeed?: string }) => void;
+  onSignOut: () => void;
+}): JSX.Element {
+  const [username, setUsername] = useState("");
+  const [passphrase, setPassphrase] = useState("");
+  const [displayName, setDisplayName] = useState(props.account?.profile.displayName ?? "");
+
+  useEffect(() => {
+    setDisplayName(props.account?.profile.displayName ?? "");
+  }, [props.account?.profile.displayName]);
+
+  if (!props.account) {
+    return (
+      <form
+        className="card px-6 py-6 sm:px-7"
+        onSubmit={(event) => {
+          event.preventDefault();
+          props.onSignIn(username, passphrase, false);
+        }}
+      >
+        <div className="flex items-center gap-3">
+          <div className="flex size-12 items-center justify-center rounded-2xl border border-success/25 bg-success/10 text-success">
+            <KeyRound className="size-5" aria-hidden="true" />
+          </div>
+          <div>
+            <p className="text-xs uppercase tracking-[0.3em] text-success/80">Optional</p>
+            <h3 className="mt-1 text-2xl font-semibold text-sand">Player Account</h3>
+          </div>
+        </div>
+
+        <p className="mt-3 text-sm text-sand/58">Keep your name, avatar, and lifetime stats across rooms.</p>
+
+        <div className="mt-4 grid gap-3 sm:grid-cols-2">
+          <input
+            className="arcade-input"
+            value={username}
+            onChange={(event) => setUsername(event.target.value)}
+            maxLength={20}
+            placeholder="Username"
+            autoComplete="username"
+            required
+          />
+          <input
+            className="arcade-input"
+            type="password"
+            value={passphrase}
+            onChange={(event) => setPassphrase(event.target.value)}
+            maxLength={128}
+            placeholder="Passphrase"
+            autoComplete="current-password"
+            required
+          />
+        </div>
+
+        <div className="mt-4 flex flex-col gap-3 sm:flex-row">
+          <button className="btn-primary flex-1" type="submit">
+            Sign In
+          </button>
+          <button
+            className="btn-ghost flex-1"
+            type="button"
+            disabled={!username.trim() || !passphrase}
+            onClick={() => props.onSignIn(username, passphrase, true)}
+          >
+            Create Account
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  const { profile } = props.account;
+
+  return (
+    <div className="card px-6 py-6 sm:px-7">
+      <div className="flex items-center gap-3">
+        <Avatar name={profile.displayName} seed={profile.avatarSeed} />
+        <div className="min-w-0 flex-1">
+          <p className="text-xs uppercase tracking-[0.3em] text-success/80">@{profile.username}</p>
+          <h3 className="mt-1 truncate text-2xl font-semibold text-sand">{profile.displayName}</h3>
+        </div>
+        <button className="btn-ghost px-3 py-2 text-xs" type="button" onClick={props.onSignOut}>
+          <LogOut className="size-4" aria-hidden="true" />
+          Sign Out
+        </button>
+      </div>
+
+      <div className="mt-4 grid grid-cols-2 gap-2 text-sm text-sand/72 sm:grid-cols-4">
+        <span className="badge justify-center">{profile.stats.gamesPlayed} games</span>
+        <span className="badge justify-center">{profile.stats.wins} wins</span>
+        <span className="badge justify-center">{profile.stats.wordsPlayed} words</span>
+        <span className="badge justify-center">Best {profile.stats.bestMatchPoints}</span>
+      </div>
+
+      <div className="mt-4 flex flex-col gap-3 sm:flex-row">
+        <input
+          className="arcade-input flex-1"
+          value={displayName}
+          onChange={(event) => setDisplayName(event.target.value)}
+          onBlur={() => {
+            if (displayName.trim() && displayName !== profile.displayName) {
+              props.onUpdateProfile({ displayName });
+            }
+          }}
+          maxLength={20}
+          aria-label="Account display name"
+        />
+        <button
+          className="btn-ghost"
+          type="button"
+          onClick={() => props.onUpdateProfile({ avatarSeed: createAvatarSeed() })}
+        >
+          <Shuffle className="size-4" aria-hidden="true" />
+          New Avatar
+        </button>
+      </div>
+    </div>
+  );
+}
+
 interface HomeViewProps {
   createName: string;
   joinName: string;
@@ -387,6 +1180,12 @@ interface HomeViewProps {
   onJoinCode: (value: string) => void;
   onCreateRoom: (event: FormEvent) => void;
   onJoinRoom: (event: FormEvent) => void;
+  onOpenReplayFile: (file: File) => void;
+  onOpenLeaderboard: () => void;
+  account: StoredAccount | null;
+  onSignIn: (username: string, passphrase: string, createAccount: boolean) => void;
+  onUpdateProfile: (update: { displayName?: string; avatarSeed?: string }) => void;
+  onSignOut: () => void;
 }
 
 function HomeView(props: HomeViewProps): JSX.Element {
@@ -425,6 +1224,13 @@ function HomeView(props: HomeViewProps): JSX.Element {
       </div>
 
       <div className="grid gap-6 md:grid-cols-2 xl:grid-cols-1">
+        <AccountPanel
+          account={props.account}
+          onSignIn={props.onSignIn}
+          onUpdateProfile={props.onUpdateProfile}
+          onSignOut={props.onSignOut}
+        />
+
         <form className="card px-6 py-6 sm:px-7" onSubmit={props.onCreateRoom}>
           <div className="flex items-center gap-3">
             <div className="flex size-12 items-center justify-center rounded-2xl border border-neonCyan/25 bg-neonCyan/10 text-neonCyan">
@@ -512,6 +1318,42 @@ function HomeView(props: HomeViewProps): JSX.Element {
                     : "Paste a full join link or enter the six-character room code."}
           </p>
         </form>
+
+        <label className="card flex cursor-pointer items-center gap-3 px-6 py-5 sm:px-7">
+          <div className="flex size-12 items-center justify-center rounded-2xl border border-neonPurple/25 bg-neonPurple/10 text-neonPurple">
+            <FileUp className="size-5" aria-hidden="true" />
+          </div>
+          <div>
+            <p className="text-xs uppercase tracking-[0.3em] text-neonPurple/80">Review</p>
+            <h3 className="mt-1 text-lg font-semibold text-sand">Open a replay file</h3>
+          </div>
+          <input
+            className="sr-only"
+            type="file"
+            accept="application/json,.json"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) {
+                props.onOpenReplayFile(file);
+              }
+              event.target.value = "";
+            }}
+          />
+        </label>
+
+        <button
+          className="card flex items-center gap-3 px-6 py-5 text-left sm:px-7"
+          type="button"
+          onClick={props.onOpenLeaderboard}
+        >
+          <div className="flex size-12 items-center justify-center rounded-2xl border border-sunsetOrange/25 bg-sunsetOrange/10 text-sunsetOrange">
+            <Trophy className="size-5" aria-hidden="true" />
+          </div>
+          <div>
+            <p className="text-xs uppercase tracking-[0.3em] text-sunsetOrange/80">Standings</p>
+            <h3 className="mt-1 text-lg font-semibold text-sand">View the leaderboard</h3>
+          </div>
+        </button>
       </div>
     </section>
   );
@@ -613,6 +1455,11 @@ interface LobbyViewProps {
   isHost: boolean;
   onStart: () => void;
   onUpdateSettings: (settings: RoomSettingsUpdate) => void;
+  onAddBot: (difficulty: BotDifficulty) => void;
+  onRemoveBot: (botId: string) => void;
+  onAssignTeam: (playerId: string, teamId: number) => void;
+  onModeratePlayer: (action: ModerationAction, playerId: string) => void;
+  onSetWordList: (name: string, text: string | null) => void;
   onLeave: () => void;
 }
 
@@ -620,6 +1467,7 @@ function LobbyView(props: LobbyViewProps): JSX.Element {
   const hostPlayer = props.roomState.players.find((player) => player.id === props.roomState.hostId) ?? null;
   const hostIsSpectating = hostPlayer?.role === "spectator";
   const [settingsOpen, setSettingsOpen] = useState(true);
+  const [botDifficulty, setBotDifficulty] = useState<BotDifficulty>("medium");
 
   useEffect(() => {
     if (props.isHost) {
@@ -675,7 +1523,7 @@ function LobbyView(props: LobbyViewProps): JSX.Element {
                   }`}
                 >
                   <div className="flex items-center gap-3">
-                    <Avatar name={player.name} />
+                    <Avatar name={player.name} seed={player.avatarSeed} />
                     <div>
                       <div className="flex flex-wrap items-center gap-2">
                         <span className="text-lg font-semibold text-sand">{player.name}</span>
@@ -683,14 +1531,63 @@ function LobbyView(props: LobbyViewProps): JSX.Element {
                       </div>
                       <div className="mt-2 flex flex-wrap gap-2">
                         <RoleTag label={player.role === "spectator" ? "Spectator" : "Player"} />
+                        {player.isBot && player.botDifficulty ? (
+                          <RoleTag label={`Bot | ${BOT_DIFFICULTY_LABELS[player.botDifficulty]}`} tone="cyan" />
+                        ) : null}
                         {isHostPlayer ? <RoleTag label="Host" tone="orange" /> : null}
                         {!player.connected ? <RoleTag label="Offline" tone="danger" /> : null}
+                        {!props.isHost ? <TeamTag teamId={player.teamId} /> : null}
                       </div>
                     </div>
                   </div>
 
-                  <div className="flex items-center gap-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    {props.isHost && player.teamId !== null ? (
+                      <select
+                        className="arcade-input w-auto py-2 text-xs"
+                        value={player.teamId}
+                        aria-label={`Team for ${player.name}`}
+                        onChange={(event) => props.onAssignTeam(player.id, Number(event.target.value))}
+                      >
+                        {TEAM_NAMES.slice(0, props.roomState.config.teamCount).map((name, teamId) => (
+                          <option key={name} value={teamId}>
+                            {name}
+                          </option>
+                        ))}
+                      </select>
+                    ) : null}
                     <RoleTag label={player.connected ? "Online" : "Offline"} tone={player.connected ? "cyan" : "danger"} />
+                    {player.isBot && props.isHost ? (
+                      <button className="btn-ghost px-3 py-2 text-xs" type="button" onClick={() => props.onRemoveBot(player.id)}>
+                        Remove
+                      </button>
+                    ) : null}
+                    {props.isHost && !player.isBot && !isHostPlayer ? (
+                      <>
+                        <button
+                          className="btn-ghost px-3 py-2 text-xs"
+                          type="button"
+                          disabled={!player.connected}
+                          onClick={() => props.onModeratePlayer("room:transferHost", player.id)}
+                        >
+                          Make Host
+                        </button>
+                        <button
+                          className="btn-ghost px-3 py-2 text-xs"
+                          type="button"
+                          onClick={() => props.onModeratePlayer("room:kick", player.id)}
+                        >
+                          Kick
+                        </button>
+                        <button
+                          className="btn-ghost px-3 py-2 text-xs text-danger"
+                          type="button"
+                          onClick={() => props.onModeratePlayer("room:ban", player.id)}
+                        >
+                          Ban
+                        </button>
+                      </>
+                    ) : null}
                   </div>
                 </li>
               );
@@ -729,6 +1626,32 @@ function LobbyView(props: LobbyViewProps): JSX.Element {
               onChange={(value) => props.onUpdateSettings({ turnSeconds: value })}
             />
 
+            <div className="rounded-3xl border border-white/10 bg-ocean/40 p-4">
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <p className="text-sm font-semibold text-sand">Timer Curve</p>
+                  <p className="text-xs uppercase tracking-[0.24em] text-sand/45">Bomb</p>
+                </div>
+                <select
+                  className="arcade-input w-auto py-2 text-sm"
+                  value={props.roomState.config.timerMode}
+                  disabled={!props.isHost}
+                  onChange={(event) =>
+                    props.onUpdateSettings({ timerMode: event.target.value as TimerMode })
+                  }
+                >
+                  {(Object.keys(TIMER_MODE_LABELS) as TimerMode[]).map((timerMode) => (
+                    <option key={timerMode} value={timerMode}>
+                      {TIMER_MODE_LABELS[timerMode]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <p className="mt-2 text-sm text-sand/55">
+                {TIMER_MODE_HINTS[props.roomState.config.timerMode]}
+              </p>
+            </div>
+
             <RangeSetting
               label="Lives"
               valueLabel={`${props.roomState.config.startingLives}`}
@@ -763,6 +1686,38 @@ function LobbyView(props: LobbyViewProps): JSX.Element {
               onChange={(checked) => props.onUpdateSettings({ dictionaryEnabled: checked })}
             />
 
+            <div className="rounded-3xl border border-white/10 bg-ocean/40 p-4">
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <p className="text-sm font-semibold text-sand">Language</p>
+                  <p className="text-xs uppercase tracking-[0.24em] text-sand/45">Dictionary</p>
+                </div>
+                <select
+                  className="arcade-input w-auto py-2 text-sm"
+                  value={props.roomState.config.language}
+                  disabled={!props.isHost || props.roomState.availableLanguages.length < 2}
+                  onChange={(event) =>
+                    props.onUpdateSettings({ language: event.target.value as LanguageCode })
+                  }
+                >
+                  {props.roomState.availableLanguages.map((language) => (
+                    <option key={language} value={language}>
+                      {LANGUAGE_LABELS[language]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <p className="mt-2 text-sm text-sand/55">
+                Words and chunks come from the dictionary for this language, accents included.
+              </p>
+            </div>
+
+            <WordListSetting
+              wordList={props.roomState.customWordList}
+              disabled={!props.isHost}
+              onApply={props.onSetWordList}
+            />
+
             <ToggleSetting
               label="Allow four-letter chunks"
               hint="Expand the chunk pool from 2-3 letters to 2-4 letters."
@@ -771,6 +1726,265 @@ function LobbyView(props: LobbyViewProps): JSX.Element {
               onChange={(checked) => props.onUpdateSettings({ allowFourLetterChunks: checked })}
             />
 
+            <ToggleSetting
+              label="Team mode"
+              hint="Split players into teams that alternate turns and share a pool of lives."
+              checked={props.roomState.config.teamMode}
+              disabled={!props.isHost}
+              onChange={(checked) => props.onUpdateSettings({ teamMode: checked })}
+            />
+
+            {props.roomState.config.teamMode ? (
+              <RangeSetting
+                label="Teams"
+                valueLabel={`${props.roomState.config.teamCount}`}
+                min={2}
+                max={TEAM_NAMES.length}
+                value={props.roomState.config.teamCount}
+                disabled={!props.isHost}
+                onChange={(value) => props.onUpdateSettings({ teamCount: value })}
+              />
+            ) : null}
+
+            <div className="rounded-3xl border border-white/10 bg-ocean/40 p-4">
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <p className="text-sm font-semibold text-sand">Win Condition</p>
+                  <p className="text-xs uppercase tracking-[0.24em] text-sand/45">Scoring</p>
+                </div>
+                <select
+                  className="arcade-input w-auto py-2 text-sm"
+                  value={props.roomState.config.scoring.winCondition}
+                  disabled={!props.isHost}
+                  onChange={(event) =>
+                    props.onUpdateSettings({
+                      scoring: { ...props.roomState.config.scoring, winCondition: event.target.value as WinCondition },
+                    })
+                  }
+                >
+                  {(Object.keys(WIN_CONDITION_LABELS) as WinCondition[]).map((winCondition) => (
+                    <option key={winCondition} value={winCondition}>
+                      {WIN_CONDITION_LABELS[winCondition]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <p className="mt-2 text-sm text-sand/55">
+                {props.roomState.config.scoring.winCondition === "pointsRace"
+                  ? "First to the target score wins. Running out of time only costs the turn."
+                  : "The last player with lives left wins."}
+              </p>
+            </div>
+
+            {props.roomState.config.scoring.winCondition === "pointsRace" ? (
+              <RangeSetting
+                label="Target Score"
+                valueLabel={`${props.roomState.config.scoring.targetScore} pts`}
+                min={10}
+                max={200}
+                value={props.roomState.config.scoring.targetScore}
+                disabled={!props.isHost}
+                onChange={(value) =>
+                  props.onUpdateSettings({ scoring: { ...props.roomState.config.scoring, targetScore: value } })
+                }
+              />
+            ) : null}
+
+            <ToggleSetting
+              label="Length bonus"
+              hint="Each letter past four adds a point, up to six extra."
+              checked={props.roomState.config.scoring.lengthBonus}
+              disabled={!props.isHost}
+              onChange={(checked) =>
+                props.onUpdateSettings({ scoring: { ...props.roomState.config.scoring, lengthBonus: checked } })
+              }
+            />
+
+            <ToggleSetting
+              label="Rare chunk bonus"
+              hint="Medium, hard, and very hard chunks add one to three points."
+              checked={props.roomState.config.scoring.rarityBonus}
+              disabled={!props.isHost}
+              onChange={(checked) =>
+                props.onUpdateSettings({ scoring: { ...props.roomState.config.scoring, rarityBonus: checked } })
+              }
+            />
+
+            <ToggleSetting
+              label="Speed bonus"
+              hint="Answer with time to spare for up to three extra points."
+              checked={props.roomState.config.scoring.speedBonus}
+              disabled={!props.isHost}
+              onChange={(checked) =>
+                props.onUpdateSettings({ scoring: { ...props.roomState.config.scoring, speedBonus: checked } })
+              }
+            />
+
+            <ToggleSetting
+              label="Growing minimum length"
+              hint="Words must get one letter longer with each difficulty stage, up to seven."
+              checked={props.roomState.config.modifiers.growingMinLength}
+              disabled={!props.isHost}
+              onChange={(checked) =>
+                props.onUpdateSettings({
+                  modifiers: { ...props.roomState.config.modifiers, growingMinLength: checked },
+                })
+              }
+            />
+
+            <ToggleSetting
+              label="Chunk position"
+              hint="Some turns require the chunk at the start or the end of the word."
+              checked={props.roomState.config.modifiers.chunkPosition}
+              disabled={!props.isHost}
+              onChange={(checked) =>
+                props.onUpdateSettings({
+                  modifiers: { ...props.roomState.config.modifiers, chunkPosition: checked },
+                })
+              }
+            />
+
+            <ToggleSetting
+              label="No repeated letters"
+              hint="Some turns reject words that use any letter twice."
+              checked={props.roomState.config.modifiers.noRepeatedLetters}
+              disabled={!props.isHost}
+              onChange={(checked) =>
+                props.onUpdateSettings({
+                  modifiers: { ...props.roomState.config.modifiers, noRepeatedLetters: checked },
+                })
+              }
+            />
+
+            <ToggleSetting
+              label="Banned letter"
+              hint="Some turns ban a common letter that is not in the chunk."
+              checked={props.roomState.config.modifiers.bannedLetter}
+              disabled={!props.isHost}
+              onChange={(checked) =>
+                props.onUpdateSettings({
+                  modifiers: { ...props.roomState.config.modifiers, bannedLetter: checked },
+                })
+              }
+            />
+
+            <DifficultySetting
+              value={props.roomState.config.difficulty}
+              disabled={!props.isHost}
+              onChange={(difficulty) => props.onUpdateSettings({ difficulty })}
+            />
+
+            <ToggleSetting
+              label="Adaptive handicap"
+              hint="Players on a streak get harder chunks and less time; struggling players get the reverse."
+              checked={props.roomState.config.adaptiveHandicap}
+              disabled={!props.isHost}
+              onChange={(checked) => props.onUpdateSettings({ adaptiveHandicap: checked })}
+            />
+
+            <ToggleSetting
+              label="Power-ups"
+              hint="Long words and very hard chunks earn one-shot charges to skip, stall, or flip the bomb."
+              checked={props.roomState.config.powerUps.enabled}
+              disabled={!props.isHost}
+              onChange={(checked) =>
+                props.onUpdateSettings({
+                  powerUps: { ...props.roomState.config.powerUps, enabled: checked },
+                })
+              }
+            />
+
+            {props.roomState.config.powerUps.enabled ? (
+              <RangeSetting
+                label="Power-up Word Length"
+                valueLabel={`${props.roomState.config.powerUps.minWordLength}+ letters`}
+                min={6}
+                max={12}
+                value={props.roomState.config.powerUps.minWordLength}
+                disabled={!props.isHost}
+                onChange={(value) =>
+                  props.onUpdateSettings({
+                    powerUps: { ...props.roomState.config.powerUps, minWordLength: value },
+                  })
+                }
+              />
+            ) : null}
+
+            <ToggleSetting
+              label="Bonus letters"
+              hint="Use every letter of the alphabet across your words to earn an extra life."
+              checked={props.roomState.config.bonusLetters.enabled}
+              disabled={!props.isHost}
+              onChange={(checked) =>
+                props.onUpdateSettings({
+                  bonusLetters: { ...props.roomState.config.bonusLetters, enabled: checked },
+                })
+              }
+            />
+
+            {props.roomState.config.bonusLetters.enabled ? (
+              <>
+                <BonusLetterSetting
+                  value={props.roomState.config.bonusLetters}
+                  disabled={!props.isHost}
+                  onChange={(excludedLetters) =>
+                    props.onUpdateSettings({
+                      bonusLetters: { ...props.roomState.config.bonusLetters, excludedLetters },
+                    })
+                  }
+                />
+                <RangeSetting
+                  label="Bonus Life Cap"
+                  valueLabel={`${props.roomState.config.bonusLetters.maxLives} lives`}
+                  min={1}
+                  max={10}
+                  value={props.roomState.config.bonusLetters.maxLives}
+                  disabled={!props.isHost}
+                  onChange={(value) =>
+                    props.onUpdateSettings({
+                      bonusLetters: { ...props.roomState.config.bonusLetters, maxLives: value },
+                    })
+                  }
+                />
+              </>
+            ) : null}
+
+            <MatchSeedSetting
+              value={props.roomState.config.matchSeed}
+              disabled={!props.isHost}
+              onChange={(matchSeed) => props.onUpdateSettings({ matchSeed })}
+            />
+
+            <div className="rounded-3xl border border-white/10 bg-ocean/40 p-4">
+              <div className="flex items-center gap-2 text-sm font-semibold text-sand">
+                <Bot className="size-4 text-neonCyan" aria-hidden="true" />
+                Practice Bots
+              </div>
+              <p className="mt-1 text-sm text-sand/55">Fill empty seats with server-side bots for solo practice.</p>
+              <div className="mt-3 flex gap-2">
+                <select
+                  className="arcade-input flex-1 py-2 text-sm"
+                  value={botDifficulty}
+                  disabled={!props.isHost}
+                  onChange={(event) => setBotDifficulty(event.target.value as BotDifficulty)}
+                >
+                  {(Object.keys(BOT_DIFFICULTY_LABELS) as BotDifficulty[]).map((difficulty) => (
+                    <option key={difficulty} value={difficulty}>
+                      {BOT_DIFFICULTY_LABELS[difficulty]}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  className="btn-ghost px-3 py-2 text-xs"
+                  type="button"
+                  disabled={!props.isHost}
+                  onClick={() => props.onAddBot(botDifficulty)}
+                >
+                  Add Bot
+                </button>
+              </div>
+            </div>
+
             <div className="rounded-3xl border border-white/10 bg-ocean/40 p-4">
               <p className="text-sm text-sand/62">
                 Difficulty rises after each set of active turns. Start requires at least two
@@ -888,13 +2102,33 @@ function GameHudBar(props: GameHudBarProps): JSX.Element {
 }
 
 interface TurnCountdownReadoutProps {
-  remainingMs: number;
+  remainingMs: number | null;
   turnNumber: number;
   highlighted?: boolean;
 }
 
 function TurnCountdownReadout(props: TurnCountdownReadoutProps): JSX.Element {
   const liveRemainingMs = useTurnCountdown(props.remainingMs, props.turnNumber);
+
+  if (liveRemainingMs === null) {
+    return (
+      <div className="flex flex-col items-center gap-2">
+        <p className="text-[10px] uppercase tracking-[0.34em] text-sand/48">Hidden Fuse</p>
+        <div
+          className={`arcade-mono inline-flex items-center gap-2 rounded-full border px-5 py-2.5 ${
+            props.highlighted
+              ? "border-sunsetOrange/45 bg-sunsetOrange/12 text-sunsetOrange shadow-[0_0_24px_rgba(255,155,84,0.18)]"
+              : "border-neonCyan/35 bg-ocean/78 text-neonCyan"
+          }`}
+          aria-label="The fuse is burning. Time left is hidden."
+        >
+          <Bomb className="size-5 motion-safe:animate-pulse" aria-hidden="true" />
+          <span className="text-[10px] font-semibold uppercase tracking-[0.34em]">Burning</span>
+        </div>
+      </div>
+    );
+  }
+
   const secondsLeft = Math.max(0, Math.ceil(liveRemainingMs / 1000));
   const urgent = secondsLeft <= 3;
 
@@ -940,6 +2174,10 @@ function TurnOrderRow(props: TurnOrderRowProps): JSX.Element {
           {spectators.length > 0 ? (
             <RoleTag label={`${spectators.length} Spectator${spectators.length === 1 ? "" : "s"}`} />
           ) : null}
+          {props.roomState.turnDirection === -1 ? <RoleTag label="Reversed" tone="orange" /> : null}
+          {props.roomState.passDoublePending ? (
+            <RoleTag label="Half Time Next" tone="orange" />
+          ) : null}
           <RoleTag label={`Turn ${props.roomState.turnNumber}`} tone="cyan" />
         </div>
       </div>
@@ -959,7 +2197,7 @@ function TurnOrderRow(props: TurnOrderRowProps): JSX.Element {
             >
               <div className="flex items-center justify-between gap-3">
                 <div className="flex min-w-0 items-center gap-3">
-                  <Avatar name={player.name} size="sm" />
+                  <Avatar name={player.name} seed={player.avatarSeed} size="sm" />
                   <div className="min-w-0">
                     <div className="flex flex-wrap items-center gap-2">
                       <span
@@ -970,6 +2208,18 @@ function TurnOrderRow(props: TurnOrderRowProps): JSX.Element {
                         {player.name}
                       </span>
                       {isLocalPlayer ? <RoleTag label="You" tone="cyan" /> : null}
+                      <TeamTag teamId={player.teamId} />
+                      {props.roomState.config.adaptiveHandicap ? (
+                        <HandicapTag handicap={player.handicap} />
+                      ) : null}
+                      {props.roomState.config.powerUps.enabled && player.powerUps.length > 0 ? (
+                        <RoleTag
+                          label={`${player.powerUps.length} Power-up${
+                            player.powerUps.length === 1 ? "" : "s"
+                          }`}
+                          tone="orange"
+                        />
+                      ) : null}
                       {isEliminated ? (
                         <RoleTag label="Out" tone="danger" />
                       ) : isActive ? (
@@ -980,12 +2230,18 @@ function TurnOrderRow(props: TurnOrderRowProps): JSX.Element {
                       ) : null}
                     </div>
                     <p className="mt-1 truncate text-xs text-sand/50">
-                      {isEliminated ? "Watching the round out" : player.lastWord || "No word yet"}
+                      {isEliminated
+                        ? "Watching the round out"
+                        : formatLastWord(player, props.roomState) || "No word yet"}
                     </p>
                   </div>
                 </div>
 
-                <LivesIndicator lives={player.lives} eliminated={isEliminated} />
+                {isPointsRace(props.roomState) ? (
+                  <PointsIndicator score={player.score} />
+                ) : (
+                  <LivesIndicator lives={player.lives} eliminated={isEliminated} />
+                )}
               </div>
             </div>
           );
@@ -1009,6 +2265,7 @@ function TurnOrderRow(props: TurnOrderRowProps): JSX.Element {
                 </span>
                 <span className="font-semibold text-sand">{player.name}</span>
                 {player.id === props.session.playerId ? <RoleTag label="You" tone="cyan" /> : null}
+                {player.queuedForNextMatch ? <RoleTag label="Next Match" tone="cyan" /> : null}
                 {!player.connected ? <RoleTag label="Offline" tone="danger" /> : null}
               </div>
             ))}
@@ -1074,7 +2331,7 @@ function ScoreboardPlayerCard(props: {
       }`}
     >
       <div className="flex items-center gap-3">
-        <Avatar name={props.player.name} size="sm" />
+        <Avatar name={props.player.name} seed={props.player.avatarSeed} size="sm" />
         <div className="min-w-0 flex-1">
           <div className="flex flex-wrap items-center gap-2">
             <span
@@ -1085,6 +2342,7 @@ function ScoreboardPlayerCard(props: {
               {props.player.name}
             </span>
             {isLocalPlayer ? <RoleTag label="You" tone="cyan" /> : null}
+            <TeamTag teamId={props.player.teamId} />
             {spectator ? <RoleTag label="Spectator" /> : null}
             {eliminated ? <RoleTag label="Out" tone="danger" /> : null}
             {isActive && !spectator && !eliminated ? <RoleTag label="Active" tone="orange" /> : null}
@@ -1096,14 +2354,27 @@ function ScoreboardPlayerCard(props: {
             } ${spectator ? "text-sand/45" : "text-sand/82"}`}
           >
             <span className="truncate">
-              {spectator ? "Watching only" : props.player.lastWord || "Waiting..."}
+              {spectator
+                ? props.player.queuedForNextMatch
+                  ? "Joins next match"
+                  : "Watching only"
+                : formatLastWord(props.player, props.roomState) || "Waiting..."}
             </span>
           </div>
+
+          {props.roomState.config.bonusLetters.enabled && !spectator ? (
+            <BonusLetterStrip
+              rules={props.roomState.config.bonusLetters}
+              collected={props.player.bonusLetters}
+            />
+          ) : null}
         </div>
 
         <div className="shrink-0">
           {spectator ? (
             <LivesIndicator lives={0} spectator />
+          ) : isPointsRace(props.roomState) ? (
+            <PointsIndicator score={props.player.score} target={props.roomState.config.scoring.targetScore} />
           ) : eliminated ? (
             <span className="inline-flex items-center gap-1.5 rounded-full border border-danger/25 bg-danger/10 px-2.5 py-1 text-xs font-semibold uppercase tracking-[0.24em] text-danger">
               <Skull className="size-3.5" aria-hidden="true" />
@@ -1120,6 +2391,7 @@ function ScoreboardPlayerCard(props: {
 
 function ScoreboardPanel(props: ScoreboardPanelProps): JSX.Element {
   const [mobileOpen, setMobileOpen] = useState(false);
+  const winCondition = props.roomState.config.scoring.winCondition;
 
   return (
     <div className="card px-4 py-4 sm:px-5">
@@ -1170,7 +2442,8 @@ function ScoreboardPanel(props: ScoreboardPanelProps): JSX.Element {
       </div>
 
       <div className={`${props.mobileCollapsible && !mobileOpen ? "hidden lg:block" : ""} mt-4 space-y-2.5`}>
-        {orderedScoreboardPlayers(props.roomState.players).map((player) => (
+        <TeamLivesStrip teams={props.roomState.teams} />
+        {orderedScoreboardPlayers(props.roomState.players, winCondition).map((player) => (
           <ScoreboardPlayerCard
             key={player.id}
             player={player}
@@ -1237,7 +2510,13 @@ function GameDetailsScoreRow(props: {
               spectator ? "border-white/10 bg-black/15 text-sand/45" : "border-white/10 bg-black/15 text-sand/82"
             }`}
           >
-            <span className="truncate">{spectator ? "Watching only" : props.player.lastWord || "Waiting..."}</span>
+            <span className="truncate">
+              {spectator
+                ? props.player.queuedForNextMatch
+                  ? "Joins next match"
+                  : "Watching only"
+                : formatLastWord(props.player, props.roomState) || "Waiting..."}
+            </span>
           </span>
         </div>
       </div>
@@ -1245,6 +2524,8 @@ function GameDetailsScoreRow(props: {
       <div className="shrink-0">
         {spectator ? (
           <LivesIndicator lives={0} spectator />
+        ) : isPointsRace(props.roomState) ? (
+          <PointsIndicator score={props.player.score} />
         ) : eliminated ? (
           <span className="inline-flex items-center gap-1.5 rounded-full border border-danger/25 bg-danger/10 px-2.5 py-1 text-xs font-semibold uppercase tracking-[0.24em] text-danger">
             <Skull className="size-3.5" aria-hidden="true" />
@@ -1268,6 +2549,7 @@ function GameDetailsScoreRow(props: {
 function GameDetailsDrawer(props: GameDetailsDrawerProps): JSX.Element {
   const [open, setOpen] = useState(false);
   const activePlayers = props.roomState.players.filter((player) => player.role === "player").length;
+  const winCondition = props.roomState.config.scoring.winCondition;
   const toggleTypingPreviews = (): void => {
     props.onToggleTypingPreviews(!props.roomState.config.showTypingPreviews);
   };
@@ -1317,7 +2599,7 @@ function GameDetailsDrawer(props: GameDetailsDrawerProps): JSX.Element {
               </div>
 
               <div className="mt-4 space-y-2.5">
-                {orderedScoreboardPlayers(props.roomState.players).map((player) => (
+                {orderedScoreboardPlayers(props.roomState.players, winCondition).map((player) => (
                   <GameDetailsScoreRow
                     key={player.id}
                     player={player}
@@ -1351,7 +2633,11 @@ function GameDetailsDrawer(props: GameDetailsDrawerProps): JSX.Element {
                     <TimerReset className="size-4 text-neonCyan" aria-hidden="true" />
                     Timer Base
                   </div>
-                  <p className="mt-2 text-sm text-sand/58">{props.roomState.turnDurationSeconds}s per turn</p>
+                  <p className="mt-2 text-sm text-sand/58">
+                    {props.roomState.config.timerMode === "hiddenFuse"
+                      ? "Hidden fuse, carried between players"
+                      : `${props.roomState.turnDurationSeconds}s per turn`}
+                  </p>
                 </div>
 
                 <div className="rounded-2xl border border-white/10 bg-ocean/40 p-4">
@@ -1398,6 +2684,136 @@ function GameDetailsDrawer(props: GameDetailsDrawerProps): JSX.Element {
   );
 }
 
+interface ChallengeVotePanelProps {
+  challenge: PublicWordChallenge;
+  players: PublicPlayerState[];
+  session: Session;
+  onVote: (accept: boolean) => void;
+}
+
+function ChallengeVotePanel(props: ChallengeVotePanelProps): JSX.Element {
+  const { challenge } = props;
+  const [deadline, setDeadline] = useState(() => Date.now() + challenge.remainingMs);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    setDeadline(Date.now() + challenge.remainingMs);
+  }, [challenge.remainingMs]);
+
+  useEffect(() => {
+    const intervalId = window.setInterval(() => setNow(Date.now()), CHALLENGE_TICK_MS);
+    return () => {
+      window.clearInterval(intervalId);
+    };
+  }, []);
+
+  const challenger = props.players.find((player) => player.id === challenge.playerId);
+  const isChallenger = challenge.playerId === props.session.playerId;
+  const canVote =
+    challenge.voterIds.includes(props.session.playerId) &&
+    !challenge.votedPlayerIds.includes(props.session.playerId);
+  const secondsLeft = Math.max(0, Math.ceil((deadline - now) / 1000));
+
+  return (
+    <div
+      className="rounded-2xl border border-neonPurple/35 bg-neonPurple/10 px-4 py-4 text-center"
+      role="status"
+      aria-live="polite"
+    >
+      <p className="flex items-center justify-center gap-2 text-xs font-semibold uppercase tracking-[0.26em] text-neonPurple">
+        <Gavel className="size-4" aria-hidden="true" />
+        {isChallenger ? "You challenged" : `${challenger?.name ?? "A player"} challenged`}
+      </p>
+      <p className="arcade-mono mt-2 text-3xl uppercase text-sand">{challenge.word}</p>
+      <p className="mt-2 text-xs text-sand/62">
+        Timer paused | {secondsLeft}s to vote | {challenge.acceptVotes} accept,{" "}
+        {challenge.rejectVotes} reject of {challenge.voterIds.length}
+      </p>
+
+      {canVote ? (
+        <div className="mt-4 flex justify-center gap-3">
+          <button
+            className="btn-primary px-5 py-2 text-sm"
+            type="button"
+            onClick={() => props.onVote(true)}
+          >
+            <ThumbsUp className="size-4" aria-hidden="true" />
+            Accept
+          </button>
+          <button
+            className="btn-ghost px-5 py-2 text-sm"
+            type="button"
+            onClick={() => props.onVote(false)}
+          >
+            <ThumbsDown className="size-4" aria-hidden="true" />
+            Reject
+          </button>
+        </div>
+      ) : (
+        <p className="mt-3 text-xs uppercase tracking-[0.2em] text-sand/55">
+          {isChallenger
+            ? "Waiting for the room to vote"
+            : challenge.votedPlayerIds.includes(props.session.playerId)
+              ? "Vote locked in"
+              : "Players are voting"}
+        </p>
+      )}
+    </div>
+  );
+}
+
+const POWER_UP_ICONS: Record<PowerUpKind, typeof Shuffle> = {
+  skipChunk: Shuffle,
+  extraTime: TimerReset,
+  reverseOrder: ArrowLeftRight,
+  passDouble: ChevronsRight,
+};
+
+function PowerUpBar(props: {
+  roomState: PublicRoomState;
+  powerUps: PowerUpKind[];
+  canUse: boolean;
+  onUse: (powerUp: PowerUpKind) => void;
+}): JSX.Element {
+  const kinds = (Object.keys(POWER_UP_LABELS) as PowerUpKind[]).filter((kind) =>
+    props.powerUps.includes(kind),
+  );
+  const disabled =
+    !props.canUse || props.roomState.powerUpUsedThisTurn || props.roomState.wordChallenge !== null;
+
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-2">
+      <span className="text-[10px] uppercase tracking-[0.3em] text-sand/48">Power-ups</span>
+      {kinds.length === 0 ? (
+        <span className="text-xs text-sand/54">
+          Play a {props.roomState.config.powerUps.minWordLength}+ letter word or beat a Very Hard
+          chunk to earn one.
+        </span>
+      ) : (
+        kinds.map((kind) => {
+          const Icon = POWER_UP_ICONS[kind];
+          const count = props.powerUps.filter((powerUp) => powerUp === kind).length;
+
+          return (
+            <button
+              key={kind}
+              className="btn-ghost px-3 py-2 text-xs"
+              type="button"
+              disabled={disabled}
+              onClick={() => props.onUse(kind)}
+              title={POWER_UP_HINTS[kind]}
+            >
+              <Icon className="size-4" aria-hidden="true" />
+              {POWER_UP_LABELS[kind]}
+              {count > 1 ? <span className="arcade-mono text-sand/60">x{count}</span> : null}
+            </button>
+          );
+        })
+      )}
+    </div>
+  );
+}
+
 interface GameViewProps {
   session: Session;
   roomState: PublicRoomState;
@@ -1408,6 +2824,10 @@ interface GameViewProps {
   errorVersion: number;
   onWordDraft: (value: string) => void;
   onSubmitWord: (event: FormEvent) => void;
+  challengeableWord: string | null;
+  onChallengeWord: () => void;
+  onVoteChallenge: (accept: boolean) => void;
+  onUsePowerUp: (powerUp: PowerUpKind) => void;
   onToggleTypingPreviews: (enabled: boolean) => void;
   canSubmit: boolean;
   isHost: boolean;
@@ -1436,6 +2856,10 @@ function GameView(props: GameViewProps): JSX.Element {
     ? TIER_LABELS[props.roomState.globalDifficultyTier]
     : null;
   const chunkLengthLabel = props.roomState.config.allowFourLetterChunks ? "2-4 letters" : "2-3 letters";
+  const modifierLabels = describeTurnModifiers(
+    props.roomState.currentModifiers,
+    props.roomState.currentChunk ?? "",
+  );
 
   const typingPreviewText = props.typingState.isTyping
     ? props.roomState.config.showTypingPreviews
@@ -1447,6 +2871,7 @@ function GameView(props: GameViewProps): JSX.Element {
 
   const [panelFeedback, setPanelFeedback] = useState<"pass" | "boom" | null>(null);
   const [inputRejected, setInputRejected] = useState(false);
+  const [visibleHint, setVisibleHint] = useState<ExplosionHint | null>(null);
   const previousEventRef = useRef(props.roomState.lastEvent);
   const turnPanelRef = useRef<HTMLDivElement>(null);
 
@@ -1482,6 +2907,28 @@ function GameView(props: GameViewProps): JSX.Element {
     return undefined;
   }, [props.roomState.lastEvent]);
 
+  const lastExplosion = props.roomState.lastExplosion;
+
+  useEffect(() => {
+    if (!lastExplosion || lastExplosion.examples.length === 0) {
+      return undefined;
+    }
+
+    setVisibleHint(lastExplosion);
+    const timeoutId = window.setTimeout(() => {
+      setVisibleHint(null);
+    }, EXPLOSION_HINT_MS);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+    };
+    // Only a new explosion should restart the timer, not every room update carrying the same one.
+  }, [lastExplosion?.turnNumber]);
+
+  const hintPlayer = visibleHint
+    ? props.roomState.players.find((player) => player.id === visibleHint.playerId)
+    : undefined;
+
   useEffect(() => {
     if (!props.errorMessage || props.errorVersion === 0) {
       return;
@@ -1497,19 +2944,54 @@ function GameView(props: GameViewProps): JSX.Element {
     };
   }, [props.errorMessage, props.errorVersion]);
 
-  return (
-    <section className="mx-auto flex w-full max-w-5xl flex-col gap-4">
-      <div className="card px-4 py-4 sm:px-5">
-        <TurnOrderRow roomState={props.roomState} session={props.session} />
-      </div>
+  return (
+    <section className="mx-auto flex w-full max-w-5xl flex-col gap-4">
+      <div className="card px-4 py-4 sm:px-5">
+        <TurnOrderRow roomState={props.roomState} session={props.session} />
+      </div>
+
+      {localPlayerOut ? (
+        <div
+          className="rounded-2xl border border-danger/35 bg-danger/10 px-4 py-3 text-center text-sm font-semibold uppercase tracking-[0.26em] text-danger"
+          role="status"
+          aria-live="polite"
+        >
+          You are out this round
+        </div>
+      ) : null}
+
+      {props.localPlayer?.queuedForNextMatch ? (
+        <div
+          className="rounded-2xl border border-neonCyan/35 bg-neonCyan/10 px-4 py-3 text-center text-sm font-semibold uppercase tracking-[0.26em] text-neonCyan"
+          role="status"
+          aria-live="polite"
+        >
+          Watching live. You join the rotation next match
+        </div>
+      ) : null}
+
+      {props.roomState.wordChallenge ? (
+        <ChallengeVotePanel
+          challenge={props.roomState.wordChallenge}
+          players={props.roomState.players}
+          session={props.session}
+          onVote={props.onVoteChallenge}
+        />
+      ) : null}
 
-      {localPlayerOut ? (
+      {visibleHint ? (
         <div
-          className="rounded-2xl border border-danger/35 bg-danger/10 px-4 py-3 text-center text-sm font-semibold uppercase tracking-[0.26em] text-danger"
+          className="rounded-2xl border border-sunsetOrange/35 bg-sunsetOrange/10 px-4 py-3 text-center text-sm text-sand/84"
           role="status"
           aria-live="polite"
         >
-          You are out this round
+          <span className="font-semibold uppercase tracking-[0.2em] text-sunsetOrange">
+            {visibleHint.chunk}
+          </span>{" "}
+          {visibleHint.playerId === props.session.playerId
+            ? "You could have played"
+            : `${hintPlayer?.name ?? "They"} could have played`}{" "}
+          <span className="arcade-mono uppercase">{visibleHint.examples.join(", ")}</span>
         </div>
       ) : null}
 
@@ -1574,6 +3056,19 @@ function GameView(props: GameViewProps): JSX.Element {
                   {chunkLengthLabel}
                 </span>
               </div>
+
+              {modifierLabels.length > 0 ? (
+                <div className="flex flex-wrap justify-center gap-2" aria-label="Turn modifiers">
+                  {modifierLabels.map((label) => (
+                    <span
+                      key={label}
+                      className="rounded-full border border-sunsetOrange/40 bg-sunsetOrange/12 px-4 py-2 text-xs font-semibold uppercase tracking-[0.24em] text-sunsetOrange"
+                    >
+                      {label}
+                    </span>
+                  ))}
+                </div>
+              ) : null}
             </div>
           </div>
 
@@ -1609,6 +3104,7 @@ function GameView(props: GameViewProps): JSX.Element {
                 : ""
             }`}
             value={props.wordDraft}
+            lang={props.roomState.config.language}
             onChange={(event) => props.onWordDraft(event.target.value)}
             maxLength={30}
             placeholder={
@@ -1635,6 +3131,26 @@ function GameView(props: GameViewProps): JSX.Element {
           </button>
         </div>
 
+        {props.challengeableWord && props.canSubmit ? (
+          <button
+            className="btn-ghost mt-3 px-3 py-2 text-xs"
+            type="button"
+            onClick={props.onChallengeWord}
+          >
+            <Gavel className="size-4" aria-hidden="true" />
+            Challenge "{props.challengeableWord}"
+          </button>
+        ) : null}
+
+        {props.roomState.config.powerUps.enabled && props.localPlayer && !localPlayerOut ? (
+          <PowerUpBar
+            roomState={props.roomState}
+            powerUps={props.localPlayer.powerUps}
+            canUse={props.canSubmit}
+            onUse={props.onUsePowerUp}
+          />
+        ) : null}
+
         <p className="mt-3 text-xs text-sand/54 sm:text-sm">
           {localPlayerOut
             ? "Spectating only until the next round."
@@ -1661,11 +3177,31 @@ interface ResultsViewProps {
   roomState: PublicRoomState;
   isHost: boolean;
   onPlayAgain: () => void;
+  onWatchReplay: () => void;
+  onExportReplay: () => void;
   onLeave: () => void;
 }
 
 function ResultsView(props: ResultsViewProps): JSX.Element {
   const winner = props.roomState.players.find((player) => player.id === props.roomState.winnerId);
+  const winnerTeam = props.roomState.teams.find((team) => team.id === props.roomState.winnerTeamId);
+  const winnerTeamMembers = winnerTeam
+    ? props.roomState.players.filter((player) => player.teamId === winnerTeam.id).map((player) => player.name)
+    : [];
+  const [seedCopied, setSeedCopied] = useState(false);
+
+  const handleCopySeed = async (): Promise<void> => {
+    if (!props.roomState.matchSeed) {
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(props.roomState.matchSeed);
+      setSeedCopied(true);
+    } catch {
+      setSeedCopied(false);
+    }
+  };
 
   return (
     <section className="grid gap-6 xl:grid-cols-[minmax(0,1fr)_340px]">
@@ -1678,13 +3214,32 @@ function ResultsView(props: ResultsViewProps): JSX.Element {
 
           <div className="mt-6 flex flex-col gap-6 sm:flex-row sm:items-center sm:justify-between">
             <div>
-              <p className="text-xs uppercase tracking-[0.32em] text-sunsetOrange/80">Winner</p>
+              <p className="text-xs uppercase tracking-[0.32em] text-sunsetOrange/80">
+                {winnerTeam ? "Winning Team" : "Winner"}
+              </p>
               <h2 className="mt-3 font-display text-5xl uppercase leading-none text-sand text-shadow-neon sm:text-6xl">
-                {winner?.name ?? "No Winner"}
+                {winnerTeam ? `Team ${winnerTeam.name}` : winner?.name ?? "No Winner"}
               </h2>
+              {winnerTeam ? <p className="mt-3 text-sm text-sand/72">{winnerTeamMembers.join(", ")}</p> : null}
               <p className="mt-4 max-w-xl text-sm text-sand/62">
                 The cabinet is cooled down. Review the survival board and relaunch when the host is ready.
               </p>
+              {props.roomState.matchSeed ? (
+                <button
+                  className="badge mt-4 border-white/10 bg-white/10 text-sand/75"
+                  type="button"
+                  onClick={handleCopySeed}
+                  title="Copy match seed"
+                >
+                  <Hash className="size-3.5" aria-hidden="true" />
+                  <span className="arcade-mono">Seed {props.roomState.matchSeed}</span>
+                  {seedCopied ? (
+                    <CheckCircle2 className="size-3.5 text-success" aria-hidden="true" />
+                  ) : (
+                    <Copy className="size-3.5" aria-hidden="true" />
+                  )}
+                </button>
+              ) : null}
             </div>
 
             <div className="flex size-24 items-center justify-center rounded-[2rem] border border-sunsetOrange/30 bg-sunsetOrange/10 shadow-glow-orange">
@@ -1694,6 +3249,10 @@ function ResultsView(props: ResultsViewProps): JSX.Element {
         </div>
 
         <ScoreboardPanel title="Final Scoreboard" roomState={props.roomState} session={props.session} />
+
+        {props.roomState.matchAnalytics ? (
+          <MatchAnalyticsPanel analytics={props.roomState.matchAnalytics} players={props.roomState.players} />
+        ) : null}
       </div>
 
       <aside className="card px-5 py-5 sm:px-6">
@@ -1710,6 +3269,19 @@ function ResultsView(props: ResultsViewProps): JSX.Element {
             </div>
           )}
 
+          {props.roomState.replayAvailable ? (
+            <div className="grid grid-cols-2 gap-3">
+              <button className="btn-ghost" type="button" onClick={props.onWatchReplay}>
+                <Film className="size-4" aria-hidden="true" />
+                Replay
+              </button>
+              <button className="btn-ghost" type="button" onClick={props.onExportReplay}>
+                <Download className="size-4" aria-hidden="true" />
+                Export
+              </button>
+            </div>
+          ) : null}
+
           <button className="btn-ghost w-full" type="button" onClick={props.onLeave}>
             Leave Room
           </button>
@@ -1723,13 +3295,17 @@ export default function App(): JSX.Element {
   const [session, setSession] = useState<Session | null>(() => loadStoredSession());
   const [roomState, setRoomState] = useState<PublicRoomState | null>(null);
   const [typingState, setTypingState] = useState<TypingState>(() => createBlankTypingState());
-  const [createName, setCreateName] = useState("");
-  const [joinName, setJoinName] = useState("");
+  const [account, setAccount] = useState<StoredAccount | null>(() => loadStoredAccount());
+  const [createName, setCreateName] = useState(() => account?.profile.displayName ?? "");
+  const [joinName, setJoinName] = useState(() => account?.profile.displayName ?? "");
   const [joinCode, setJoinCode] = useState(() => loadJoinCodeFromUrl());
   const [wordDraft, setWordDraft] = useState("");
   const [error, setError] = useState("");
   const [errorVersion, setErrorVersion] = useState(0);
   const [explosionPulse, setExplosionPulse] = useState(false);
+  const [replay, setReplay] = useState<MatchReplay | null>(null);
+  const [showLeaderboard, setShowLeaderboard] = useState(false);
+  const [challengeableWord, setChallengeableWord] = useState<string | null>(null);
   const wordInputRef = useRef<HTMLInputElement>(null);
   const errorMinVisibleUntilRef = useRef(0);
   const errorClearTimeoutRef = useRef<number | null>(null);
@@ -1879,6 +3455,7 @@ export default function App(): JSX.Element {
           roomCode: targetSession.roomCode,
           playerId: targetSession.playerId,
           name: targetSession.name,
+          clientId: loadClientId(),
         },
         (response: AckResponse) => {
           if (response.ok && response.state) {
@@ -1899,10 +3476,28 @@ export default function App(): JSX.Element {
     [clearError, saveSession, showError],
   );
 
+  const refreshAccount = useCallback((storedAccount: StoredAccount | null) => {
+    if (!storedAccount) {
+      return;
+    }
+
+    socket.emit(
+      "account:profile",
+      { token: storedAccount.token },
+      (response: AccountResponse) => {
+        const nextAccount =
+          response.ok && response.profile ? { ...storedAccount, profile: response.profile } : null;
+        saveStoredAccount(nextAccount);
+        setAccount(nextAccount);
+      },
+    );
+  }, []);
+
   useEffect(() => {
     const onConnect = (): void => {
       setConnectionStatus("connected");
       attemptReconnect(loadStoredSession());
+      refreshAccount(loadStoredAccount());
     };
 
     const onDisconnect = (): void => {
@@ -1926,10 +3521,20 @@ export default function App(): JSX.Element {
       setTypingState(nextTypingState);
     };
 
+    const onRoomRemoved = (notice: RoomRemovedPayload): void => {
+      saveSession(null);
+      setRoomState(null);
+      setTypingState(createBlankTypingState());
+      showError(
+        notice.reason === "banned" ? "You were banned from the room." : "You were removed from the room.",
+      );
+    };
+
     socket.on("connect", onConnect);
     socket.on("disconnect", onDisconnect);
     socket.on("room:update", onRoomUpdate);
     socket.on("room:typingState", onTypingState);
+    socket.on("room:removed", onRoomRemoved);
     socket.io.on("reconnect_attempt", onReconnectAttempt);
     socket.io.on("reconnect_failed", onReconnectFailed);
 
@@ -1942,10 +3547,11 @@ export default function App(): JSX.Element {
       socket.off("disconnect", onDisconnect);
       socket.off("room:update", onRoomUpdate);
       socket.off("room:typingState", onTypingState);
+      socket.off("room:removed", onRoomRemoved);
       socket.io.off("reconnect_attempt", onReconnectAttempt);
       socket.io.off("reconnect_failed", onReconnectFailed);
     };
-  }, [attemptReconnect, clearError]);
+  }, [attemptReconnect, clearError, refreshAccount, saveSession, showError]);
 
   const me = useMemo(() => {
     if (!roomState || !session) {
@@ -1960,6 +3566,7 @@ export default function App(): JSX.Element {
     !!session &&
     roomState.phase === "in_game" &&
     roomState.activePlayerId === session.playerId &&
+    !roomState.wordChallenge &&
     connectionStatus === "connected" &&
     me?.role === "player" &&
     !me?.eliminated;
@@ -1989,6 +3596,10 @@ export default function App(): JSX.Element {
     );
   }, [roomState?.activePlayerId, roomState?.phase]);
 
+  useEffect(() => {
+    setChallengeableWord(null);
+  }, [roomState?.turnNumber, roomState?.phase]);
+
   useEffect(() => {
     if (canSubmit) {
       return;
@@ -2060,12 +3671,16 @@ export default function App(): JSX.Element {
     event.preventDefault();
     clearError(true);
 
-    socket.emit("room:create", { name: createName }, (response: AckResponse) => {
-      createOrJoinSessionFromAck(response, createName);
-      if (response.ok) {
-        setCreateName("");
-      }
-    });
+    socket.emit(
+      "room:create",
+      { name: createName, token: account?.token, clientId: loadClientId() },
+      (response: AckResponse) => {
+        createOrJoinSessionFromAck(response, createName);
+        if (response.ok) {
+          setCreateName("");
+        }
+      },
+    );
   };
 
   const handleJoinRoom = (event: FormEvent): void => {
@@ -2077,6 +3692,8 @@ export default function App(): JSX.Element {
       {
         roomCode: joinCode,
         name: joinName,
+        token: account?.token,
+        clientId: loadClientId(),
       },
       (response: AckResponse) => {
         createOrJoinSessionFromAck(response, joinName);
@@ -2084,6 +3701,53 @@ export default function App(): JSX.Element {
     );
   };
 
+  const applyAccountResponse = (response: AccountResponse, fallbackError: string): void => {
+    if (!response.ok || !response.profile) {
+      showError(response.error ?? fallbackError);
+      return;
+    }
+
+    const profile = response.profile;
+    const nextAccount: StoredAccount = { token: response.token ?? account?.token ?? "", profile };
+    saveStoredAccount(nextAccount);
+    setAccount(nextAccount);
+    setCreateName((current) => current || profile.displayName);
+    setJoinName((current) => current || profile.displayName);
+    clearError(true);
+  };
+
+  const handleSignIn = (username: string, passphrase: string, createAccount: boolean): void => {
+    socket.emit(
+      createAccount ? "account:register" : "account:signIn",
+      { username, passphrase, displayName: createName || joinName },
+      (response: AccountResponse) => {
+        applyAccountResponse(
+          response,
+          createAccount ? "Could not create that account." : "Could not sign in.",
+        );
+      },
+    );
+  };
+
+  const handleUpdateProfile = (update: { displayName?: string; avatarSeed?: string }): void => {
+    if (!account) {
+      return;
+    }
+
+    socket.emit(
+      "account:updateProfile",
+      { token: account.token, ...update },
+      (response: AccountResponse) => {
+        applyAccountResponse(response, "Could not update your profile.");
+      },
+    );
+  };
+
+  const handleSignOut = (): void => {
+    saveStoredAccount(null);
+    setAccount(null);
+  };
+
   const handleUpdateSettings = (settings: RoomSettingsUpdate): void => {
     if (!session || !roomState) {
       return;
@@ -2104,6 +3768,108 @@ export default function App(): JSX.Element {
     );
   };
 
+  const handleAddBot = (difficulty: BotDifficulty): void => {
+    if (!session) {
+      return;
+    }
+
+    socket.emit(
+      "room:addBot",
+      {
+        roomCode: session.roomCode,
+        playerId: session.playerId,
+        difficulty,
+      },
+      (response: AckResponse) => {
+        if (!response.ok) {
+          showError(response.error ?? "Could not add bot.");
+        }
+      },
+    );
+  };
+
+  const handleAssignTeam = (playerId: string, teamId: number): void => {
+    if (!session) {
+      return;
+    }
+
+    socket.emit(
+      "room:assignTeam",
+      {
+        roomCode: session.roomCode,
+        playerId: session.playerId,
+        targetPlayerId: playerId,
+        teamId,
+      },
+      (response: AckResponse) => {
+        if (!response.ok) {
+          showError(response.error ?? "Could not change team.");
+        }
+      },
+    );
+  };
+
+  const handleRemoveBot = (botId: string): void => {
+    if (!session) {
+      return;
+    }
+
+    socket.emit(
+      "room:removeBot",
+      {
+        roomCode: session.roomCode,
+        playerId: session.playerId,
+        botId,
+      },
+      (response: AckResponse) => {
+        if (!response.ok) {
+          showError(response.error ?? "Could not remove bot.");
+        }
+      },
+    );
+  };
+
+  const handleModeratePlayer = (action: ModerationAction, targetPlayerId: string): void => {
+    if (!session) {
+      return;
+    }
+
+    socket.emit(
+      action,
+      {
+        roomCode: session.roomCode,
+        playerId: session.playerId,
+        targetPlayerId,
+      },
+      (response: AckResponse) => {
+        if (!response.ok) {
+          showError(response.error ?? "Could not update that player.");
+        }
+      },
+    );
+  };
+
+  const handleSetWordList = (name: string, text: string | null): void => {
+    if (!session) {
+      return;
+    }
+
+    socket.emit(
+      "room:setWordList",
+      {
+        roomCode: session.roomCode,
+        playerId: session.playerId,
+        name,
+        text,
+      },
+      (response: AckResponse) => {
+        if (!response.ok) {
+          showError(response.error ?? "Could not load that word list.");
+        }
+      },
+    );
+  };
+
   const handleWordDraftChange = (value: string): void => {
     setWordDraft(value);
 
@@ -2111,7 +3877,7 @@ export default function App(): JSX.Element {
       return;
     }
 
-    queueTypingPreview(normalizeTypingPreview(value));
+    queueTypingPreview(normalizeTypingPreview(value, roomState?.config.language ?? "en"));
   };
 
   const handleStartGame = (): void => {
@@ -2139,7 +3905,7 @@ export default function App(): JSX.Element {
       return;
     }
 
-    const word = normalizeWordForSubmit(wordDraft);
+    const word = normalizeWordForSubmit(wordDraft, roomState?.config.language ?? "en");
     setWordDraft("");
     queueTypingPreview("");
 
@@ -2157,16 +3923,79 @@ export default function App(): JSX.Element {
       },
       (response: AckResponse) => {
         if (!response.ok) {
+          setChallengeableWord(response.challengeable ? word : null);
           showError(response.error ?? "Word rejected.");
           wordInputRef.current?.focus();
           return;
         }
 
+        setChallengeableWord(null);
         clearError(true);
       },
     );
   };
 
+  const handleChallengeWord = (): void => {
+    if (!session || !challengeableWord) {
+      return;
+    }
+
+    socket.emit(
+      "turn:challengeWord",
+      {
+        roomCode: session.roomCode,
+        playerId: session.playerId,
+        word: challengeableWord,
+      },
+      (response: AckResponse) => {
+        setChallengeableWord(null);
+        if (!response.ok) {
+          showError(response.error ?? "Could not start a challenge.");
+        }
+      },
+    );
+  };
+
+  const handleVoteChallenge = (accept: boolean): void => {
+    if (!session) {
+      return;
+    }
+
+    socket.emit(
+      "turn:voteChallenge",
+      {
+        roomCode: session.roomCode,
+        playerId: session.playerId,
+        accept,
+      },
+      (response: AckResponse) => {
+        if (!response.ok) {
+          showError(response.error ?? "Could not record your vote.");
+        }
+      },
+    );
+  };
+
+  const handleUsePowerUp = (powerUp: PowerUpKind): void => {
+    if (!session) {
+      return;
+    }
+
+    socket.emit(
+      "turn:usePowerUp",
+      {
+        roomCode: session.roomCode,
+        playerId: session.playerId,
+        powerUp,
+      },
+      (response: AckResponse) => {
+        if (!response.ok) {
+          showError(response.error ?? "Could not use that power-up.");
+        }
+      },
+    );
+  };
+
   const handlePlayAgain = (): void => {
     if (!session) {
       return;
@@ -2186,6 +4015,41 @@ export default function App(): JSX.Element {
     );
   };
 
+  const requestReplay = (onReplay: (nextReplay: MatchReplay) => void): void => {
+    if (!session) {
+      return;
+    }
+
+    socket.emit(
+      "game:replay",
+      {
+        roomCode: session.roomCode,
+        playerId: session.playerId,
+      },
+      (response: AckResponse) => {
+        if (!response.ok || !response.replay) {
+          showError(response.error ?? "Could not load the match replay.");
+          return;
+        }
+
+        onReplay(response.replay);
+      },
+    );
+  };
+
+  const handleOpenReplayFile = (file: File): void => {
+    void file.text().then((text) => {
+      const parsedReplay = parseMatchReplay(text);
+      if (!parsedReplay) {
+        showError("That file is not a Word Fuse replay.");
+        return;
+      }
+
+      clearError(true);
+      setReplay(parsedReplay);
+    });
+  };
+
   const handleLeaveRoom = (): void => {
     saveSession(null);
     setRoomState(null);
@@ -2272,76 +4136,106 @@ export default function App(): JSX.Element {
         </div>
 
         <main className="flex-1">
-          {!session ? (
-            <HomeView
-              createName={createName}
-              joinName={joinName}
-              joinCode={joinCode}
-              onCreateName={setCreateName}
-              onJoinName={setJoinName}
-              onJoinCode={setJoinCode}
-              onCreateRoom={handleCreateRoom}
-              onJoinRoom={handleJoinRoom}
+          {replay ? (
+            <ReplayView replay={replay} onClose={() => setReplay(null)} />
+          ) : showLeaderboard && !session ? (
+            <LeaderboardView
+              onClose={() => {
+                setShowLeaderboard(false);
+                refreshAccount(account);
+              }}
             />
-          ) : null}
+          ) : (
+            <>
+              {!session ? (
+                <HomeView
+                  createName={createName}
+                  joinName={joinName}
+                  joinCode={joinCode}
+                  onCreateName={setCreateName}
+                  onJoinName={setJoinName}
+                  onJoinCode={setJoinCode}
+                  onCreateRoom={handleCreateRoom}
+                  onJoinRoom={handleJoinRoom}
+                  onOpenReplayFile={handleOpenReplayFile}
+                  onOpenLeaderboard={() => setShowLeaderboard(true)}
+                  account={account}
+                  onSignIn={handleSignIn}
+                  onUpdateProfile={handleUpdateProfile}
+                  onSignOut={handleSignOut}
+                />
+              ) : null}
 
-          {session && !roomState ? (
-            <section className="mx-auto max-w-2xl">
-              <div className="card px-6 py-7 text-center sm:px-8">
-                <div className="mx-auto flex size-16 items-center justify-center rounded-[1.75rem] border border-neonCyan/25 bg-neonCyan/10 text-neonCyan shadow-glow-cyan">
-                  <RadioTower className="size-8" aria-hidden="true" />
-                </div>
-                <p className="mt-6 text-xs uppercase tracking-[0.32em] text-neonCyan/80">Reconnecting</p>
-                <h2 className="mt-3 text-3xl font-semibold text-sand">Finding your cabinet</h2>
-                <p className="mt-3 text-sm text-sand/62">Trying to reconnect you to room {session.roomCode}.</p>
-                <button className="btn-ghost mt-6" type="button" onClick={handleLeaveRoom}>
-                  Clear Session
-                </button>
-              </div>
-            </section>
-          ) : null}
+              {session && !roomState ? (
+                <section className="mx-auto max-w-2xl">
+                  <div className="card px-6 py-7 text-center sm:px-8">
+                    <div className="mx-auto flex size-16 items-center justify-center rounded-[1.75rem] border border-neonCyan/25 bg-neonCyan/10 text-neonCyan shadow-glow-cyan">
+                      <RadioTower className="size-8" aria-hidden="true" />
+                    </div>
+                    <p className="mt-6 text-xs uppercase tracking-[0.32em] text-neonCyan/80">Reconnecting</p>
+                    <h2 className="mt-3 text-3xl font-semibold text-sand">Finding your cabinet</h2>
+                    <p className="mt-3 text-sm text-sand/62">Trying to reconnect you to room {session.roomCode}.</p>
+                    <button className="btn-ghost mt-6" type="button" onClick={handleLeaveRoom}>
+                      Clear Session
+                    </button>
+                  </div>
+                </section>
+              ) : null}
 
-          {session && roomState && roomState.phase === "lobby" ? (
-            <LobbyView
-              session={session}
-              roomState={roomState}
-              isHost={isHost}
-              onStart={handleStartGame}
-              onUpdateSettings={handleUpdateSettings}
-              onLeave={handleLeaveRoom}
-            />
-          ) : null}
+              {session && roomState && roomState.phase === "lobby" ? (
+                <LobbyView
+                  session={session}
+                  roomState={roomState}
+                  isHost={isHost}
+                  onStart={handleStartGame}
+                  onUpdateSettings={handleUpdateSettings}
+                  onAddBot={handleAddBot}
+                  onRemoveBot={handleRemoveBot}
+                onAssignTeam={handleAssignTeam}
+                onModeratePlayer={handleModeratePlayer}
+                onSetWordList={handleSetWordList}
+                  onLeave={handleLeaveRoom}
+                />
+              ) : null}
 
-          {session && roomState && roomState.phase === "in_game" ? (
-            <GameView
-              session={session}
-              roomState={roomState}
-              typingState={typingState}
-              localPlayer={me}
-              wordDraft={wordDraft}
-              errorMessage={error}
-              errorVersion={errorVersion}
-              onWordDraft={handleWordDraftChange}
-              onSubmitWord={handleSubmitWord}
-              onToggleTypingPreviews={(showTypingPreviews) =>
-                handleUpdateSettings({ showTypingPreviews })
-              }
-              canSubmit={canSubmit}
-              isHost={isHost}
-              isYourTurn={canSubmit}
-              wordInputRef={wordInputRef}
-            />
-          ) : null}
+              {session && roomState && roomState.phase === "in_game" ? (
+                <GameView
+                  session={session}
+                  roomState={roomState}
+                  typingState={typingState}
+                  localPlayer={me}
+                  wordDraft={wordDraft}
+                  errorMessage={error}
+                  errorVersion={errorVersion}
+                  onWordDraft={handleWordDraftChange}
+                  onSubmitWord={handleSubmitWord}
+                  challengeableWord={challengeableWord}
+                  onChallengeWord={handleChallengeWord}
+                  onVoteChallenge={handleVoteChallenge}
+                  onUsePowerUp={handleUsePowerUp}
+                  onToggleTypingPreviews={(showTypingPreviews) =>
+                    handleUpdateSettings({ showTypingPreviews })
+                  }
+                  canSubmit={canSubmit}
+                  isHost={isHost}
+                  isYourTurn={canSubmit}
+                  wordInputRef={wordInputRef}
+                />
+              ) : null}
 
-          {session && roomState && roomState.phase === "results" ? (
-            <ResultsView
-              session={session}
-              roomState={roomState}
-              isHost={isHost}
-              onPlayAgain={handlePlayAgain}
-              onLeave={handleLeaveRoom}
-            />
-          ) : null}
+              {session && roomState && roomState.phase === "results" ? (
+                <ResultsView
+                  session={session}
+                  roomState={roomState}
+                  isHost={isHost}
+                  onPlayAgain={handlePlayAgain}
+                  onWatchReplay={() => requestReplay(setReplay)}
+                  onExportReplay={() => requestReplay(downloadMatchReplay)}
+                  onLeave={handleLeaveRoom}
+                />
+              ) : null}
+            </>
+          )}
         </main>
       </div>
     </div>
@@ -4,7 +4,7 @@ import { useTurnCountdown } from "./useTurnCountdown";
 
 interface BorderTimerProps {
   containerRef: RefObject<HTMLElement>;
-  remainingMs: number;
+  remainingMs: number | null;
   turnDurationSeconds: number;
   turnNumber: number;
 }
@@ -16,7 +16,9 @@ function BorderTimerComponent(props: BorderTimerProps): JSX.Element | null {
   const glowId = useId().replace(/:/g, "");
 
   const durationMs = Math.max(1, props.turnDurationSeconds * 1000);
-  const progress = Math.max(0, Math.min(1, liveRemainingMs / durationMs));
+  // A hidden fuse keeps the border fully lit and lets it flicker instead of draining.
+  const fuseHidden = liveRemainingMs === null;
+  const progress = fuseHidden ? 1 : Math.max(0, Math.min(1, liveRemainingMs / durationMs));
 
   const geometry = useMemo(() => {
     const strokeWidth = 4;
@@ -56,7 +58,9 @@ function BorderTimerComponent(props: BorderTimerProps): JSX.Element | null {
 
   return (
     <svg
-      className="pointer-events-none absolute inset-0 z-10 h-full w-full"
+      className={`pointer-events-none absolute inset-0 z-10 h-full w-full ${
+        fuseHidden ? "motion-safe:animate-pulse" : ""
+      }`}
       viewBox={`0 0 ${geometry.width} ${geometry.height}`}
       fill="none"
       preserveAspectRatio="none"
@@ -0,0 +1,240 @@
+import { Heart, Trophy, X } from "lucide-react";
+import { useEffect, useState } from "react";
+import { serverUrl } from "./socket";
+import {
+  ChunkTier,
+  LeaderboardEntry,
+  LeaderboardResponse,
+  LeaderboardSort,
+  PlayerStatsResponse,
+  PlayerStatsSummary,
+} from "./types";
+
+const SORT_OPTIONS: Array<{ value: LeaderboardSort; label: string }> = [
+  { value: "wins", label: "Wins" },
+  { value: "winRate", label: "Win Rate" },
+  { value: "words", label: "Words" },
+  { value: "speed", label: "Fastest" },
+  { value: "points", label: "Points" },
+];
+
+const TIER_LABELS: Record<ChunkTier, string> = {
+  veryEasy: "Very Easy",
+  easy: "Easy",
+  medium: "Medium",
+  hard: "Hard",
+  veryHard: "Very Hard",
+};
+
+type LoadState = "loading" | "ready" | "error";
+
+interface LeaderboardViewProps {
+  onClose: () => void;
+}
+
+function formatResponseTime(ms: number | null): string {
+  return ms === null ? "--" : `${(ms / 1000).toFixed(2)}s`;
+}
+
+function formatWinRate(winRate: number): string {
+  return `${Math.round(winRate * 100)}%`;
+}
+
+function describeSortValue(entry: LeaderboardEntry, sort: LeaderboardSort): string {
+  switch (sort) {
+    case "winRate":
+      return formatWinRate(entry.winRate);
+    case "words":
+      return `${entry.wordsPlayed} words`;
+    case "speed":
+      return formatResponseTime(entry.averageResponseMs);
+    case "points":
+      return `${entry.totalPoints} pts`;
+    case "wins":
+    default:
+      return `${entry.wins} wins`;
+  }
+}
+
+function PlayerStatsCard(props: { player: PlayerStatsSummary }): JSX.Element {
+  const { player } = props;
+  const stats: Array<[string, string]> = [
+    ["Matches", String(player.gamesPlayed)],
+    ["Wins", `${player.wins} (${formatWinRate(player.winRate)})`],
+    ["Words", String(player.wordsPlayed)],
+    ["Avg Response", formatResponseTime(player.averageResponseMs)],
+    ["Best Match", `${player.bestMatchPoints} pts`],
+    ["Longest Word", player.longestWord ? player.longestWord.toUpperCase() : "--"],
+  ];
+
+  return (
+    <div className="space-y-4">
+      <h3 className="truncate text-2xl font-semibold text-sand">{player.displayName}</h3>
+
+      <dl className="grid grid-cols-2 gap-3">
+        {stats.map(([label, value]) => (
+          <div key={label} className="rounded-2xl border border-white/10 bg-white/6 px-3 py-2">
+            <dt className="text-[11px] uppercase tracking-[0.24em] text-sand/55">{label}</dt>
+            <dd className="arcade-mono mt-1 truncate text-sm text-sand">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <div>
+        <p className="text-xs uppercase tracking-[0.3em] text-sunsetOrange/80">Lives Lost by Tier</p>
+        <ul className="mt-3 space-y-2">
+          {(Object.keys(TIER_LABELS) as ChunkTier[]).map((tier) => (
+            <li key={tier} className="flex items-center justify-between gap-3 text-sm text-sand/78">
+              <span>{TIER_LABELS[tier]}</span>
+              <span className="arcade-mono inline-flex items-center gap-1.5">
+                <Heart className="size-3.5 text-sunsetOrange" aria-hidden="true" />
+                {player.livesLostByTier[tier]}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
+
+export default function LeaderboardView(props: LeaderboardViewProps): JSX.Element {
+  const [sort, setSort] = useState<LeaderboardSort>("wins");
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [loadState, setLoadState] = useState<LoadState>("loading");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selectedPlayer, setSelectedPlayer] = useState<PlayerStatsSummary | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoadState("loading");
+
+    fetch(`${serverUrl}/api/leaderboard?sort=${sort}`)
+      .then((response) => response.json() as Promise<LeaderboardResponse>)
+      .then((response) => {
+        if (!cancelled) {
+          setEntries(response.entries);
+          setLoadState("ready");
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setLoadState("error");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sort]);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setSelectedPlayer(null);
+      return undefined;
+    }
+
+    let cancelled = false;
+
+    fetch(`${serverUrl}/api/players/${encodeURIComponent(selectedId)}/stats`)
+      .then((response) => response.json() as Promise<PlayerStatsResponse>)
+      .then((response) => {
+        if (!cancelled) {
+          setSelectedPlayer(response.player ?? null);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setSelectedPlayer(null);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId]);
+
+  return (
+    <section className="grid gap-6 xl:grid-cols-[minmax(0,1fr)_340px]">
+      <div className="card card-glow px-6 py-6 sm:px-7">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <div className="flex size-12 items-center justify-center rounded-2xl border border-sunsetOrange/25 bg-sunsetOrange/10 text-sunsetOrange">
+              <Trophy className="size-5" aria-hidden="true" />
+            </div>
+            <div>
+              <p className="text-xs uppercase tracking-[0.3em] text-sunsetOrange/80">Lifetime</p>
+              <h2 className="mt-1 text-2xl font-semibold text-sand">Leaderboard</h2>
+            </div>
+          </div>
+          <button className="btn-ghost px-3 py-2 text-xs" type="button" onClick={props.onClose}>
+            <X className="size-4" aria-hidden="true" />
+            Close
+          </button>
+        </div>
+
+        <div className="mt-5 flex flex-wrap gap-2">
+          {SORT_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              className={`badge ${
+                option.value === sort
+                  ? "border-neonCyan/35 bg-neonCyan/10 text-neonCyan"
+                  : "border-white/10 bg-white/10 text-sand/75"
+              }`}
+              type="button"
+              onClick={() => setSort(option.value)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <ol className="mt-5 space-y-2">
+          {loadState === "loading" ? (
+            <li className="text-sm text-sand/55">Loading standings...</li>
+          ) : loadState === "error" ? (
+            <li className="text-sm text-danger">Could not reach the server for standings.</li>
+          ) : entries.length === 0 ? (
+            <li className="text-sm text-sand/55">
+              No ranked players yet. Sign in and finish a match to get on the board.
+            </li>
+          ) : (
+            entries.map((entry) => (
+              <li key={entry.id}>
+                <button
+                  className={`flex w-full items-center gap-3 rounded-2xl border px-4 py-3 text-left ${
+                    entry.id === selectedId
+                      ? "border-neonCyan/30 bg-neonCyan/8 shadow-glow-cyan"
+                      : "border-white/10 bg-white/6"
+                  }`}
+                  type="button"
+                  onClick={() => setSelectedId(entry.id)}
+                >
+                  <span className="arcade-mono w-8 text-sm text-sand/55">#{entry.rank}</span>
+                  <span className="min-w-0 flex-1 truncate text-sm font-semibold text-sand">
+                    {entry.displayName}
+                  </span>
+                  <span className="arcade-mono text-sm text-neonCyan">
+                    {describeSortValue(entry, sort)}
+                  </span>
+                </button>
+              </li>
+            ))
+          )}
+        </ol>
+      </div>
+
+      <aside className="card px-5 py-5 sm:px-6">
+        <p className="text-xs uppercase tracking-[0.3em] text-neonPurple/80">Player Stats</p>
+        <div className="mt-4">
+          {selectedPlayer ? (
+            <PlayerStatsCard player={selectedPlayer} />
+          ) : (
+            <p className="text-sm text-sand/55">Pick a player to see their lifetime stats.</p>
+          )}
+        </div>
+      </aside>
+    </section>
+  );
+}
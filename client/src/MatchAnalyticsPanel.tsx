@@ -0,0 +1,214 @@
+import { Gauge, Ruler, Skull } from "lucide-react";
+import { useMemo } from "react";
+import { AnsweredWord, ChunkTier, MatchAnalytics, PublicPlayerState } from "./types";
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 180;
+const CHART_PADDING = 12;
+const LINE_COLORS = ["#4AF8FF", "#FF9B54", "#8F5BFF", "#32D39A", "#FF5B7E", "#F7E7B7"];
+
+const TIER_LABELS: Record<ChunkTier, string> = {
+  veryEasy: "Very Easy",
+  easy: "Easy",
+  medium: "Medium",
+  hard: "Hard",
+  veryHard: "Very Hard",
+};
+
+interface MatchAnalyticsPanelProps {
+  analytics: MatchAnalytics;
+  players: PublicPlayerState[];
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(2)}s`;
+}
+
+function HighlightCard(props: {
+  label: string;
+  answer: AnsweredWord | null;
+  detail: (answer: AnsweredWord) => string;
+  icon: JSX.Element;
+  playerName: (playerId: string) => string;
+}): JSX.Element {
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/6 px-4 py-3">
+      <p className="flex items-center gap-2 text-[11px] uppercase tracking-[0.24em] text-sand/55">
+        {props.icon}
+        {props.label}
+      </p>
+      {props.answer ? (
+        <>
+          <p className="arcade-mono mt-2 truncate text-lg uppercase text-sand">{props.answer.word}</p>
+          <p className="mt-1 truncate text-xs text-sand/62">
+            {props.playerName(props.answer.playerId)} | {props.detail(props.answer)}
+          </p>
+        </>
+      ) : (
+        <p className="mt-2 text-sm text-sand/55">No words played.</p>
+      )}
+    </div>
+  );
+}
+
+interface LivesChartProps extends MatchAnalyticsPanelProps {
+  colorFor: (playerId: string) => string;
+}
+
+function LivesChart(props: LivesChartProps): JSX.Element {
+  const { livesTimeline } = props.analytics;
+  const maxLives = Math.max(1, ...livesTimeline.flatMap((point) => Object.values(point.lives)));
+  const lastTurn = Math.max(1, livesTimeline[livesTimeline.length - 1]?.turnNumber ?? 1);
+  const toX = (turnNumber: number): number =>
+    CHART_PADDING + (turnNumber / lastTurn) * (CHART_WIDTH - CHART_PADDING * 2);
+  const toY = (lives: number): number =>
+    CHART_HEIGHT - CHART_PADDING - (lives / maxLives) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+  return (
+    <svg
+      className="h-44 w-full"
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      preserveAspectRatio="none"
+      role="img"
+      aria-label="Lives over turns"
+    >
+      <line
+        x1={CHART_PADDING}
+        x2={CHART_WIDTH - CHART_PADDING}
+        y1={toY(0)}
+        y2={toY(0)}
+        stroke="rgba(247, 231, 183, 0.2)"
+      />
+      {props.analytics.players.map((breakdown) => {
+        const points = livesTimeline
+          .filter((point) => breakdown.playerId in point.lives)
+          .map((point) => `${toX(point.turnNumber)},${toY(point.lives[breakdown.playerId])}`)
+          .join(" ");
+
+        return (
+          <polyline
+            key={breakdown.playerId}
+            points={points}
+            fill="none"
+            stroke={props.colorFor(breakdown.playerId)}
+            strokeWidth={2.5}
+            strokeLinejoin="round"
+            vectorEffect="non-scaling-stroke"
+          />
+        );
+      })}
+    </svg>
+  );
+}
+
+export default function MatchAnalyticsPanel(props: MatchAnalyticsPanelProps): JSX.Element {
+  const playerNames = useMemo(
+    () => new Map(props.players.map((player) => [player.id, player.name])),
+    [props.players],
+  );
+  const playerName = (playerId: string): string => playerNames.get(playerId) ?? "Former player";
+  const colorFor = (playerId: string): string => {
+    const index = props.analytics.players.findIndex((breakdown) => breakdown.playerId === playerId);
+    return LINE_COLORS[Math.max(0, index) % LINE_COLORS.length];
+  };
+
+  return (
+    <div className="card px-5 py-5 sm:px-6">
+      <p className="text-xs uppercase tracking-[0.3em] text-neonPurple/80">Match Breakdown</p>
+
+      <div className="mt-4 grid gap-3 sm:grid-cols-2">
+        <HighlightCard
+          label="Fastest Answer"
+          answer={props.analytics.fastestAnswer}
+          detail={(answer) => `${formatSeconds(answer.responseMs)} on ${answer.chunk}`}
+          icon={<Gauge className="size-3.5 text-neonCyan" aria-hidden="true" />}
+          playerName={playerName}
+        />
+        <HighlightCard
+          label="Longest Word"
+          answer={props.analytics.longestWord}
+          detail={(answer) => `${answer.word.length} letters on ${answer.chunk}`}
+          icon={<Ruler className="size-3.5 text-sunsetOrange" aria-hidden="true" />}
+          playerName={playerName}
+        />
+      </div>
+
+      {props.analytics.livesTimeline.length > 1 ? (
+        <div className="mt-5">
+          <p className="text-[11px] uppercase tracking-[0.24em] text-sand/55">Lives Over Turns</p>
+          <div className="mt-2 rounded-2xl border border-white/10 bg-white/5 px-2 py-2">
+            <LivesChart {...props} colorFor={colorFor} />
+          </div>
+        </div>
+      ) : null}
+
+      <div className="mt-5 grid gap-3 lg:grid-cols-2">
+        {props.analytics.players.map((breakdown) => (
+          <div key={breakdown.playerId} className="rounded-2xl border border-white/10 bg-white/6 px-4 py-3">
+            <div className="flex items-center justify-between gap-3">
+              <span className="flex min-w-0 items-center gap-2">
+                <span
+                  className="size-2.5 shrink-0 rounded-full"
+                  style={{ backgroundColor: colorFor(breakdown.playerId) }}
+                  aria-hidden="true"
+                />
+                <span className="truncate text-sm font-semibold text-sand">
+                  {playerName(breakdown.playerId)}
+                </span>
+              </span>
+              <span className="text-xs text-sand/55">
+                {breakdown.words.length} {breakdown.words.length === 1 ? "word" : "words"}
+              </span>
+            </div>
+
+            {breakdown.words.length > 0 ? (
+              <ol className="mt-3 space-y-1.5">
+                {breakdown.words.map((answer) => (
+                  <li
+                    key={answer.turnNumber}
+                    className="flex items-center justify-between gap-3 text-xs text-sand/78"
+                  >
+                    <span className="arcade-mono truncate uppercase">
+                      {answer.word}
+                      <span className="ml-2 text-sand/45">{answer.chunk}</span>
+                    </span>
+                    <span className="arcade-mono shrink-0 text-neonCyan">
+                      {formatSeconds(answer.responseMs)}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              <p className="mt-3 text-xs text-sand/55">No words played.</p>
+            )}
+
+            {breakdown.eliminatedBy ? (
+              <p className="mt-3 flex items-center gap-1.5 text-xs text-danger">
+                <Skull className="size-3.5" aria-hidden="true" />
+                Out on {breakdown.eliminatedBy.chunk} ({TIER_LABELS[breakdown.eliminatedBy.tier]}), turn{" "}
+                {breakdown.eliminatedBy.turnNumber}
+              </p>
+            ) : null}
+          </div>
+        ))}
+      </div>
+
+      {props.analytics.missedChunks.some((miss) => miss.examples.length > 0) ? (
+        <div className="mt-5">
+          <p className="text-[11px] uppercase tracking-[0.24em] text-sand/55">What Could Have Worked</p>
+          <ul className="mt-2 space-y-1.5">
+            {props.analytics.missedChunks
+              .filter((miss) => miss.examples.length > 0)
+              .map((miss) => (
+                <li key={miss.turnNumber} className="text-xs text-sand/78">
+                  <span className="arcade-mono text-sunsetOrange">{miss.chunk}</span>
+                  <span className="ml-2 text-sand/55">{playerName(miss.playerId)}, turn {miss.turnNumber}:</span>
+                  <span className="arcade-mono ml-2 uppercase">{miss.examples.join(", ")}</span>
+                </li>
+              ))}
+          </ul>
+        </div>
+      ) : null}
+    </div>
+  );
+}
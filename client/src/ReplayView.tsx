@@ -0,0 +1,465 @@
+import { Bomb, Download, Heart, Pause, Play, SkipBack, SkipForward, Skull, X } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { POWER_UP_LABELS } from "./powerUps";
+import { describeTurnModifiers } from "./turnModifiers";
+import { ChunkTier, MatchEvent, MatchReplay, ReplayPlayer } from "./types";
+
+const PLAYBACK_TICK_MS = 100;
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 4];
+const FEED_EVENT_LIMIT = 8;
+
+const TIER_LABELS: Record<ChunkTier, string> = {
+  veryEasy: "Very Easy",
+  easy: "Easy",
+  medium: "Medium",
+  hard: "Hard",
+  veryHard: "Very Hard",
+};
+
+interface ReplayPlayerFrame extends ReplayPlayer {
+  lives: number;
+  score: number;
+  lastWord: string;
+  eliminated: boolean;
+}
+
+interface ReplayFrame {
+  players: ReplayPlayerFrame[];
+  activePlayerId: string | null;
+  turnNumber: number;
+  chunk: string | null;
+  tier: ChunkTier | null;
+  remainingMs: number;
+  durationMs: number;
+  preview: string;
+  winnerId: string | null;
+  ended: boolean;
+  feed: MatchEvent[];
+}
+
+interface ReplayViewProps {
+  replay: MatchReplay;
+  onClose: () => void;
+}
+
+export function parseMatchReplay(text: string): MatchReplay | null {
+  try {
+    const parsed = JSON.parse(text) as Partial<MatchReplay>;
+    if (
+      typeof parsed.startedAt !== "number" ||
+      !Array.isArray(parsed.players) ||
+      !Array.isArray(parsed.events) ||
+      !parsed.config
+    ) {
+      return null;
+    }
+
+    return parsed as MatchReplay;
+  } catch {
+    return null;
+  }
+}
+
+export function downloadMatchReplay(replay: MatchReplay): void {
+  const blob = new Blob([JSON.stringify(replay, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `word-fuse-${replay.roomCode}-${new Date(replay.startedAt).toISOString().slice(0, 19)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function getReplayDurationMs(replay: MatchReplay): number {
+  const lastEvent = replay.events[replay.events.length - 1];
+  return Math.max(1, lastEvent?.at ?? 0);
+}
+
+function formatReplayClock(ms: number): string {
+  const totalSeconds = Math.floor(Math.max(0, ms) / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, "0")}`;
+}
+
+/**
+ * Folds every event up to `positionMs` into a board snapshot. Matches top out at a few
+ * thousand events, so recomputing from the start on each scrub keeps seeking trivially correct.
+ */
+function buildReplayFrame(replay: MatchReplay, positionMs: number): ReplayFrame {
+  const players = new Map<string, ReplayPlayerFrame>(
+    replay.players.map((player) => [
+      player.id,
+      { ...player, lives: player.startingLives, score: 0, lastWord: "", eliminated: false },
+    ]),
+  );
+  const frame: ReplayFrame = {
+    players: [],
+    activePlayerId: null,
+    turnNumber: 0,
+    chunk: null,
+    tier: null,
+    remainingMs: 0,
+    durationMs: 0,
+    preview: "",
+    winnerId: null,
+    ended: false,
+    feed: [],
+  };
+  let turnStartedAt = 0;
+
+  for (const event of replay.events) {
+    if (event.at > positionMs) {
+      break;
+    }
+
+    const player = "playerId" in event ? players.get(event.playerId) : undefined;
+
+    switch (event.type) {
+      case "turn_start":
+        frame.activePlayerId = event.playerId;
+        frame.turnNumber = event.turnNumber;
+        frame.chunk = event.chunk;
+        frame.tier = event.tier;
+        frame.durationMs = event.durationMs;
+        frame.preview = "";
+        turnStartedAt = event.at;
+        break;
+      case "typing":
+        frame.preview = event.preview;
+        break;
+      case "word_accepted":
+        if (player) {
+          player.score += event.points ?? 1;
+          player.lastWord = event.word.toUpperCase();
+        }
+        break;
+      case "explosion":
+        if (player) {
+          player.lives = event.livesLeft;
+        }
+        break;
+      case "elimination":
+        if (player) {
+          player.eliminated = true;
+        }
+        break;
+      case "bonus_life":
+        if (player) {
+          player.lives = event.lives;
+        }
+        break;
+      case "word_challenge":
+        // The turn clock stood still during the vote.
+        turnStartedAt += event.pausedMs;
+        break;
+      case "power_up":
+        frame.chunk = event.chunk ?? frame.chunk;
+        frame.tier = event.tier ?? frame.tier;
+        frame.durationMs = event.durationMs ?? frame.durationMs;
+        break;
+      case "match_end":
+        frame.activePlayerId = null;
+        frame.chunk = null;
+        frame.winnerId = event.winnerId;
+        frame.ended = true;
+        break;
+      default:
+        break;
+    }
+
+    if (event.type !== "typing") {
+      frame.feed.push(event);
+    }
+  }
+
+  frame.players = [...players.values()];
+  frame.remainingMs = frame.ended ? 0 : Math.max(0, frame.durationMs - (positionMs - turnStartedAt));
+  frame.feed = frame.feed.slice(-FEED_EVENT_LIMIT).reverse();
+  return frame;
+}
+
+function describeReplayEvent(event: MatchEvent, names: Map<string, string>): string {
+  const name = "playerId" in event ? names.get(event.playerId) ?? "Unknown player" : "";
+
+  switch (event.type) {
+    case "turn_start": {
+      const modifiers = describeTurnModifiers(event.modifiers, event.chunk);
+      return `Turn ${event.turnNumber}: ${name} gets ${event.chunk} (${TIER_LABELS[event.tier]})${
+        modifiers.length > 0 ? `, ${modifiers.join(", ")}` : ""
+      }`;
+    }
+    case "typing":
+      return `${name} typed ${event.preview}`;
+    case "word_accepted":
+      return `${name} played "${event.word}" (+${event.points ?? 1})`;
+    case "word_rejected":
+      return `${name} tried "${event.word}": ${event.reason}`;
+    case "word_challenge":
+      return `The room ${event.accepted ? "accepted" : "rejected"} ${name}'s challenge of "${
+        event.word
+      }" (${event.acceptVotes}-${event.rejectVotes})`;
+    case "explosion":
+      return `${name} exploded (${event.livesLeft} ${event.livesLeft === 1 ? "life" : "lives"} left)`;
+    case "elimination":
+      return `${name} was eliminated`;
+    case "bonus_life":
+      return `${name} completed the alphabet (${event.lives} ${event.lives === 1 ? "life" : "lives"})`;
+    case "turn_skipped":
+      if (event.reason === "removed") {
+        return `${name} was removed and the bomb moved on`;
+      }
+      return event.reason === "disconnected"
+        ? `${name} disconnected and the bomb moved on`
+        : `${name} was unavailable and the bomb moved on`;
+    case "power_up":
+      return event.chunk
+        ? `${name} used ${POWER_UP_LABELS[event.powerUp]} and got ${event.chunk}`
+        : `${name} used ${POWER_UP_LABELS[event.powerUp]}`;
+    case "match_end":
+      return event.winnerId ? `${names.get(event.winnerId) ?? "Unknown player"} won the match` : "Match ended";
+  }
+}
+
+export default function ReplayView(props: ReplayViewProps): JSX.Element {
+  const durationMs = useMemo(() => getReplayDurationMs(props.replay), [props.replay]);
+  const [positionMs, setPositionMs] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+
+  const frame = useMemo(() => buildReplayFrame(props.replay, positionMs), [props.replay, positionMs]);
+  const playerNames = useMemo(
+    () => new Map(props.replay.players.map((player) => [player.id, player.name])),
+    [props.replay],
+  );
+  const turnMarkers = useMemo(
+    () => props.replay.events.filter((event) => event.type === "turn_start").map((event) => event.at),
+    [props.replay],
+  );
+  const activePlayerName = frame.activePlayerId ? playerNames.get(frame.activePlayerId) ?? "" : "";
+  const winnerName = frame.winnerId ? playerNames.get(frame.winnerId) ?? "" : "";
+
+  useEffect(() => {
+    if (!isPlaying) {
+      return undefined;
+    }
+
+    let lastTickAt = Date.now();
+    const intervalId = window.setInterval(() => {
+      const now = Date.now();
+      const elapsed = (now - lastTickAt) * speed;
+      lastTickAt = now;
+
+      setPositionMs((current) => {
+        const next = Math.min(durationMs, current + elapsed);
+        if (next >= durationMs) {
+          setIsPlaying(false);
+        }
+        return next;
+      });
+    }, PLAYBACK_TICK_MS);
+
+    return () => {
+      window.clearInterval(intervalId);
+    };
+  }, [durationMs, isPlaying, speed]);
+
+  const jumpToTurn = (direction: -1 | 1): void => {
+    const target =
+      direction === 1
+        ? turnMarkers.find((at) => at > positionMs)
+        : [...turnMarkers].reverse().find((at) => at < positionMs - 500);
+    setPositionMs(target ?? (direction === 1 ? durationMs : 0));
+  };
+
+  const togglePlayback = (): void => {
+    if (!isPlaying && positionMs >= durationMs) {
+      setPositionMs(0);
+    }
+    setIsPlaying((current) => !current);
+  };
+
+  return (
+    <section className="grid gap-6 xl:grid-cols-[minmax(0,1fr)_340px]">
+      <div className="space-y-6">
+        <div className="card card-glow px-6 py-6 sm:px-7">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="badge border-sunsetOrange/35 bg-sunsetOrange/10 text-sunsetOrange">Replay</span>
+              <span className="badge border-neonCyan/35 bg-neonCyan/10 text-neonCyan">
+                Room {props.replay.roomCode}
+              </span>
+              <span className="badge border-white/10 bg-white/10 text-sand/75">
+                {new Date(props.replay.startedAt).toLocaleString()}
+              </span>
+              {props.replay.matchSeed ? (
+                <span className="badge arcade-mono border-white/10 bg-white/10 text-sand/75">
+                  Seed {props.replay.matchSeed}
+                </span>
+              ) : null}
+            </div>
+            <button className="btn-ghost px-3 py-2 text-xs" type="button" onClick={props.onClose}>
+              <X className="size-4" aria-hidden="true" />
+              Close
+            </button>
+          </div>
+
+          <div className="mt-6 flex flex-col items-center gap-3 text-center">
+            <p className="text-xs uppercase tracking-[0.32em] text-sand/55">
+              {frame.ended
+                ? "Final"
+                : frame.turnNumber > 0
+                  ? `Turn ${frame.turnNumber} | ${activePlayerName}`
+                  : "Match starting"}
+            </p>
+            <div className="flex items-center gap-4">
+              <Bomb className="size-8 text-sunsetOrange" aria-hidden="true" />
+              <span className="arcade-mono font-display text-6xl uppercase text-sand text-shadow-neon">
+                {frame.ended ? winnerName || "No Winner" : frame.chunk ?? "--"}
+              </span>
+            </div>
+            {frame.tier && !frame.ended ? (
+              <p className="text-sm text-sand/55">
+                {TIER_LABELS[frame.tier]} | {(frame.remainingMs / 1000).toFixed(1)}s left
+              </p>
+            ) : null}
+            <p className="arcade-mono min-h-8 text-2xl tracking-[0.3em] text-neonCyan">
+              {frame.ended ? "" : frame.preview}
+            </p>
+          </div>
+
+          <div className="mt-6 space-y-3">
+            <div className="relative">
+              <input
+                className="w-full"
+                type="range"
+                min={0}
+                max={durationMs}
+                step={50}
+                value={positionMs}
+                aria-label="Replay position"
+                onChange={(event) => setPositionMs(Number(event.target.value))}
+              />
+              <div className="pointer-events-none absolute inset-x-0 -bottom-1 h-1">
+                {turnMarkers.map((at) => (
+                  <span
+                    key={at}
+                    className="absolute h-1 w-px bg-sand/30"
+                    style={{ left: `${(at / durationMs) * 100}%` }}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex items-center gap-2">
+                <button className="btn-ghost px-3 py-2" type="button" onClick={() => jumpToTurn(-1)} aria-label="Previous turn">
+                  <SkipBack className="size-4" aria-hidden="true" />
+                </button>
+                <button className="btn-primary px-4 py-2" type="button" onClick={togglePlayback}>
+                  {isPlaying ? <Pause className="size-4" aria-hidden="true" /> : <Play className="size-4" aria-hidden="true" />}
+                  {isPlaying ? "Pause" : "Play"}
+                </button>
+                <button className="btn-ghost px-3 py-2" type="button" onClick={() => jumpToTurn(1)} aria-label="Next turn">
+                  <SkipForward className="size-4" aria-hidden="true" />
+                </button>
+              </div>
+
+              <span className="arcade-mono text-sm text-sand/65">
+                {formatReplayClock(positionMs)} / {formatReplayClock(durationMs)}
+              </span>
+
+              <div className="flex items-center gap-1">
+                {PLAYBACK_SPEEDS.map((entry) => (
+                  <button
+                    key={entry}
+                    className={`badge ${
+                      entry === speed
+                        ? "border-neonCyan/35 bg-neonCyan/10 text-neonCyan"
+                        : "border-white/10 bg-white/10 text-sand/75"
+                    }`}
+                    type="button"
+                    onClick={() => setSpeed(entry)}
+                  >
+                    {entry}x
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="card px-5 py-5 sm:px-6">
+          <p className="text-xs uppercase tracking-[0.3em] text-neonPurple/80">Board</p>
+          <div className="mt-4 grid gap-3 sm:grid-cols-2">
+            {frame.players
+              .filter((player) => player.role === "player")
+              .map((player) => (
+                <div
+                  key={player.id}
+                  className={`rounded-2xl border px-4 py-3 ${
+                    player.eliminated
+                      ? "border-white/10 bg-white/5 opacity-60"
+                      : player.id === frame.activePlayerId
+                        ? "border-neonCyan/30 bg-neonCyan/8 shadow-glow-cyan"
+                        : "border-white/10 bg-white/6"
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <span
+                      className={`truncate text-sm font-semibold text-sand ${
+                        player.eliminated ? "line-through decoration-danger/70" : ""
+                      }`}
+                    >
+                      {player.name}
+                    </span>
+                    {player.eliminated ? (
+                      <Skull className="size-4 text-danger" aria-label="Out" />
+                    ) : (
+                      <span className="arcade-mono inline-flex items-center gap-1.5 text-xs text-sand/84">
+                        <Heart className="size-3.5 text-sunsetOrange" aria-hidden="true" />
+                        {player.lives}
+                      </span>
+                    )}
+                  </div>
+                  <p className="mt-2 truncate text-xs text-sand/62">
+                    {player.lastWord || "No words yet"} | {player.score} pts
+                  </p>
+                </div>
+              ))}
+          </div>
+        </div>
+      </div>
+
+      <aside className="card px-5 py-5 sm:px-6">
+        <p className="text-xs uppercase tracking-[0.3em] text-neonPurple/80">Event Feed</p>
+        <ol className="mt-4 space-y-2">
+          {frame.feed.length === 0 ? (
+            <li className="text-sm text-sand/55">Nothing has happened yet.</li>
+          ) : (
+            frame.feed.map((event, index) => (
+              <li
+                key={`${event.at}-${event.type}-${index}`}
+                className={`rounded-2xl border px-3 py-2 text-sm ${
+                  event.type === "explosion" || event.type === "elimination"
+                    ? "border-danger/30 bg-danger/10 text-sand"
+                    : event.type === "word_rejected"
+                      ? "border-sunsetOrange/25 bg-sunsetOrange/5 text-sand/75"
+                      : "border-white/10 bg-white/5 text-sand/80"
+                }`}
+              >
+                <span className="arcade-mono mr-2 text-xs text-sand/45">{formatReplayClock(event.at)}</span>
+                {describeReplayEvent(event, playerNames)}
+              </li>
+            ))
+          )}
+        </ol>
+
+        <button className="btn-ghost mt-5 w-full" type="button" onClick={() => downloadMatchReplay(props.replay)}>
+          <Download className="size-4" aria-hidden="true" />
+          Export JSON
+        </button>
+      </aside>
+    </section>
+  );
+}
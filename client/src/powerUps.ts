@@ -0,0 +1,15 @@
+import { PowerUpKind } from "./types";
+
+export const POWER_UP_LABELS: Record<PowerUpKind, string> = {
+  skipChunk: "Skip Chunk",
+  extraTime: "+3 Seconds",
+  reverseOrder: "Reverse",
+  passDouble: "Pass Double",
+};
+
+export const POWER_UP_HINTS: Record<PowerUpKind, string> = {
+  skipChunk: "Swap the live chunk for another one of the same difficulty.",
+  extraTime: "Add three seconds to your clock.",
+  reverseOrder: "Send the bomb back the way it came.",
+  passDouble: "The next player gets half their usual time.",
+};
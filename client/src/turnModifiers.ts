@@ -0,0 +1,34 @@
+import { TurnModifiers } from "./types";
+
+const MIN_WORD_LENGTH = 3;
+
+// Short labels for the rules a turn adds on top of "contains the chunk".
+export function describeTurnModifiers(
+  modifiers: TurnModifiers | null | undefined,
+  chunk: string,
+): string[] {
+  if (!modifiers) {
+    return [];
+  }
+
+  const labels: string[] = [];
+  if (modifiers.minLength > MIN_WORD_LENGTH) {
+    labels.push(`${modifiers.minLength}+ letters`);
+  }
+
+  if (modifiers.chunkPosition === "start") {
+    labels.push(`Starts with ${chunk}`);
+  } else if (modifiers.chunkPosition === "end") {
+    labels.push(`Ends with ${chunk}`);
+  }
+
+  if (modifiers.noRepeatedLetters) {
+    labels.push("No repeated letters");
+  }
+
+  if (modifiers.bannedLetter) {
+    labels.push(`No ${modifiers.bannedLetter.toUpperCase()}`);
+  }
+
+  return labels;
+}
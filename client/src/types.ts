@@ -1,56 +1,347 @@
 export type GamePhase = "lobby" | "in_game" | "results";
 export type ChunkTier = "veryEasy" | "easy" | "medium" | "hard" | "veryHard";
 export type PlayerRole = "player" | "spectator";
+export type BotDifficulty = "easy" | "medium" | "hard";
+export type WinCondition = "lastStanding" | "pointsRace";
+export type LanguageCode = "en" | "es" | "fr" | "de";
+export type TimerMode = "linear" | "exponential" | "fixed" | "hiddenFuse";
+export type DifficultyPreset = "casual" | "standard" | "brutal" | "custom";
+export type PowerUpKind = "skipChunk" | "extraTime" | "reverseOrder" | "passDouble";
+
+export interface ScoringRules {
+  lengthBonus: boolean;
+  rarityBonus: boolean;
+  speedBonus: boolean;
+  winCondition: WinCondition;
+  targetScore: number;
+}
+
+export interface DifficultyStage {
+  // Rounds (one active turn per player) played before this stage begins.
+  fromRound: number;
+  tierWeights: Partial<Record<ChunkTier, number>>;
+}
+
+export interface DifficultyProfile {
+  preset: DifficultyPreset;
+  stages: DifficultyStage[];
+}
+
+export type ChunkPosition = "start" | "end";
+
+export interface BonusLetterRules {
+  enabled: boolean;
+  // Lowercase letters left out of the alphabet players collect.
+  excludedLetters: string[];
+  maxLives: number;
+}
+
+export interface PowerUpRules {
+  enabled: boolean;
+  // Words at least this long earn a charge, as does any word on a very hard chunk.
+  minWordLength: number;
+}
+
+export interface WordModifierRules {
+  growingMinLength: boolean;
+  chunkPosition: boolean;
+  noRepeatedLetters: boolean;
+  bannedLetter: boolean;
+}
+
+export interface TurnModifiers {
+  minLength: number;
+  chunkPosition: ChunkPosition | null;
+  noRepeatedLetters: boolean;
+  bannedLetter: string | null;
+}
 
 export interface RoomConfig {
   turnSeconds: number;
+  timerMode: TimerMode;
   startingLives: number;
   dictionaryEnabled: boolean;
   showTypingPreviews: boolean;
   allowFourLetterChunks: boolean;
+  matchSeed: string;
+  scoring: ScoringRules;
+  teamMode: boolean;
+  teamCount: number;
+  language: LanguageCode;
+  modifiers: WordModifierRules;
+  difficulty: DifficultyProfile;
+  adaptiveHandicap: boolean;
+  powerUps: PowerUpRules;
+  bonusLetters: BonusLetterRules;
+}
+
+export interface ReplayPlayer {
+  id: string;
+  name: string;
+  role: PlayerRole;
+  isBot: boolean;
+  teamId: number | null;
+  startingLives: number;
+}
+
+export type MatchEvent =
+  | {
+      type: "turn_start";
+      at: number;
+      turnNumber: number;
+      playerId: string;
+      chunk: string;
+      tier: ChunkTier;
+      coverage: number;
+      durationMs: number;
+      modifiers?: TurnModifiers;
+    }
+  | { type: "typing"; at: number; playerId: string; preview: string }
+  | { type: "word_accepted"; at: number; playerId: string; word: string; points: number }
+  | { type: "word_rejected"; at: number; playerId: string; word: string; reason: string }
+  | {
+      type: "word_challenge";
+      at: number;
+      playerId: string;
+      word: string;
+      accepted: boolean;
+      acceptVotes: number;
+      rejectVotes: number;
+      pausedMs: number;
+    }
+  | { type: "explosion"; at: number; playerId: string; livesLeft: number }
+  | { type: "elimination"; at: number; playerId: string }
+  | { type: "bonus_life"; at: number; playerId: string; lives: number }
+  | { type: "turn_skipped"; at: number; playerId: string; reason: "disconnected" | "unavailable" | "removed" }
+  | {
+      type: "power_up";
+      at: number;
+      playerId: string;
+      powerUp: PowerUpKind;
+      // Set when the power-up changed the live turn: a new chunk or a longer clock.
+      chunk?: string;
+      tier?: ChunkTier;
+      durationMs?: number;
+    }
+  | { type: "match_end"; at: number; winnerId: string | null };
+
+export interface MatchReplay {
+  version: number;
+  roomCode: string;
+  matchSeed: string;
+  startedAt: number;
+  endedAt: number | null;
+  config: RoomConfig;
+  players: ReplayPlayer[];
+  winnerId: string | null;
+  events: MatchEvent[];
+}
+
+export interface ExplosionHint {
+  playerId: string;
+  turnNumber: number;
+  chunk: string;
+  examples: string[];
+}
+
+export interface PublicWordChallenge {
+  playerId: string;
+  word: string;
+  remainingMs: number;
+  voterIds: string[];
+  votedPlayerIds: string[];
+  acceptVotes: number;
+  rejectVotes: number;
+}
+
+export interface AnsweredWord {
+  playerId: string;
+  turnNumber: number;
+  word: string;
+  chunk: string;
+  tier: ChunkTier;
+  responseMs: number;
+  points: number;
+}
+
+export interface PlayerMatchBreakdown {
+  playerId: string;
+  words: AnsweredWord[];
+  eliminatedBy: { turnNumber: number; chunk: string; tier: ChunkTier } | null;
+}
+
+export interface LivesTimelinePoint {
+  turnNumber: number;
+  lives: Record<string, number>;
+}
+
+export interface MatchAnalytics {
+  players: PlayerMatchBreakdown[];
+  fastestAnswer: AnsweredWord | null;
+  longestWord: AnsweredWord | null;
+  livesTimeline: LivesTimelinePoint[];
+  missedChunks: ExplosionHint[];
+}
+
+export interface PlayerHandicap {
+  // Tiers the player's chunks are shifted by; positive for strong recent play.
+  level: number;
+  timeAdjustSeconds: number;
+  recentTurns: number;
+  successRate: number | null;
+  averageResponseMs: number | null;
 }
 
 export interface PublicPlayerState {
   id: string;
   name: string;
+  accountId: string | null;
+  avatarSeed: string;
   role: PlayerRole;
+  queuedForNextMatch: boolean;
+  isBot: boolean;
+  botDifficulty: BotDifficulty | null;
+  teamId: number | null;
   connected: boolean;
   score: number;
   lastWord: string;
+  lastWordPoints: number;
   activeTurnCount: number;
   lives: number;
   eliminated: boolean;
+  handicap: PlayerHandicap | null;
+  powerUps: PowerUpKind[];
+  bonusLetters: string[];
   joinedAt: number;
 }
 
+export interface PublicTeamState {
+  id: number;
+  name: string;
+  lives: number;
+  eliminated: boolean;
+}
+
+export interface PublicWordListState {
+  name: string;
+  wordCount: number;
+  chunkCount: number;
+}
+
 export interface PublicRoomState {
   roomCode: string;
   phase: GamePhase;
   hostId: string;
   players: PublicPlayerState[];
+  teams: PublicTeamState[];
   config: RoomConfig;
   activePlayerId: string | null;
   currentChunk: string | null;
   currentChunkCoverage: number | null;
   currentChunkTier: ChunkTier | null;
+  currentModifiers: TurnModifiers | null;
   globalDifficultyTier: ChunkTier | null;
   globalStageIndex: number;
   turnNumber: number;
   turnDurationSeconds: number;
-  remainingMs: number;
+  // Null while a hidden fuse is burning, so clients cannot show an exact countdown.
+  remainingMs: number | null;
+  turnDirection: 1 | -1;
+  passDoublePending: boolean;
+  powerUpUsedThisTurn: boolean;
   usedWords: string[];
+  matchSeed: string | null;
   winnerId: string | null;
+  winnerTeamId: number | null;
   lastEvent: string;
   canStart: boolean;
+  replayAvailable: boolean;
+  matchAnalytics: MatchAnalytics | null;
+  lastExplosion: ExplosionHint | null;
+  wordChallenge: PublicWordChallenge | null;
+  customWordList: PublicWordListState | null;
+  availableLanguages: LanguageCode[];
   serverTime: number;
 }
 
 export interface AckResponse {
   ok: boolean;
   error?: string;
+  challengeable?: boolean;
   roomCode?: string;
   playerId?: string;
   state?: PublicRoomState;
+  replay?: MatchReplay;
+}
+
+export interface RoomRemovedPayload {
+  roomCode: string;
+  reason: "kicked" | "banned";
+}
+
+export interface AccountStats {
+  gamesPlayed: number;
+  wins: number;
+  wordsPlayed: number;
+  totalPoints: number;
+  bestMatchPoints: number;
+  longestWord: string;
+  totalResponseMs: number;
+  livesLostByTier: Record<ChunkTier, number>;
+}
+
+export interface AccountProfile {
+  id: string;
+  username: string;
+  displayName: string;
+  avatarSeed: string;
+  createdAt: number;
+  stats: AccountStats;
+}
+
+export interface AccountResponse {
+  ok: boolean;
+  error?: string;
+  token?: string;
+  profile?: AccountProfile;
+}
+
+export type LeaderboardSort = "wins" | "winRate" | "words" | "speed" | "points";
+
+export interface PlayerStatsSummary {
+  id: string;
+  displayName: string;
+  avatarSeed: string;
+  gamesPlayed: number;
+  wins: number;
+  winRate: number;
+  wordsPlayed: number;
+  totalPoints: number;
+  bestMatchPoints: number;
+  averageResponseMs: number | null;
+  longestWord: string;
+  livesLostByTier: Record<ChunkTier, number>;
+}
+
+export interface LeaderboardEntry extends PlayerStatsSummary {
+  rank: number;
+}
+
+export interface LeaderboardResponse {
+  ok: boolean;
+  sort: LeaderboardSort;
+  entries: LeaderboardEntry[];
+}
+
+export interface PlayerStatsResponse {
+  ok: boolean;
+  error?: string;
+  player?: PlayerStatsSummary;
+}
+
+export interface StoredAccount {
+  token: string;
+  profile: AccountProfile;
 }
 
 export interface Session {
@@ -2,10 +2,21 @@ import { useEffect, useState } from "react";
 
 const TICK_MS = 100;
 
-export function useTurnCountdown(remainingMs: number, turnNumber: number): number {
-  const [liveRemainingMs, setLiveRemainingMs] = useState(() => Math.max(0, remainingMs));
+/**
+ * Counts down locally between room updates. A hidden fuse has no known end, so the hook
+ * returns null and never ticks.
+ */
+export function useTurnCountdown(remainingMs: number | null, turnNumber: number): number | null {
+  const [liveRemainingMs, setLiveRemainingMs] = useState(() =>
+    remainingMs === null ? null : Math.max(0, remainingMs),
+  );
 
   useEffect(() => {
+    if (remainingMs === null) {
+      setLiveRemainingMs(null);
+      return;
+    }
+
     const endAt = Date.now() + remainingMs;
 
     const updateRemaining = (): void => {
@@ -0,0 +1,381 @@
+import fs from "node:fs";
+import path from "node:path";
+import { createHmac, randomBytes, randomUUID, scryptSync, timingSafeEqual } from "node:crypto";
+import {
+  AccountProfile,
+  AccountRecord,
+  AccountResponse,
+  AccountStats,
+  ChunkTier,
+} from "./types";
+import { ReplayPlayerTotals, createEmptyTierCounts } from "./stats";
+import { sanitizePlayerName } from "./utils";
+
+const SNAPSHOT_VERSION = 1;
+const FILE_FLUSH_DELAY_MS = 1000;
+const TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const PASSPHRASE_KEY_LENGTH = 64;
+const MIN_PASSPHRASE_LENGTH = 8;
+const MAX_PASSPHRASE_LENGTH = 128;
+const MAX_AVATAR_SEED_LENGTH = 32;
+const USERNAME_PATTERN = /^[a-z0-9_-]{3,20}$/;
+
+export const SIGN_IN_EXPIRED_ERROR = "Your sign-in has expired. Sign in again.";
+
+export interface AccountStore {
+  get(accountId: string): AccountRecord | undefined;
+  findByUsername(username: string): AccountRecord | undefined;
+  set(account: AccountRecord): void;
+  values(): AccountRecord[];
+  flush(): void;
+}
+
+export interface AccountMatchSummary extends ReplayPlayerTotals {
+  won: boolean;
+  points: number;
+}
+
+export interface AccountService {
+  register(username: string, passphrase: string, displayName?: string): AccountResponse;
+  signIn(username: string, passphrase: string): AccountResponse;
+  getProfile(token: string): AccountResponse;
+  updateProfile(
+    token: string,
+    update: { displayName?: unknown; avatarSeed?: unknown },
+  ): AccountResponse;
+  verifyToken(token: string | undefined): AccountProfile | null;
+  findProfile(accountId: string): AccountProfile | null;
+  listProfiles(): AccountProfile[];
+  recordMatch(accountId: string, summary: AccountMatchSummary): void;
+  flush(): void;
+}
+
+// Match results only need somewhere to land, which may be another node's account service.
+export type MatchStatsRecorder = Pick<AccountService, "recordMatch">;
+
+interface AccountSnapshotFile {
+  version: number;
+  savedAt: number;
+  accounts: AccountRecord[];
+}
+
+interface TokenClaims {
+  sub: string;
+  exp: number;
+}
+
+function createEmptyStats(): AccountStats {
+  return {
+    gamesPlayed: 0,
+    wins: 0,
+    wordsPlayed: 0,
+    totalPoints: 0,
+    bestMatchPoints: 0,
+    longestWord: "",
+    totalResponseMs: 0,
+    livesLostByTier: createEmptyTierCounts(),
+  };
+}
+
+function toProfile(account: AccountRecord): AccountProfile {
+  return {
+    id: account.id,
+    username: account.username,
+    displayName: account.displayName,
+    avatarSeed: account.avatarSeed,
+    createdAt: account.createdAt,
+    stats: { ...account.stats, livesLostByTier: { ...account.stats.livesLostByTier } },
+  };
+}
+
+export function normalizeUsername(input: string): string {
+  return input.trim().toLowerCase();
+}
+
+function sanitizeAvatarSeed(input: string): string {
+  return input.trim().replace(/[^A-Za-z0-9_-]/g, "").slice(0, MAX_AVATAR_SEED_LENGTH);
+}
+
+function hashPassphrase(passphrase: string, salt: string): string {
+  return scryptSync(passphrase, salt, PASSPHRASE_KEY_LENGTH).toString("hex");
+}
+
+function passphraseMatches(account: AccountRecord, passphrase: string): boolean {
+  const expected = Buffer.from(account.passphraseHash, "hex");
+  const actual = Buffer.from(hashPassphrase(passphrase, account.passphraseSalt), "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function signToken(accountId: string, secret: string, now: number): string {
+  const claims: TokenClaims = { sub: accountId, exp: now + TOKEN_TTL_MS };
+  const body = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  const signature = createHmac("sha256", secret).update(body).digest("base64url");
+  return `${body}.${signature}`;
+}
+
+function readTokenClaims(token: string, secret: string, now: number): TokenClaims | null {
+  const [body, signature, ...rest] = token.split(".");
+  if (!body || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(createHmac("sha256", secret).update(body).digest("base64url"));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(body, "base64url").toString("utf8")) as TokenClaims;
+    return typeof claims.sub === "string" && typeof claims.exp === "number" && claims.exp > now
+      ? claims
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function readSnapshotFile(filePath: string): AccountRecord[] {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  try {
+    const snapshot = JSON.parse(fs.readFileSync(filePath, "utf8")) as AccountSnapshotFile;
+    if (snapshot.version !== SNAPSHOT_VERSION || !Array.isArray(snapshot.accounts)) {
+      console.warn(`[AccountStore] Ignoring snapshot with unsupported version at ${filePath}.`);
+      return [];
+    }
+
+    return snapshot.accounts.map((account) => ({
+      ...account,
+      stats: {
+        ...createEmptyStats(),
+        ...account.stats,
+        livesLostByTier: { ...createEmptyTierCounts(), ...account.stats?.livesLostByTier },
+      },
+    }));
+  } catch (error) {
+    console.warn(`[AccountStore] Could not read account snapshot at ${filePath}.`, error);
+    return [];
+  }
+}
+
+function writeSnapshotFile(filePath: string, accounts: Iterable<AccountRecord>): void {
+  const snapshot: AccountSnapshotFile = {
+    version: SNAPSHOT_VERSION,
+    savedAt: Date.now(),
+    accounts: [...accounts],
+  };
+  const tempPath = `${filePath}.tmp`;
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(tempPath, JSON.stringify(snapshot));
+  fs.renameSync(tempPath, filePath);
+}
+
+function createMapAccountStore(
+  accounts: Map<string, AccountRecord>,
+  onChange: () => void,
+  flush: () => void,
+): AccountStore {
+  return {
+    get: (accountId: string) => accounts.get(accountId),
+    findByUsername: (username: string) => {
+      const normalized = normalizeUsername(username);
+      return [...accounts.values()].find((account) => account.username === normalized);
+    },
+    set: (account: AccountRecord) => {
+      accounts.set(account.id, account);
+      onChange();
+    },
+    values: () => [...accounts.values()],
+    flush,
+  };
+}
+
+export function createMemoryAccountStore(): AccountStore {
+  return createMapAccountStore(
+    new Map<string, AccountRecord>(),
+    () => undefined,
+    () => undefined,
+  );
+}
+
+export function createFileAccountStore(filePath: string): AccountStore {
+  const accounts = new Map<string, AccountRecord>();
+  let flushTimeout: NodeJS.Timeout | null = null;
+
+  for (const account of readSnapshotFile(filePath)) {
+    accounts.set(account.id, account);
+  }
+
+  console.log(`[AccountStore] Restored ${accounts.size} account(s) from ${filePath}.`);
+
+  const flush = (): void => {
+    if (flushTimeout !== null) {
+      clearTimeout(flushTimeout);
+      flushTimeout = null;
+    }
+
+    try {
+      writeSnapshotFile(filePath, accounts.values());
+    } catch (error) {
+      console.warn(`[AccountStore] Could not write account snapshot to ${filePath}.`, error);
+    }
+  };
+
+  const scheduleFlush = (): void => {
+    if (flushTimeout === null) {
+      flushTimeout = setTimeout(flush, FILE_FLUSH_DELAY_MS);
+    }
+  };
+
+  return createMapAccountStore(accounts, scheduleFlush, flush);
+}
+
+export function createAccountStore(accountStoreFileEnv: string | undefined): AccountStore {
+  const filePath = accountStoreFileEnv?.trim();
+  if (!filePath) {
+    return createMemoryAccountStore();
+  }
+
+  return createFileAccountStore(path.resolve(filePath));
+}
+
+/**
+ * Tokens are stateless HMAC-signed claims, so any node sharing the secret can verify them.
+ * Without a configured secret, tokens only survive until the process restarts.
+ */
+export function createAccountService(
+  store: AccountStore,
+  tokenSecretEnv: string | undefined,
+): AccountService {
+  const secret = tokenSecretEnv?.trim() || randomBytes(32).toString("hex");
+
+  const issue = (account: AccountRecord): AccountResponse => ({
+    ok: true,
+    token: signToken(account.id, secret, Date.now()),
+    profile: toProfile(account),
+  });
+
+  const resolveAccount = (token: string | undefined): AccountRecord | undefined => {
+    if (typeof token !== "string" || !token) {
+      return undefined;
+    }
+
+    const claims = readTokenClaims(token, secret, Date.now());
+    return claims ? store.get(claims.sub) : undefined;
+  };
+
+  return {
+    register: (usernameInput, passphrase, displayNameInput) => {
+      const username = normalizeUsername(String(usernameInput ?? ""));
+      if (!USERNAME_PATTERN.test(username)) {
+        return {
+          ok: false,
+          error: "Usernames are 3-20 letters, numbers, dashes, or underscores.",
+        };
+      }
+
+      if (
+        typeof passphrase !== "string" ||
+        passphrase.length < MIN_PASSPHRASE_LENGTH ||
+        passphrase.length > MAX_PASSPHRASE_LENGTH
+      ) {
+        return {
+          ok: false,
+          error: `Passphrases need at least ${MIN_PASSPHRASE_LENGTH} characters.`,
+        };
+      }
+
+      if (store.findByUsername(username)) {
+        return { ok: false, error: "That username is taken." };
+      }
+
+      const salt = randomBytes(16).toString("hex");
+      const account: AccountRecord = {
+        id: `a_${randomUUID()}`,
+        username,
+        displayName: sanitizePlayerName(String(displayNameInput ?? "")) || username,
+        avatarSeed: username,
+        createdAt: Date.now(),
+        stats: createEmptyStats(),
+        passphraseHash: hashPassphrase(passphrase, salt),
+        passphraseSalt: salt,
+      };
+
+      store.set(account);
+      return issue(account);
+    },
+    signIn: (usernameInput, passphrase) => {
+      const account = store.findByUsername(String(usernameInput ?? ""));
+      if (!account || typeof passphrase !== "string" || !passphraseMatches(account, passphrase)) {
+        return { ok: false, error: "Username or passphrase is incorrect." };
+      }
+
+      return issue(account);
+    },
+    getProfile: (token) => {
+      const account = resolveAccount(token);
+      if (!account) {
+        return { ok: false, error: SIGN_IN_EXPIRED_ERROR };
+      }
+
+      return { ok: true, profile: toProfile(account) };
+    },
+    updateProfile: (token, update) => {
+      const account = resolveAccount(token);
+      if (!account) {
+        return { ok: false, error: SIGN_IN_EXPIRED_ERROR };
+      }
+
+      if (typeof update.displayName === "string") {
+        const displayName = sanitizePlayerName(update.displayName);
+        if (!displayName) {
+          return { ok: false, error: "Enter a valid display name." };
+        }
+        account.displayName = displayName;
+      }
+
+      if (typeof update.avatarSeed === "string") {
+        account.avatarSeed = sanitizeAvatarSeed(update.avatarSeed) || account.username;
+      }
+
+      store.set(account);
+      return { ok: true, profile: toProfile(account) };
+    },
+    verifyToken: (token) => {
+      const account = resolveAccount(token);
+      return account ? toProfile(account) : null;
+    },
+    findProfile: (accountId) => {
+      const account = store.get(accountId);
+      return account ? toProfile(account) : null;
+    },
+    listProfiles: () => store.values().map(toProfile),
+    recordMatch: (accountId, summary) => {
+      const account = store.get(accountId);
+      if (!account) {
+        return;
+      }
+
+      const stats = account.stats;
+      stats.gamesPlayed += 1;
+      stats.wins += summary.won ? 1 : 0;
+      stats.wordsPlayed += summary.wordsPlayed;
+      stats.totalResponseMs += summary.totalResponseMs;
+      stats.totalPoints += summary.points;
+      stats.bestMatchPoints = Math.max(stats.bestMatchPoints, summary.points);
+      if (summary.longestWord.length > stats.longestWord.length) {
+        stats.longestWord = summary.longestWord;
+      }
+      for (const [tier, livesLost] of Object.entries(summary.livesLostByTier)) {
+        stats.livesLostByTier[tier as ChunkTier] += livesLost;
+      }
+
+      store.set(account);
+    },
+    flush: () => store.flush(),
+  };
+}
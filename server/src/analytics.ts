@@ -0,0 +1,103 @@
+import {
+  AnsweredWord,
+  LivesTimelinePoint,
+  MatchAnalytics,
+  PlayerMatchBreakdown,
+  PlayerState,
+  TurnRecord,
+} from "./types";
+
+export function snapshotRotationLives(players: PlayerState[]): Record<string, number> {
+  return Object.fromEntries(
+    players.filter((player) => player.role === "player").map((player) => [player.id, player.lives]),
+  );
+}
+
+function toAnsweredWord(record: TurnRecord): AnsweredWord | null {
+  if (record.outcome !== "word" || !record.word || record.responseMs === null) {
+    return null;
+  }
+
+  return {
+    playerId: record.playerId,
+    turnNumber: record.turnNumber,
+    word: record.word,
+    chunk: record.chunk,
+    tier: record.tier,
+    responseMs: record.responseMs,
+    points: record.points,
+  };
+}
+
+/**
+ * Folds the per-turn history into the results breakdown. The lives timeline has one point
+ * before each turn plus a final point, so a match of N turns charts N + 1 points.
+ */
+export function buildMatchAnalytics(
+  history: TurnRecord[],
+  players: PlayerState[],
+): MatchAnalytics {
+  const answers = history.flatMap((record) => {
+    const answer = toAnsweredWord(record);
+    return answer ? [answer] : [];
+  });
+  const breakdowns = new Map<string, PlayerMatchBreakdown>();
+
+  for (const playerId of Object.keys(history[0]?.livesAtStart ?? {})) {
+    breakdowns.set(playerId, { playerId, words: [], eliminatedBy: null });
+  }
+
+  for (const answer of answers) {
+    breakdowns.get(answer.playerId)?.words.push(answer);
+  }
+
+  for (const record of history) {
+    for (const playerId of record.eliminatedPlayerIds) {
+      const breakdown = breakdowns.get(playerId);
+      if (breakdown && !breakdown.eliminatedBy) {
+        breakdown.eliminatedBy = {
+          turnNumber: record.turnNumber,
+          chunk: record.chunk,
+          tier: record.tier,
+        };
+      }
+    }
+  }
+
+  const livesTimeline: LivesTimelinePoint[] = history.map((record) => ({
+    turnNumber: record.turnNumber - 1,
+    lives: record.livesAtStart,
+  }));
+  const lastRecord = history[history.length - 1];
+  if (lastRecord) {
+    livesTimeline.push({
+      turnNumber: lastRecord.turnNumber,
+      lives: snapshotRotationLives(players),
+    });
+  }
+
+  return {
+    players: [...breakdowns.values()],
+    fastestAnswer: answers.reduce<AnsweredWord | null>(
+      (fastest, answer) => (!fastest || answer.responseMs < fastest.responseMs ? answer : fastest),
+      null,
+    ),
+    longestWord: answers.reduce<AnsweredWord | null>(
+      (longest, answer) => (!longest || answer.word.length > longest.word.length ? answer : longest),
+      null,
+    ),
+    livesTimeline,
+    missedChunks: history.flatMap((record) =>
+      record.outcome === "explosion"
+        ? [
+            {
+              playerId: record.playerId,
+              turnNumber: record.turnNumber,
+              chunk: record.chunk,
+              examples: record.missedExamples,
+            },
+          ]
+        : [],
+    ),
+  };
+}
@@ -0,0 +1,86 @@
+import { BonusLetterRules } from "./types";
+import { clampInt } from "./utils";
+
+const BONUS_ALPHABET = "abcdefghijklmnopqrstuvwxyz";
+
+export const MAX_EXCLUDED_BONUS_LETTERS = 10;
+export const MIN_BONUS_LIFE_CAP = 1;
+export const MAX_BONUS_LIFE_CAP = 10;
+
+export const DEFAULT_BONUS_LETTER_RULES: BonusLetterRules = {
+  enabled: false,
+  excludedLetters: ["x", "z"],
+  maxLives: 5,
+};
+
+export interface BonusLetterProgress {
+  letters: string[];
+  completed: boolean;
+}
+
+function parseExcludedLetters(input: unknown): string[] | null {
+  if (!Array.isArray(input)) {
+    return null;
+  }
+
+  const letters = new Set<string>();
+  for (const entry of input) {
+    if (typeof entry !== "string") {
+      return null;
+    }
+
+    const letter = entry.trim().toLowerCase();
+    if (letter.length !== 1 || !BONUS_ALPHABET.includes(letter)) {
+      return null;
+    }
+
+    letters.add(letter);
+  }
+
+  return letters.size <= MAX_EXCLUDED_BONUS_LETTERS ? [...letters].sort() : null;
+}
+
+/**
+ * Applies a partial settings update on top of the current bonus letter rules, ignoring
+ * malformed fields the same way scoring rule updates do.
+ */
+export function mergeBonusLetterRules(current: BonusLetterRules, update: unknown): BonusLetterRules {
+  if (typeof update !== "object" || update === null) {
+    return current;
+  }
+
+  const input = update as Partial<Record<keyof BonusLetterRules, unknown>>;
+
+  return {
+    enabled: typeof input.enabled === "boolean" ? input.enabled : current.enabled,
+    excludedLetters: parseExcludedLetters(input.excludedLetters) ?? [...current.excludedLetters],
+    maxLives:
+      typeof input.maxLives === "number"
+        ? clampInt(input.maxLives, MIN_BONUS_LIFE_CAP, MAX_BONUS_LIFE_CAP)
+        : current.maxLives,
+  };
+}
+
+export function listBonusLetters(rules: BonusLetterRules): string[] {
+  return [...BONUS_ALPHABET].filter((letter) => !rules.excludedLetters.includes(letter));
+}
+
+/**
+ * Adds a word's letters to a player's collection. Accents are folded onto their base letter,
+ * so the same alphabet works in every room language. A completed alphabet starts over empty.
+ */
+export function collectBonusLetters(
+  rules: BonusLetterRules,
+  collected: string[],
+  word: string,
+): BonusLetterProgress {
+  const alphabet = listBonusLetters(rules);
+  const folded = word.normalize("NFKD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+  const letters = alphabet.filter((letter) => collected.includes(letter) || folded.includes(letter));
+
+  if (letters.length === alphabet.length) {
+    return { letters: [], completed: true };
+  }
+
+  return { letters, completed: false };
+}
@@ -0,0 +1,157 @@
+import { Dictionary } from "./dictionary";
+import { matchesTurnModifiers } from "./modifiers";
+import { BotDifficulty, TurnModifiers } from "./types";
+import { createSeededRandomState, toUpperWord } from "./utils";
+
+const BOT_NAMES = [
+  "Ada",
+  "Byte",
+  "Cipher",
+  "Dot",
+  "Echo",
+  "Glitch",
+  "Pixel",
+  "Quill",
+  "Rune",
+  "Sprocket",
+  "Vex",
+  "Widget",
+];
+const BOT_CANDIDATE_LIMIT = 40;
+
+export interface BotPreset {
+  label: string;
+  reactionMs: [number, number];
+  keystrokeMs: number;
+  vocabularySize: number;
+  missChance: number;
+}
+
+export interface BotTurnPlan {
+  reactionMs: number;
+  keystrokeMs: number;
+  word: string | null;
+  fallbackWords: string[];
+}
+
+export const BOT_DIFFICULTIES: BotDifficulty[] = ["easy", "medium", "hard"];
+
+export const BOT_PRESETS: Record<BotDifficulty, BotPreset> = {
+  easy: {
+    label: "Easy",
+    reactionMs: [2200, 4200],
+    keystrokeMs: 260,
+    vocabularySize: 8_000,
+    missChance: 0.25,
+  },
+  medium: {
+    label: "Medium",
+    reactionMs: [1200, 2600],
+    keystrokeMs: 170,
+    vocabularySize: 30_000,
+    missChance: 0.1,
+  },
+  hard: {
+    label: "Hard",
+    reactionMs: [500, 1300],
+    keystrokeMs: 130,
+    vocabularySize: Number.POSITIVE_INFINITY,
+    missChance: 0.03,
+  },
+};
+
+export function isBotDifficulty(input: unknown): input is BotDifficulty {
+  return typeof input === "string" && (BOT_DIFFICULTIES as string[]).includes(input);
+}
+
+export function createBotName(takenNames: ReadonlySet<string>): string | null {
+  for (const name of BOT_NAMES) {
+    const candidate = `Bot ${name}`;
+    if (!takenNames.has(candidate.toLowerCase())) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+export function createBotSocketId(botId: string): string {
+  return `bot:${botId}`;
+}
+
+/**
+ * A bot "knows" a stable, pseudo-random slice of the dictionary sized by its preset, so an
+ * easy bot keeps missing the same obscure words instead of re-rolling its vocabulary each turn.
+ */
+function isInBotVocabulary(
+  botId: string,
+  word: string,
+  vocabularySize: number,
+  dictionarySize: number,
+): boolean {
+  if (vocabularySize >= dictionarySize) {
+    return true;
+  }
+
+  const roll = createSeededRandomState(`${botId}:${word}`) / 0x100000000;
+  return roll < vocabularySize / Math.max(1, dictionarySize);
+}
+
+export function findBotCandidates(
+  dictionary: Dictionary,
+  botId: string,
+  difficulty: BotDifficulty,
+  chunk: string,
+  usedWords: ReadonlySet<string>,
+  modifiers: TurnModifiers,
+  random: () => number = Math.random,
+): string[] {
+  const preset = BOT_PRESETS[difficulty];
+
+  return dictionary.sampleWordsContaining(chunk, BOT_CANDIDATE_LIMIT, {
+    excluding: usedWords,
+    accept: (word) =>
+      matchesTurnModifiers(modifiers, word, chunk) &&
+      isInBotVocabulary(botId, toUpperWord(word), preset.vocabularySize, dictionary.size),
+    random,
+  });
+}
+
+export function planBotTurn(
+  dictionary: Dictionary,
+  botId: string,
+  difficulty: BotDifficulty,
+  chunk: string,
+  usedWords: ReadonlySet<string>,
+  modifiers: TurnModifiers,
+  random: () => number = Math.random,
+): BotTurnPlan {
+  const preset = BOT_PRESETS[difficulty];
+  const [minReaction, maxReaction] = preset.reactionMs;
+  const reactionMs = Math.round(minReaction + random() * (maxReaction - minReaction));
+
+  if (random() < preset.missChance) {
+    return { reactionMs, keystrokeMs: preset.keystrokeMs, word: null, fallbackWords: [] };
+  }
+
+  const candidates = findBotCandidates(
+    dictionary,
+    botId,
+    difficulty,
+    chunk,
+    usedWords,
+    modifiers,
+    random,
+  );
+  if (candidates.length === 0) {
+    return { reactionMs, keystrokeMs: preset.keystrokeMs, word: null, fallbackWords: [] };
+  }
+
+  const pickedIndex = Math.floor(random() * candidates.length);
+  return {
+    reactionMs,
+    keystrokeMs: preset.keystrokeMs,
+    word: candidates[pickedIndex],
+    fallbackWords: candidates.filter((_, index) => index !== pickedIndex).slice(0, 2),
+  };
+}
@@ -0,0 +1,102 @@
+import fs from "node:fs";
+import path from "node:path";
+import { AcceptedChallenge, PublicWordChallenge, WordChallenge } from "./types";
+
+const MAX_MEMORY_ENTRIES = 500;
+
+export interface ChallengeLog {
+  record(entry: AcceptedChallenge): void;
+  list(): AcceptedChallenge[];
+}
+
+export function tallyChallengeVotes(challenge: WordChallenge): {
+  acceptVotes: number;
+  rejectVotes: number;
+} {
+  const votes = Object.values(challenge.votes);
+  const acceptVotes = votes.filter(Boolean).length;
+  return { acceptVotes, rejectVotes: votes.length - acceptVotes };
+}
+
+/**
+ * A challenge needs more accept votes than reject votes. Ties and silence keep the original
+ * rejection, so an absent room cannot wave a word through.
+ */
+export function isChallengeAccepted(challenge: WordChallenge): boolean {
+  const { acceptVotes, rejectVotes } = tallyChallengeVotes(challenge);
+  return acceptVotes > rejectVotes;
+}
+
+export function isChallengeSettled(challenge: WordChallenge): boolean {
+  return challenge.voterIds.every((voterId) => voterId in challenge.votes);
+}
+
+export function toPublicWordChallenge(
+  challenge: WordChallenge,
+  now: number,
+): PublicWordChallenge {
+  return {
+    playerId: challenge.playerId,
+    word: challenge.word,
+    remainingMs: Math.max(0, challenge.endsAt - now),
+    voterIds: [...challenge.voterIds],
+    votedPlayerIds: Object.keys(challenge.votes),
+    ...tallyChallengeVotes(challenge),
+  };
+}
+
+export function createMemoryChallengeLog(): ChallengeLog {
+  const entries: AcceptedChallenge[] = [];
+
+  return {
+    record: (entry: AcceptedChallenge) => {
+      entries.push(entry);
+      if (entries.length > MAX_MEMORY_ENTRIES) {
+        entries.shift();
+      }
+    },
+    list: () => [...entries],
+  };
+}
+
+/**
+ * Appends one JSON line per accepted word so the admin can review them and promote the
+ * good ones into `extra_words.txt`.
+ */
+export function createFileChallengeLog(filePath: string): ChallengeLog {
+  return {
+    record: (entry: AcceptedChallenge) => {
+      try {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.appendFileSync(filePath, `${JSON.stringify(entry)}\n`);
+      } catch (error) {
+        console.warn(`[Challenges] Could not append to ${filePath}.`, error);
+      }
+    },
+    list: () => {
+      if (!fs.existsSync(filePath)) {
+        return [];
+      }
+
+      return fs
+        .readFileSync(filePath, "utf8")
+        .split(/\r?\n/)
+        .flatMap((line) => {
+          try {
+            return line.trim() ? [JSON.parse(line) as AcceptedChallenge] : [];
+          } catch {
+            return [];
+          }
+        });
+    },
+  };
+}
+
+export function createChallengeLog(challengeLogFileEnv: string | undefined): ChallengeLog {
+  const filePath = challengeLogFileEnv?.trim();
+  if (!filePath) {
+    return createMemoryChallengeLog();
+  }
+
+  return createFileChallengeLog(path.resolve(filePath));
+}
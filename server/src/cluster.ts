@@ -0,0 +1,490 @@
+import cluster from "node:cluster";
+import { randomUUID } from "node:crypto";
+import { EventEmitter } from "node:events";
+import type { Namespace } from "socket.io";
+import { ClusterAdapter, ClusterMessage, ClusterResponse, ServerId } from "socket.io-adapter";
+import { AccountMatchSummary, AccountService } from "./accounts";
+import { AccountProfile, AccountResponse, AckResponse } from "./types";
+import { createSeededRandomState, sanitizeRoomCode } from "./utils";
+
+const ADAPTER_CHANNEL = "word-fuse:adapter";
+const ADAPTER_RESPONSE_CHANNEL = "word-fuse:adapter-response";
+const RPC_CHANNEL = "word-fuse:rpc";
+const RPC_REPLY_CHANNEL = "word-fuse:rpc-reply";
+const RPC_TIMEOUT_MS = 5000;
+const BUS_ENVELOPE_TYPE = "word-fuse:bus";
+const NO_ACCOUNT_SERVER: AccountResponse = { ok: false, error: "Account server did not respond." };
+
+export type MessageBusHandler = (message: unknown) => void;
+
+export interface MessageBus {
+  publish(channel: string, message: unknown): void;
+  subscribe(channel: string, handler: MessageBusHandler): () => void;
+}
+
+export type RoomActionName =
+  | "room:join"
+  | "room:reconnect"
+  | "room:updateSettings"
+  | "room:addBot"
+  | "room:removeBot"
+  | "room:assignTeam"
+  | "room:kick"
+  | "room:ban"
+  | "room:transferHost"
+  | "room:setWordList"
+  | "game:start"
+  | "turn:submitWord"
+  | "turn:challengeWord"
+  | "turn:voteChallenge"
+  | "turn:usePowerUp"
+  | "game:playAgain"
+  | "game:replay"
+  | "player:typing"
+  | "disconnect";
+
+const ACCOUNT_METHODS = [
+  "register",
+  "signIn",
+  "getProfile",
+  "updateProfile",
+  "verifyToken",
+  "findProfile",
+  "listProfiles",
+  "recordMatch",
+] as const;
+
+type AccountMethod = (typeof ACCOUNT_METHODS)[number];
+
+export type RoomActionHandler = (socketId: string, payload: unknown) => AckResponse;
+
+interface BusEnvelope {
+  type: typeof BUS_ENVELOPE_TYPE;
+  channel: string;
+  message: unknown;
+}
+
+type RpcHandler = (payload: unknown) => unknown;
+
+interface RpcRequest {
+  requestId: string;
+  replyTo: string;
+  method: string;
+  payload: unknown;
+}
+
+interface RpcReply {
+  requestId: string;
+  result: unknown;
+}
+
+interface PendingRpc {
+  resolve: (result: unknown) => void;
+  timeout: NodeJS.Timeout;
+}
+
+interface RoomActionCall {
+  socketId: string;
+  payload: unknown;
+}
+
+function isBusEnvelope(input: unknown): input is BusEnvelope {
+  return (
+    typeof input === "object" &&
+    input !== null &&
+    (input as BusEnvelope).type === BUS_ENVELOPE_TYPE &&
+    typeof (input as BusEnvelope).channel === "string"
+  );
+}
+
+function createEmitterBus(
+  deliver: (channel: string, message: unknown) => void,
+  emitter: EventEmitter,
+): MessageBus {
+  return {
+    publish: deliver,
+    subscribe: (channel: string, handler: MessageBusHandler) => {
+      emitter.on(channel, handler);
+      return () => {
+        emitter.off(channel, handler);
+      };
+    },
+  };
+}
+
+/**
+ * Shared bus for several cluster nodes living in one process, mainly for local testing.
+ * Delivery is deferred to a microtask so callers see the same ordering as a network bus.
+ */
+export function createInProcessMessageBus(): MessageBus {
+  const emitter = new EventEmitter();
+  emitter.setMaxListeners(0);
+
+  return createEmitterBus((channel, message) => {
+    queueMicrotask(() => {
+      emitter.emit(channel, message);
+    });
+  }, emitter);
+}
+
+/**
+ * Bus for `node:cluster` workers. Messages travel over the worker IPC channel and the
+ * primary relays them with {@link relayClusterMessageBus}.
+ */
+export function createProcessMessageBus(): MessageBus {
+  const emitter = new EventEmitter();
+  emitter.setMaxListeners(0);
+
+  process.on("message", (envelope: unknown) => {
+    if (isBusEnvelope(envelope)) {
+      emitter.emit(envelope.channel, envelope.message);
+    }
+  });
+
+  return createEmitterBus((channel, message) => {
+    const envelope: BusEnvelope = { type: BUS_ENVELOPE_TYPE, channel, message };
+    process.send?.(envelope);
+  }, emitter);
+}
+
+export function relayClusterMessageBus(): void {
+  cluster.on("message", (sender, envelope: unknown) => {
+    if (!isBusEnvelope(envelope)) {
+      return;
+    }
+
+    for (const worker of Object.values(cluster.workers ?? {})) {
+      if (worker && worker.id !== sender.id && worker.isConnected()) {
+        worker.send(envelope);
+      }
+    }
+  });
+}
+
+class MessageBusAdapter extends ClusterAdapter {
+  constructor(
+    nsp: Namespace,
+    private readonly bus: MessageBus,
+  ) {
+    super(nsp);
+
+    bus.subscribe(`${ADAPTER_CHANNEL}#${nsp.name}`, (message) => {
+      this.onMessage(message as ClusterMessage);
+    });
+    bus.subscribe(`${ADAPTER_RESPONSE_CHANNEL}#${this.uid}`, (response) => {
+      this.onResponse(response as ClusterResponse);
+    });
+  }
+
+  protected async doPublish(message: ClusterMessage): Promise<string> {
+    this.bus.publish(`${ADAPTER_CHANNEL}#${message.nsp}`, message);
+    return "";
+  }
+
+  protected async doPublishResponse(requesterUid: ServerId, response: ClusterResponse): Promise<void> {
+    this.bus.publish(`${ADAPTER_RESPONSE_CHANNEL}#${requesterUid}`, response);
+  }
+}
+
+/**
+ * Socket.IO adapter factory that mirrors broadcasts and room joins to every node on the bus,
+ * so `io.to(roomCode)` and `io.in(socketId).socketsJoin(...)` reach sockets held elsewhere.
+ */
+export function createMessageBusAdapter(bus: MessageBus): (nsp: Namespace) => MessageBusAdapter {
+  // Socket.IO calls the adapter factory with `new`, so this cannot be an arrow function.
+  return function (nsp: Namespace) {
+    return new MessageBusAdapter(nsp, bus);
+  };
+}
+
+export function getRoomOwnerNodeId(roomCode: string, nodeIds: readonly string[]): string {
+  let ownerId = nodeIds[0] ?? "";
+  let ownerScore = -1;
+
+  for (const nodeId of nodeIds) {
+    const score = createSeededRandomState(`${nodeId}:${roomCode}`);
+    if (score > ownerScore) {
+      ownerId = nodeId;
+      ownerScore = score;
+    }
+  }
+
+  return ownerId;
+}
+
+/**
+ * Request and reply over the bus for one service. Each node answers calls addressed to it
+ * and settles its own calls when the reply arrives, or with the fallback after a timeout.
+ */
+class BusRpc {
+  private readonly pendingCalls = new Map<string, PendingRpc>();
+
+  constructor(
+    private readonly bus: MessageBus,
+    private readonly nodeId: string,
+    private readonly service: string,
+    private readonly handlers: Record<string, RpcHandler>,
+  ) {
+    bus.subscribe(`${RPC_CHANNEL}:${service}#${nodeId}`, (message) => {
+      this.handleRequest(message as RpcRequest);
+    });
+    bus.subscribe(`${RPC_REPLY_CHANNEL}:${service}#${nodeId}`, (message) => {
+      this.handleReply(message as RpcReply);
+    });
+  }
+
+  public call<Result>(
+    targetNodeId: string,
+    method: string,
+    payload: unknown,
+    fallback: Result,
+    timeoutMs = RPC_TIMEOUT_MS,
+  ): Promise<Result> {
+    return new Promise((resolve) => {
+      const requestId = randomUUID();
+      const timeout = setTimeout(() => {
+        this.pendingCalls.delete(requestId);
+        resolve(fallback);
+      }, timeoutMs);
+
+      this.pendingCalls.set(requestId, {
+        resolve: (result) => resolve(result as Result),
+        timeout,
+      });
+
+      const request: RpcRequest = { requestId, replyTo: this.nodeId, method, payload };
+      this.bus.publish(`${RPC_CHANNEL}:${this.service}#${targetNodeId}`, request);
+    });
+  }
+
+  private handleRequest(request: RpcRequest): void {
+    const handler = this.handlers[request.method];
+    if (!handler) {
+      return;
+    }
+
+    const reply: RpcReply = { requestId: request.requestId, result: handler(request.payload) };
+    this.bus.publish(`${RPC_REPLY_CHANNEL}:${this.service}#${request.replyTo}`, reply);
+  }
+
+  private handleReply(reply: RpcReply): void {
+    const pending = this.pendingCalls.get(reply.requestId);
+    if (!pending) {
+      return;
+    }
+
+    clearTimeout(pending.timeout);
+    this.pendingCalls.delete(reply.requestId);
+    pending.resolve(reply.result);
+  }
+}
+
+export class ClusterRouter {
+  private readonly rpc: BusRpc | null;
+  private readonly socketOwners = new Map<string, string>();
+
+  constructor(
+    bus: MessageBus | null,
+    public readonly nodeId: string,
+    private readonly nodeIds: readonly string[],
+    private readonly handlers: Record<RoomActionName, RoomActionHandler>,
+  ) {
+    const remoteHandlers: Record<string, RpcHandler> = {};
+    for (const [action, handler] of Object.entries(handlers)) {
+      remoteHandlers[action] = (message) => {
+        const call = message as RoomActionCall;
+        return handler(call.socketId, call.payload);
+      };
+    }
+
+    this.rpc = bus ? new BusRpc(bus, nodeId, "rooms", remoteHandlers) : null;
+  }
+
+  public ownsRoom(roomCode: string): boolean {
+    return this.getOwnerNodeId(roomCode) === this.nodeId;
+  }
+
+  public dispatch(action: RoomActionName, socketId: string, payload: unknown): Promise<AckResponse> {
+    const roomCode = sanitizeRoomCode(
+      String((payload as { roomCode?: unknown } | null)?.roomCode ?? ""),
+    );
+    const ownerId = roomCode ? this.getOwnerNodeId(roomCode) : this.nodeId;
+
+    if (roomCode) {
+      this.socketOwners.set(socketId, ownerId);
+    }
+
+    if (ownerId === this.nodeId) {
+      return Promise.resolve(this.handlers[action](socketId, payload));
+    }
+
+    return this.forward(ownerId, action, socketId, payload);
+  }
+
+  public disconnect(socketId: string): void {
+    const ownerId = this.socketOwners.get(socketId);
+    this.socketOwners.delete(socketId);
+
+    this.handlers.disconnect(socketId, null);
+    if (ownerId && ownerId !== this.nodeId) {
+      void this.forward(ownerId, "disconnect", socketId, null);
+    }
+  }
+
+  private getOwnerNodeId(roomCode: string): string {
+    if (!this.rpc || this.nodeIds.length <= 1) {
+      return this.nodeId;
+    }
+
+    return getRoomOwnerNodeId(roomCode, this.nodeIds);
+  }
+
+  private forward(
+    ownerId: string,
+    action: RoomActionName,
+    socketId: string,
+    payload: unknown,
+  ): Promise<AckResponse> {
+    if (!this.rpc) {
+      return Promise.resolve(this.handlers[action](socketId, payload));
+    }
+
+    const call: RoomActionCall = { socketId, payload };
+    return this.rpc.call<AckResponse>(ownerId, action, call, {
+      ok: false,
+      error: "Room server did not respond.",
+    });
+  }
+}
+
+/**
+ * Accounts live on a single node so usernames stay unique and every node sees the same
+ * profiles and stats. Other nodes send each account operation to it over the bus.
+ */
+export function getAccountOwnerNodeId(nodeIds: readonly string[]): string {
+  return nodeIds[0] ?? "";
+}
+
+export class AccountRouter {
+  private readonly rpc: BusRpc | null;
+  private readonly ownerId: string;
+
+  constructor(
+    bus: MessageBus | null,
+    private readonly nodeId: string,
+    nodeIds: readonly string[],
+    private readonly accounts: AccountService,
+  ) {
+    const remoteHandlers: Record<string, RpcHandler> = {};
+    for (const method of ACCOUNT_METHODS) {
+      remoteHandlers[method] = (args) =>
+        this.callLocal(method, args as Parameters<AccountService[typeof method]>);
+    }
+
+    this.ownerId = bus ? getAccountOwnerNodeId(nodeIds) : nodeId;
+    this.rpc = bus ? new BusRpc(bus, nodeId, "accounts", remoteHandlers) : null;
+  }
+
+  public get ownsAccounts(): boolean {
+    return this.ownerId === this.nodeId;
+  }
+
+  public register(
+    username: string,
+    passphrase: string,
+    displayName?: string,
+  ): Promise<AccountResponse> {
+    return this.call("register", [username, passphrase, displayName], NO_ACCOUNT_SERVER);
+  }
+
+  public signIn(username: string, passphrase: string): Promise<AccountResponse> {
+    return this.call("signIn", [username, passphrase], NO_ACCOUNT_SERVER);
+  }
+
+  public getProfile(token: string): Promise<AccountResponse> {
+    return this.call("getProfile", [token], NO_ACCOUNT_SERVER);
+  }
+
+  public updateProfile(
+    token: string,
+    update: { displayName?: unknown; avatarSeed?: unknown },
+  ): Promise<AccountResponse> {
+    return this.call("updateProfile", [token, update], NO_ACCOUNT_SERVER);
+  }
+
+  public verifyToken(token: string | undefined): Promise<AccountProfile | null> {
+    return this.call("verifyToken", [token], null);
+  }
+
+  public findProfile(accountId: string): Promise<AccountProfile | null> {
+    return this.call("findProfile", [accountId], null);
+  }
+
+  public listProfiles(): Promise<AccountProfile[]> {
+    return this.call("listProfiles", [], []);
+  }
+
+  // Rooms finish on whichever node owns them, so their results are sent to the account node.
+  public recordMatch(accountId: string, summary: AccountMatchSummary): void {
+    void this.call("recordMatch", [accountId, summary], undefined);
+  }
+
+  private call<Method extends AccountMethod>(
+    method: Method,
+    args: Parameters<AccountService[Method]>,
+    fallback: ReturnType<AccountService[Method]>,
+  ): Promise<ReturnType<AccountService[Method]>> {
+    if (!this.rpc || this.ownsAccounts) {
+      return Promise.resolve(this.callLocal(method, args));
+    }
+
+    return this.rpc.call(this.ownerId, method, args, fallback);
+  }
+
+  private callLocal<Method extends AccountMethod>(
+    method: Method,
+    args: Parameters<AccountService[Method]>,
+  ): ReturnType<AccountService[Method]> {
+    const handler = this.accounts[method] as (
+      ...input: Parameters<AccountService[Method]>
+    ) => ReturnType<AccountService[Method]>;
+    return handler(...args);
+  }
+}
+
+/**
+ * Runs one task on every node and collects their answers, for admin work such as a
+ * dictionary reload that would leave the cluster out of step if only one node did it.
+ */
+export class ClusterBroadcast<Payload, Result> {
+  private readonly rpc: BusRpc | null;
+
+  constructor(
+    bus: MessageBus | null,
+    private readonly nodeId: string,
+    private readonly nodeIds: readonly string[],
+    service: string,
+    private readonly task: (payload: Payload) => Result,
+    private readonly fallback: (nodeId: string) => Result,
+    private readonly timeoutMs = RPC_TIMEOUT_MS,
+  ) {
+    this.rpc = bus
+      ? new BusRpc(bus, nodeId, service, { run: (payload) => task(payload as Payload) })
+      : null;
+  }
+
+  public run(payload: Payload): Promise<Result[]> {
+    const rpc = this.rpc;
+    if (!rpc) {
+      return Promise.resolve([this.task(payload)]);
+    }
+
+    return Promise.all(
+      this.nodeIds.map((targetId) =>
+        targetId === this.nodeId
+          ? Promise.resolve(this.task(payload))
+          : rpc.call(targetId, "run", payload, this.fallback(targetId), this.timeoutMs),
+      ),
+    );
+  }
+}
@@ -0,0 +1,157 @@
+import { Socket, io as connect } from "socket.io-client";
+import { createInProcessMessageBus } from "./cluster";
+import { ServerNode, startServerNode } from "./server";
+import { AccountResponse, AckResponse, PlayerStatsResponse, PublicRoomState } from "./types";
+
+// Runs two cluster nodes in this process, joined by the in-process bus, and drives one room
+// through create, join and start with players connected to different nodes. Accounts live on
+// node-1, so the node-2 player registers and joins through the bus.
+
+const CHECK_TIMEOUT_MS = 20000;
+const NODE_IDS = ["node-1", "node-2"];
+
+function emitWithAck<Result = AckResponse>(
+  socket: Socket,
+  event: string,
+  payload: unknown,
+): Promise<Result> {
+  return new Promise((resolve) => {
+    socket.emit(event, payload, resolve);
+  });
+}
+
+function expectOk<Result extends { ok: boolean; error?: string }>(
+  step: string,
+  result: Result,
+): Result {
+  if (!result.ok) {
+    throw new Error(`${step} failed: ${result.error ?? "unknown error"}`);
+  }
+
+  console.log(`[ClusterCheck] ${step}: ok`);
+  return result;
+}
+
+function expectError(step: string, result: { ok: boolean }): void {
+  if (result.ok) {
+    throw new Error(`${step} should have failed.`);
+  }
+
+  console.log(`[ClusterCheck] ${step}: rejected as expected`);
+}
+
+function waitForState(
+  socket: Socket,
+  predicate: (state: PublicRoomState) => boolean,
+): Promise<PublicRoomState> {
+  return new Promise((resolve) => {
+    const listener = (state: PublicRoomState): void => {
+      if (predicate(state)) {
+        socket.off("game:state", listener);
+        resolve(state);
+      }
+    };
+    socket.on("game:state", listener);
+  });
+}
+
+function connectTo(port: number): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = connect(`http://localhost:${port}`, { transports: ["websocket"] });
+    socket.once("connect", () => resolve(socket));
+    socket.once("connect_error", reject);
+  });
+}
+
+async function runCheck(nodes: ServerNode[]): Promise<void> {
+  const [firstPort, secondPort] = await Promise.all(nodes.map((node) => node.listen()));
+  const ada = await connectTo(firstPort);
+  const bo = await connectTo(secondPort);
+
+  try {
+    const credentials = { username: "bo_check", passphrase: "cluster-check" };
+    const registered = expectOk(
+      "register on node-2",
+      await emitWithAck<AccountResponse>(bo, "account:register", credentials),
+    );
+    expectError(
+      "register the same username on node-1",
+      await emitWithAck<AccountResponse>(ada, "account:register", credentials),
+    );
+    expectOk(
+      "sign in on node-1",
+      await emitWithAck<AccountResponse>(ada, "account:signIn", credentials),
+    );
+    const statsResponse = await fetch(
+      `http://localhost:${secondPort}/api/players/${registered.profile?.id}/stats`,
+    );
+    expectOk("read player stats from node-2", (await statsResponse.json()) as PlayerStatsResponse);
+
+    const created = expectOk(
+      "create room on node-1",
+      await emitWithAck(ada, "room:create", { name: "Ada" }),
+    );
+    const roomCode = created.roomCode ?? "";
+    const adaId = created.playerId ?? "";
+
+    const joined = expectOk(
+      "join from node-2",
+      await emitWithAck(bo, "room:join", { roomCode, name: "Bo", token: registered.token }),
+    );
+    const boId = joined.playerId ?? "";
+
+    expectOk(
+      "hand host to the node-2 player",
+      await emitWithAck(ada, "room:transferHost", {
+        roomCode,
+        playerId: adaId,
+        targetPlayerId: boId,
+      }),
+    );
+
+    const adaSeesStart = waitForState(ada, (state) => state.phase === "in_game");
+    const boSeesStart = waitForState(bo, (state) => state.phase === "in_game");
+    expectOk(
+      "start from node-2",
+      await emitWithAck(bo, "game:start", { roomCode, playerId: boId }),
+    );
+    await Promise.all([adaSeesStart, boSeesStart]);
+    console.log("[ClusterCheck] both nodes saw the match start: ok");
+  } finally {
+    ada.disconnect();
+    bo.disconnect();
+  }
+}
+
+async function main(): Promise<void> {
+  // Keep the check self-contained: no word lists, snapshots or account files on disk.
+  process.env.DICTIONARY_ENABLED = "false";
+  process.env.ROOM_STORE_FILE = "";
+  process.env.ACCOUNT_STORE_FILE = "";
+  process.env.CHALLENGE_LOG_FILE = "";
+
+  const bus = createInProcessMessageBus();
+  const nodes = NODE_IDS.map((nodeId) =>
+    startServerNode({ port: 0, nodeId, nodeIds: NODE_IDS, messageBus: bus, stickyWorker: false }),
+  );
+  const timeout = setTimeout(() => {
+    console.error(`[ClusterCheck] Timed out after ${CHECK_TIMEOUT_MS}ms.`);
+    process.exit(1);
+  }, CHECK_TIMEOUT_MS);
+
+  try {
+    await runCheck(nodes);
+    console.log("[ClusterCheck] Passed.");
+  } finally {
+    clearTimeout(timeout);
+    await Promise.all(nodes.map((node) => node.close()));
+  }
+}
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error("[ClusterCheck] Failed.", error);
+    process.exit(1);
+  },
+);
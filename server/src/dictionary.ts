@@ -2,12 +2,15 @@ import fs from "node:fs";
 import path from "node:path";
 import { createHash } from "node:crypto";
 import wordListPath from "word-list";
-import { normalizeLettersOnly } from "./utils";
-import { ChunkTier, TierBand } from "./types";
+import { DEFAULT_LANGUAGE, LANGUAGE_NAMES, listLanguageCodes } from "./languages";
+import { normalizeLettersOnly, toUpperWord } from "./utils";
+import { ChunkTier, LanguageCode, TierBand } from "./types";
 
 const MIN_WORD_LENGTH = 3;
 const MAX_WORD_LENGTH = 20;
 const MIN_CHUNK_COVERAGE = 1500;
+const MIN_SCALED_CHUNK_COVERAGE = 3;
+const REFERENCE_DICTIONARY_SIZE = 250_000;
 const TARGET_CHUNK_POOL_SIZE = 800;
 const HARD_CHUNK_POOL_SIZE = 1200;
 const MIN_TIER_SIZE = 150;
@@ -15,6 +18,17 @@ const CHUNK_LENGTHS = [2, 3, 4] as const;
 const DEFAULT_CHUNK_LENGTHS = [2, 3] as const;
 const EXTENDED_CHUNK_LENGTHS = [2, 3, 4] as const;
 const COVERAGE_BUCKET_COUNT = 5;
+// npm word lists for the other languages, pulled in the same way English uses `word-list`.
+const LANGUAGE_WORD_PACKAGES: Partial<Record<LanguageCode, string>> = {
+  es: "an-array-of-spanish-words",
+  fr: "an-array-of-french-words",
+  de: "all-the-german-words",
+};
+// Most of the German package is long compounds. Capping it keeps the list near the Spanish one
+// in size and load time, and words that long are rarely typed within a turn anyway.
+const LANGUAGE_PACKAGE_MAX_WORD_LENGTH: Partial<Record<LanguageCode, number>> = {
+  de: 12,
+};
 const FOUR_LETTER_TARGET_SHARE = 0.15;
 const FOUR_LETTER_MIN_SHARE = 0.1;
 const FOUR_LETTER_MAX_SHARE = 0.2;
@@ -76,8 +90,18 @@ const FALLBACK_CHUNKS = [
   "OUS",
 ];
 
+export const MIN_CUSTOM_WORDS = 30;
+export const MAX_CUSTOM_WORDS = 20_000;
+
 type ChunkLength = (typeof CHUNK_LENGTHS)[number];
 
+export interface WordFileEdit {
+  ok: boolean;
+  error?: string;
+  word?: string;
+  changed?: boolean;
+}
+
 export interface ChunkDescriptor {
   chunk: string;
   coverage: number;
@@ -94,9 +118,32 @@ export interface ChunkPool {
   chunkMap: ReadonlyMap<string, ChunkDescriptor>;
 }
 
-export interface Dictionary {
+export interface WordLookupOptions {
+  limit?: number;
+  excluding?: ReadonlySet<string>;
+}
+
+export interface WordSampleOptions {
+  excluding?: ReadonlySet<string>;
+  accept?: (word: string) => boolean;
+  random?: () => number;
+}
+
+/**
+ * Chunk lookups over the dictionary. Chunks are matched case-insensitively, and words come
+ * back lowercase so they compare directly with a room's `usedWords`.
+ */
+export interface ChunkWordIndex {
+  wordsContaining(chunk: string, options?: WordLookupOptions): string[];
+  countRemaining(chunk: string, usedWords: ReadonlySet<string>): number;
+  sampleWordsContaining(chunk: string, count: number, options?: WordSampleOptions): string[];
+}
+
+export interface Dictionary extends ChunkWordIndex {
   enabled: boolean;
+  language: LanguageCode;
   size: number;
+  words: readonly string[];
   has(word: string): boolean;
   getChunkPool(includeFourLetterChunks: boolean): ChunkPool;
   getChunkInfo(chunk: string, includeFourLetterChunks: boolean): ChunkDescriptor | null;
@@ -118,6 +165,7 @@ interface DictionarySource {
   label: string;
   filePath: string;
   required: boolean;
+  maxWordLength?: number;
 }
 
 interface LoadedWordSource {
@@ -131,8 +179,28 @@ function resolveAssetPath(fileName: string): string {
   return path.join(__dirname, "..", "assets", fileName);
 }
 
-function normalizeDictionaryWord(input: string): string {
-  return normalizeLettersOnly(input.trim()).toUpperCase();
+// English sources live at the asset root; every other language has its own folder.
+function resolveLanguageAssetPath(language: LanguageCode, fileName: string): string {
+  return language === DEFAULT_LANGUAGE
+    ? resolveAssetPath(fileName)
+    : resolveAssetPath(path.join(language, fileName));
+}
+
+function resolveLanguagePackagePath(language: LanguageCode): string | null {
+  const packageName = LANGUAGE_WORD_PACKAGES[language];
+  if (!packageName) {
+    return null;
+  }
+
+  try {
+    return require.resolve(packageName);
+  } catch {
+    return null;
+  }
+}
+
+function normalizeDictionaryWord(input: string, language: LanguageCode = DEFAULT_LANGUAGE): string {
+  return toUpperWord(normalizeLettersOnly(input.trim(), language));
 }
 
 function isAllowedDictionaryWord(word: string): boolean {
@@ -166,9 +234,59 @@ function readBlockedWords(filePath: string): Set<string> {
   );
 }
 
+/**
+ * Rewrites an asset file without the lines the predicate drops. Like the room and account
+ * stores, it writes a temp file first so a crash never leaves half a word list behind.
+ */
+function removeAssetLines(filePath: string, shouldRemove: (line: string) => boolean): boolean {
+  if (!fs.existsSync(filePath)) {
+    return false;
+  }
+
+  const lines = fs.readFileSync(filePath, "utf8").split(/\r?\n/);
+  const keptLines = lines.filter((line) => !shouldRemove(line));
+  if (keptLines.length === lines.length) {
+    return false;
+  }
+
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, keptLines.join("\n"));
+  fs.renameSync(tempPath, filePath);
+  return true;
+}
+
+function appendAssetLine(filePath: string, line: string): void {
+  const existing = fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf8") : "";
+  const separator = existing.length > 0 && !existing.endsWith("\n") ? "\n" : "";
+  // A language installed from its package may not have an asset folder yet.
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.appendFileSync(filePath, `${separator}${line}\n`);
+}
+
+/**
+ * Text sources hold one word per line. Package lists are JSON arrays that also carry phrases
+ * and hyphenated forms like "abat-jour", which are skipped rather than glued into one word.
+ */
+function readSourceEntries(filePath: string): string[] {
+  const contents = fs.readFileSync(filePath, "utf8");
+  if (path.extname(filePath) !== ".json") {
+    return contents.split(/\r?\n/);
+  }
+
+  const entries: unknown = JSON.parse(contents);
+  if (!Array.isArray(entries)) {
+    throw new Error(`Dictionary source is not a word array: ${filePath}`);
+  }
+
+  return entries.filter(
+    (entry): entry is string => typeof entry === "string" && /^\p{L}+$/u.test(entry),
+  );
+}
+
 function readWordSource(
   definition: DictionarySource,
   blockedWords: ReadonlySet<string>,
+  language: LanguageCode = DEFAULT_LANGUAGE,
 ): LoadedWordSource {
   if (!fs.existsSync(definition.filePath)) {
     if (definition.required) {
@@ -186,9 +304,12 @@ function readWordSource(
   const words = new Set<string>();
   let blockedCount = 0;
 
-  for (const line of fs.readFileSync(definition.filePath, "utf8").split(/\r?\n/)) {
-    const normalized = normalizeDictionaryWord(line);
-    if (!isAllowedDictionaryWord(normalized)) {
+  for (const line of readSourceEntries(definition.filePath)) {
+    const normalized = normalizeDictionaryWord(line, language);
+    if (
+      !isAllowedDictionaryWord(normalized) ||
+      normalized.length > (definition.maxWordLength ?? MAX_WORD_LENGTH)
+    ) {
       continue;
     }
 
@@ -247,7 +368,7 @@ function mergeWordSources(sources: LoadedWordSource[]): {
 }
 
 function isPreferredChunk(chunk: string): boolean {
-  if (/[AEIOU]/.test(chunk)) {
+  if (/[AEIOUÁÀÂÄÆÉÈÊËÍÎÏÓÔÖŒÚÙÛÜŸ]/.test(chunk)) {
     return true;
   }
 
@@ -268,7 +389,10 @@ function compareChunkStats(a: RawChunkStat, b: RawChunkStat): number {
   return a.chunk.localeCompare(b.chunk);
 }
 
-function scanChunkCoverage(wordsArray: string[]): RawChunkStat[] {
+function scanChunkCoverage(
+  wordsArray: readonly string[],
+  minCoverage: number = MIN_CHUNK_COVERAGE,
+): RawChunkStat[] {
   const chunkCoverage = new Map<string, number>();
 
   for (const word of wordsArray) {
@@ -296,7 +420,7 @@ function scanChunkCoverage(wordsArray: string[]): RawChunkStat[] {
   }
 
   return [...chunkCoverage.entries()]
-    .filter(([, coverage]) => coverage >= MIN_CHUNK_COVERAGE)
+    .filter(([, coverage]) => coverage >= minCoverage)
     .map(([chunk, coverage]) => ({
       chunk,
       coverage,
@@ -767,6 +891,139 @@ function buildChunkPool(
   };
 }
 
+function greatestCommonDivisor(left: number, right: number): number {
+  return right === 0 ? left : greatestCommonDivisor(right, left % right);
+}
+
+/**
+ * Inverted index from every pooled chunk to the positions of the words containing it. Postings
+ * for all chunks share one typed array, filled in a counting pass and a writing pass, so the
+ * merged dictionary's ~3M postings cost about 12 MB instead of millions of boxed numbers.
+ */
+function createChunkWordIndex(
+  wordsArray: readonly string[],
+  dictSet: ReadonlySet<string>,
+  pools: ChunkPool[],
+): ChunkWordIndex {
+  const chunkIds = new Map<string, number>();
+  for (const pool of pools) {
+    for (const chunk of pool.chunkMap.keys()) {
+      if (!chunkIds.has(chunk)) {
+        chunkIds.set(chunk, chunkIds.size);
+      }
+    }
+  }
+
+  const chunkLengths = [...new Set([...chunkIds.keys()].map((chunk) => chunk.length))];
+  const forEachChunkId = (word: string, visit: (chunkId: number) => void): void => {
+    const seen = new Set<number>();
+    for (const length of chunkLengths) {
+      for (let index = 0; index <= word.length - length; index += 1) {
+        const chunkId = chunkIds.get(word.slice(index, index + length));
+        if (chunkId !== undefined && !seen.has(chunkId)) {
+          seen.add(chunkId);
+          visit(chunkId);
+        }
+      }
+    }
+  };
+
+  const offsets = new Uint32Array(chunkIds.size + 1);
+  for (const word of wordsArray) {
+    forEachChunkId(word, (chunkId) => {
+      offsets[chunkId + 1] += 1;
+    });
+  }
+  for (let chunkId = 0; chunkId < chunkIds.size; chunkId += 1) {
+    offsets[chunkId + 1] += offsets[chunkId];
+  }
+
+  const postings = new Uint32Array(offsets[chunkIds.size]);
+  const cursors = offsets.slice(0, chunkIds.size);
+  wordsArray.forEach((word, wordIndex) => {
+    forEachChunkId(word, (chunkId) => {
+      postings[cursors[chunkId]] = wordIndex;
+      cursors[chunkId] += 1;
+    });
+  });
+
+  // Chunks outside the pools only come from hand-written callers, so a scan is fine for them.
+  const getPostings = (chunk: string): Uint32Array => {
+    const chunkId = chunkIds.get(chunk);
+    if (chunkId !== undefined) {
+      return postings.subarray(offsets[chunkId], offsets[chunkId + 1]);
+    }
+
+    return Uint32Array.from(
+      wordsArray.flatMap((word, wordIndex) => (word.includes(chunk) ? [wordIndex] : [])),
+    );
+  };
+
+  return {
+    wordsContaining: (chunkInput, options = {}) => {
+      const matches = getPostings(toUpperWord(chunkInput));
+      const limit = options.limit ?? matches.length;
+      const words: string[] = [];
+
+      for (let index = 0; index < matches.length && words.length < limit; index += 1) {
+        const word = wordsArray[matches[index]].toLowerCase();
+        if (!options.excluding?.has(word)) {
+          words.push(word);
+        }
+      }
+
+      return words;
+    },
+    countRemaining: (chunkInput, usedWords) => {
+      const chunk = toUpperWord(chunkInput);
+      let usedMatches = 0;
+
+      for (const usedWord of usedWords) {
+        const normalized = toUpperWord(usedWord);
+        if (normalized.includes(chunk) && dictSet.has(normalized)) {
+          usedMatches += 1;
+        }
+      }
+
+      return Math.max(0, getPostings(chunk).length - usedMatches);
+    },
+    sampleWordsContaining: (chunkInput, count, options = {}) => {
+      const matches = getPostings(toUpperWord(chunkInput));
+      const random = options.random ?? Math.random;
+      const total = matches.length;
+      const words: string[] = [];
+      if (total === 0 || count <= 0) {
+        return words;
+      }
+
+      // Walking with a stride coprime to the match count visits every match exactly once in a
+      // scattered order, so samples are not one alphabetical run and sparse filters still finish.
+      const start = Math.floor(random() * total);
+      let stride = 1 + Math.floor(random() * Math.max(1, total - 1));
+      while (greatestCommonDivisor(stride, total) !== 1) {
+        stride -= 1;
+      }
+
+      for (let step = 0; step < total && words.length < count; step += 1) {
+        const word = wordsArray[matches[(start + step * stride) % total]].toLowerCase();
+        if (!options.excluding?.has(word) && (options.accept?.(word) ?? true)) {
+          words.push(word);
+        }
+      }
+
+      return words;
+    },
+  };
+}
+
+function createEmptyChunkWordIndex(): ChunkWordIndex {
+  return {
+    wordsContaining: () => [],
+    countRemaining: () => 0,
+    sampleWordsContaining: () => [],
+  };
+}
+
 function logDictionarySourceReport(
   reports: Array<{
     label: string;
@@ -870,13 +1127,323 @@ function createDisabledDictionary(): Dictionary {
 
   return {
     enabled: false,
+    language: DEFAULT_LANGUAGE,
     size: 0,
+    words: [],
     has: () => true,
     getChunkPool: (includeFourLetterChunks: boolean) =>
       includeFourLetterChunks ? extendedPool : defaultPool,
     getChunkInfo: (chunk: string, includeFourLetterChunks: boolean) =>
-      (includeFourLetterChunks ? extendedPool : defaultPool).chunkMap.get(chunk.toUpperCase()) ??
+      (includeFourLetterChunks ? extendedPool : defaultPool).chunkMap.get(toUpperWord(chunk)) ??
+      null,
+    ...createEmptyChunkWordIndex(),
+  };
+}
+
+/**
+ * The merged dictionary keeps chunks found in roughly 0.6% of its words. Small themed lists
+ * keep the same ratio so their pools band the same way, with a floor of a few words per chunk.
+ */
+function scaleChunkCoverage(wordCount: number): number {
+  return Math.max(
+    MIN_SCALED_CHUNK_COVERAGE,
+    Math.min(
+      MIN_CHUNK_COVERAGE,
+      Math.round((wordCount * MIN_CHUNK_COVERAGE) / REFERENCE_DICTIONARY_SIZE),
+    ),
+  );
+}
+
+/**
+ * Normalizes an uploaded or pasted list. Words may be separated by newlines, commas, or
+ * spaces, and go through the same length filter and blocklist as the built-in sources.
+ */
+export function parseWordList(text: string, language: LanguageCode = DEFAULT_LANGUAGE): string[] {
+  const blockedWords = readBlockedWords(resolveAssetPath("blocked_words.txt"));
+  const words = new Set<string>();
+
+  for (const entry of text.split(/[\s,;]+/)) {
+    const normalized = normalizeDictionaryWord(entry, language);
+    if (isAllowedDictionaryWord(normalized) && !blockedWords.has(hashDictionaryWord(normalized))) {
+      words.add(normalized);
+    }
+  }
+
+  return [...words];
+}
+
+function normalizeAdminWord(input: unknown, language: LanguageCode): string | null {
+  const normalized = normalizeDictionaryWord(typeof input === "string" ? input : "", language);
+  return isAllowedDictionaryWord(normalized) ? normalized : null;
+}
+
+/**
+ * Adds a word to the language's `extra_words.txt`, lifting any block on it. The change
+ * applies to the server dictionary on the next reload.
+ */
+export function addExtraWord(
+  input: unknown,
+  language: LanguageCode = DEFAULT_LANGUAGE,
+): WordFileEdit {
+  if (!isLanguageInstalled(language)) {
+    return { ok: false, error: "That language is not installed on this server." };
+  }
+
+  const word = normalizeAdminWord(input, language);
+  if (!word) {
+    return {
+      ok: false,
+      error: `Words must be ${MIN_WORD_LENGTH}-${MAX_WORD_LENGTH} letters.`,
+    };
+  }
+
+  const wordHash = hashDictionaryWord(word);
+  const unblocked = removeAssetLines(
+    resolveAssetPath("blocked_words.txt"),
+    (line) => line.trim().toLowerCase() === wordHash,
+  );
+  const extraWordsPath = resolveLanguageAssetPath(language, "extra_words.txt");
+  const alreadyListed =
+    fs.existsSync(extraWordsPath) &&
+    fs
+      .readFileSync(extraWordsPath, "utf8")
+      .split(/\r?\n/)
+      .some((line) => normalizeDictionaryWord(line, language) === word);
+
+  if (!alreadyListed) {
+    appendAssetLine(extraWordsPath, word.toLowerCase());
+  }
+
+  return { ok: true, word, changed: unblocked || !alreadyListed };
+}
+
+/**
+ * Blocks a word in every dictionary source and custom list by appending its hash to
+ * `blocked_words.txt`, and drops it from `extra_words.txt` so the two files never disagree.
+ * The blocklist is shared by every language.
+ */
+export function blockWord(input: unknown, language: LanguageCode = DEFAULT_LANGUAGE): WordFileEdit {
+  const word = normalizeAdminWord(input, language);
+  if (!word) {
+    return {
+      ok: false,
+      error: `Words must be ${MIN_WORD_LENGTH}-${MAX_WORD_LENGTH} letters.`,
+    };
+  }
+
+  const blockedWordsPath = resolveAssetPath("blocked_words.txt");
+  const wordHash = hashDictionaryWord(word);
+  const alreadyBlocked = readBlockedWords(blockedWordsPath).has(wordHash);
+  if (!alreadyBlocked) {
+    appendAssetLine(blockedWordsPath, wordHash);
+  }
+
+  const removedExtra = removeAssetLines(
+    resolveLanguageAssetPath(language, "extra_words.txt"),
+    (line) => normalizeDictionaryWord(line, language) === word,
+  );
+
+  return { ok: true, word, changed: !alreadyBlocked || removedExtra };
+}
+
+export function createWordListDictionary(
+  words: readonly string[],
+  label: string,
+  language: LanguageCode = DEFAULT_LANGUAGE,
+): Dictionary {
+  const dictSet = new Set(words);
+  const allEligibleChunks = scanChunkCoverage(words, scaleChunkCoverage(words.length));
+  const defaultPool = buildChunkPool(
+    allEligibleChunks,
+    DEFAULT_CHUNK_LENGTHS,
+    `${label} 2-3 letter pool`,
+  );
+  const extendedPool = buildChunkPool(
+    allEligibleChunks,
+    EXTENDED_CHUNK_LENGTHS,
+    `${label} 2-4 letter pool`,
+  );
+  const wordsArray = [...dictSet];
+  const chunkWordIndex = createChunkWordIndex(wordsArray, dictSet, [defaultPool, extendedPool]);
+
+  return {
+    enabled: true,
+    language,
+    size: dictSet.size,
+    words: wordsArray,
+    has: (word: string) => dictSet.has(normalizeDictionaryWord(word, language)),
+    getChunkPool: (includeFourLetterChunks: boolean) =>
+      includeFourLetterChunks ? extendedPool : defaultPool,
+    getChunkInfo: (chunk: string, includeFourLetterChunks: boolean) =>
+      (includeFourLetterChunks ? extendedPool : defaultPool).chunkMap.get(toUpperWord(chunk)) ??
       null,
+    ...chunkWordIndex,
+  };
+}
+
+/**
+ * Other languages read their npm word list, then `assets/<lang>/words.txt` and an optional
+ * `extra_words.txt` in the same folder. Without the package, `words.txt` is required. The
+ * shared blocklist still applies.
+ */
+function readLanguageWordSources(
+  language: LanguageCode,
+  blockedWords: ReadonlySet<string>,
+): LoadedWordSource[] {
+  const packagePath = resolveLanguagePackagePath(language);
+  const packageSources = packagePath
+    ? [
+        readWordSource(
+          {
+            label: `package ${LANGUAGE_WORD_PACKAGES[language]}`,
+            filePath: packagePath,
+            required: true,
+            maxWordLength: LANGUAGE_PACKAGE_MAX_WORD_LENGTH[language],
+          },
+          blockedWords,
+          language,
+        ),
+      ]
+    : [];
+
+  return [
+    ...packageSources,
+    readWordSource(
+      {
+        label: `${LANGUAGE_NAMES[language]} words.txt`,
+        filePath: resolveLanguageAssetPath(language, "words.txt"),
+        required: !packagePath,
+      },
+      blockedWords,
+      language,
+    ),
+    readWordSource(
+      {
+        label: `${LANGUAGE_NAMES[language]} extra words`,
+        filePath: resolveLanguageAssetPath(language, "extra_words.txt"),
+        required: false,
+      },
+      blockedWords,
+      language,
+    ),
+  ];
+}
+
+/**
+ * English is always installed. Other languages are installed once their word list package or
+ * `words.txt` is present.
+ */
+export function isLanguageInstalled(language: LanguageCode): boolean {
+  return (
+    language === DEFAULT_LANGUAGE ||
+    resolveLanguagePackagePath(language) !== null ||
+    fs.existsSync(resolveLanguageAssetPath(language, "words.txt"))
+  );
+}
+
+export function listInstalledLanguages(): LanguageCode[] {
+  return listLanguageCodes().filter(isLanguageInstalled);
+}
+
+/**
+ * Reads every dictionary source from disk and rebuilds the chunk pools and word index. Unlike
+ * `createDictionary` it throws on failure, so a bad reload can keep the dictionary in use.
+ */
+export function loadMergedDictionary(language: LanguageCode = DEFAULT_LANGUAGE): Dictionary {
+  const blockedWords = readBlockedWords(resolveAssetPath("blocked_words.txt"));
+  if (language !== DEFAULT_LANGUAGE) {
+    return buildMergedDictionary(
+      readLanguageWordSources(language, blockedWords),
+      blockedWords,
+      language,
+    );
+  }
+
+  const sources = [
+    readWordSource(
+      {
+        label: "package word-list",
+        filePath: wordListPath,
+        required: true,
+      },
+      blockedWords,
+    ),
+    readWordSource(
+      {
+        label: "base word list",
+        filePath: resolveBaseWordListPath(),
+        required: true,
+      },
+      blockedWords,
+    ),
+    readWordSource(
+      {
+        label: "extra words",
+        filePath: resolveAssetPath("extra_words.txt"),
+        required: false,
+      },
+      blockedWords,
+    ),
+    readWordSource(
+      {
+        label: "repo words.txt",
+        filePath: resolveAssetPath("words.txt"),
+        required: true,
+      },
+      blockedWords,
+    ),
+  ];
+
+  return buildMergedDictionary(sources, blockedWords, language);
+}
+
+function buildMergedDictionary(
+  sources: LoadedWordSource[],
+  blockedWords: ReadonlySet<string>,
+  language: LanguageCode,
+): Dictionary {
+  const { dictSet, wordsArray, reports } = mergeWordSources(sources);
+
+  if (wordsArray.length === 0) {
+    throw new Error("Merged dictionary produced no words.");
+  }
+
+  logDictionarySourceReport(reports, dictSet.size, blockedWords.size);
+
+  // Other languages ship smaller lists, so their coverage floor scales like a custom list's.
+  const allEligibleChunks = scanChunkCoverage(
+    wordsArray,
+    language === DEFAULT_LANGUAGE ? MIN_CHUNK_COVERAGE : scaleChunkCoverage(wordsArray.length),
+  );
+  const poolPrefix = language === DEFAULT_LANGUAGE ? "" : `${LANGUAGE_NAMES[language]} `;
+  const defaultPool = buildChunkPool(
+    allEligibleChunks,
+    DEFAULT_CHUNK_LENGTHS,
+    `${poolPrefix}2-3 letter chunk pool`,
+  );
+  const extendedPool = buildChunkPool(
+    allEligibleChunks,
+    EXTENDED_CHUNK_LENGTHS,
+    `${poolPrefix}2-4 letter chunk pool`,
+  );
+
+  logChunkPoolReport(defaultPool, wordsArray.length);
+  logChunkPoolReport(extendedPool, wordsArray.length);
+
+  const chunkWordIndex = createChunkWordIndex(wordsArray, dictSet, [defaultPool, extendedPool]);
+
+  return {
+    enabled: true,
+    language,
+    size: dictSet.size,
+    words: wordsArray,
+    has: (word: string) => dictSet.has(normalizeDictionaryWord(word, language)),
+    getChunkPool: (includeFourLetterChunks: boolean) =>
+      includeFourLetterChunks ? extendedPool : defaultPool,
+    getChunkInfo: (chunk: string, includeFourLetterChunks: boolean) =>
+      (includeFourLetterChunks ? extendedPool : defaultPool).chunkMap.get(toUpperWord(chunk)) ??
+      null,
+    ...chunkWordIndex,
   };
 }
 
@@ -891,74 +1458,7 @@ export function createDictionary(dictionaryEnabledEnv: string | undefined): Dict
   }
 
   try {
-    const blockedWords = readBlockedWords(resolveAssetPath("blocked_words.txt"));
-    const sources = [
-      readWordSource(
-        {
-          label: "package word-list",
-          filePath: wordListPath,
-          required: true,
-        },
-        blockedWords,
-      ),
-      readWordSource(
-        {
-          label: "base word list",
-          filePath: resolveBaseWordListPath(),
-          required: true,
-        },
-        blockedWords,
-      ),
-      readWordSource(
-        {
-          label: "extra words",
-          filePath: resolveAssetPath("extra_words.txt"),
-          required: false,
-        },
-        blockedWords,
-      ),
-      readWordSource(
-        {
-          label: "repo words.txt",
-          filePath: resolveAssetPath("words.txt"),
-          required: true,
-        },
-        blockedWords,
-      ),
-    ];
-    const { dictSet, wordsArray, reports } = mergeWordSources(sources);
-
-    if (wordsArray.length === 0) {
-      throw new Error("Merged dictionary produced no words.");
-    }
-
-    logDictionarySourceReport(reports, dictSet.size, blockedWords.size);
-
-    const allEligibleChunks = scanChunkCoverage(wordsArray);
-    const defaultPool = buildChunkPool(
-      allEligibleChunks,
-      DEFAULT_CHUNK_LENGTHS,
-      "2-3 letter chunk pool",
-    );
-    const extendedPool = buildChunkPool(
-      allEligibleChunks,
-      EXTENDED_CHUNK_LENGTHS,
-      "2-4 letter chunk pool",
-    );
-
-    logChunkPoolReport(defaultPool, wordsArray.length);
-    logChunkPoolReport(extendedPool, wordsArray.length);
-
-    return {
-      enabled: true,
-      size: dictSet.size,
-      has: (word: string) => dictSet.has(normalizeDictionaryWord(word)),
-      getChunkPool: (includeFourLetterChunks: boolean) =>
-        includeFourLetterChunks ? extendedPool : defaultPool,
-      getChunkInfo: (chunk: string, includeFourLetterChunks: boolean) =>
-        (includeFourLetterChunks ? extendedPool : defaultPool).chunkMap.get(chunk.toUpperCase()) ??
-        null,
-    };
+    return loadMergedDictionary();
   } catch (error) {
     console.warn(
       "[Dictionary] Falling back to non-dictionary validation because loading failed.",
@@ -0,0 +1,175 @@
+import { ChunkTier, DifficultyPreset, DifficultyProfile, DifficultyStage } from "./types";
+
+const CHUNK_TIERS: ChunkTier[] = ["veryEasy", "easy", "medium", "hard", "veryHard"];
+const DIFFICULTY_PRESETS: DifficultyPreset[] = ["casual", "standard", "brutal", "custom"];
+
+export const MAX_DIFFICULTY_STAGES = 8;
+export const MAX_STAGE_ROUND = 40;
+export const MAX_TIER_WEIGHT = 100;
+
+// Built-in progressions. Standard matches the original two-rounds-per-stage climb.
+const PRESET_STAGES: Record<Exclude<DifficultyPreset, "custom">, DifficultyStage[]> = {
+  casual: [
+    { fromRound: 0, tierWeights: { veryEasy: 1 } },
+    { fromRound: 2, tierWeights: { easy: 1 } },
+    { fromRound: 4, tierWeights: { easy: 50, medium: 50 } },
+  ],
+  standard: [
+    { fromRound: 0, tierWeights: { veryEasy: 1 } },
+    { fromRound: 2, tierWeights: { easy: 1 } },
+    { fromRound: 4, tierWeights: { medium: 1 } },
+    { fromRound: 6, tierWeights: { hard: 1 } },
+    { fromRound: 8, tierWeights: { medium: 20, hard: 40, veryHard: 40 } },
+  ],
+  brutal: [
+    { fromRound: 0, tierWeights: { hard: 1 } },
+    { fromRound: 2, tierWeights: { hard: 50, veryHard: 50 } },
+    { fromRound: 4, tierWeights: { veryHard: 1 } },
+  ],
+};
+
+export interface DifficultyProfileResult {
+  ok: boolean;
+  error?: string;
+  profile?: DifficultyProfile;
+}
+
+export interface DifficultyStageMatch {
+  stageIndex: number;
+  stage: DifficultyStage;
+}
+
+export function isDifficultyPreset(input: unknown): input is DifficultyPreset {
+  return typeof input === "string" && (DIFFICULTY_PRESETS as string[]).includes(input);
+}
+
+export function getPresetDifficultyProfile(
+  preset: Exclude<DifficultyPreset, "custom">,
+): DifficultyProfile {
+  return { preset, stages: cloneDifficultyStages(PRESET_STAGES[preset]) };
+}
+
+export function cloneDifficultyStages(stages: DifficultyStage[]): DifficultyStage[] {
+  return stages.map((stage) => ({
+    fromRound: stage.fromRound,
+    tierWeights: { ...stage.tierWeights },
+  }));
+}
+
+function parseDifficultyStage(input: unknown): DifficultyStage | string {
+  if (typeof input !== "object" || input === null) {
+    return "Each difficulty stage needs a starting round and tier weights.";
+  }
+
+  const { fromRound, tierWeights } = input as { fromRound?: unknown; tierWeights?: unknown };
+  if (
+    typeof fromRound !== "number" ||
+    !Number.isInteger(fromRound) ||
+    fromRound < 0 ||
+    fromRound > MAX_STAGE_ROUND
+  ) {
+    return `Stage rounds must be whole numbers from 0 to ${MAX_STAGE_ROUND}.`;
+  }
+
+  if (typeof tierWeights !== "object" || tierWeights === null) {
+    return "Each difficulty stage needs tier weights.";
+  }
+
+  const weights: DifficultyStage["tierWeights"] = {};
+  for (const [tier, weight] of Object.entries(tierWeights)) {
+    if (!(CHUNK_TIERS as string[]).includes(tier)) {
+      return `Unknown chunk tier "${tier}".`;
+    }
+
+    if (
+      typeof weight !== "number" ||
+      !Number.isInteger(weight) ||
+      weight < 0 ||
+      weight > MAX_TIER_WEIGHT
+    ) {
+      return `Tier weights must be whole numbers from 0 to ${MAX_TIER_WEIGHT}.`;
+    }
+
+    if (weight > 0) {
+      weights[tier as ChunkTier] = weight;
+    }
+  }
+
+  if (Object.keys(weights).length === 0) {
+    return "Each difficulty stage needs at least one tier with a positive weight.";
+  }
+
+  return { fromRound, tierWeights: weights };
+}
+
+/**
+ * Validates a settings update. Presets resolve to their built-in table, while a custom
+ * profile must list 1-8 stages, starting at round 0 with strictly increasing rounds.
+ */
+export function parseDifficultyProfile(input: unknown): DifficultyProfileResult {
+  if (typeof input !== "object" || input === null) {
+    return { ok: false, error: "Difficulty settings are invalid." };
+  }
+
+  const { preset, stages } = input as { preset?: unknown; stages?: unknown };
+  if (!isDifficultyPreset(preset)) {
+    return { ok: false, error: "Unknown difficulty profile." };
+  }
+
+  if (preset !== "custom") {
+    return { ok: true, profile: getPresetDifficultyProfile(preset) };
+  }
+
+  if (!Array.isArray(stages) || stages.length === 0 || stages.length > MAX_DIFFICULTY_STAGES) {
+    return { ok: false, error: `Custom difficulty needs 1-${MAX_DIFFICULTY_STAGES} stages.` };
+  }
+
+  const parsedStages: DifficultyStage[] = [];
+  for (const stageInput of stages) {
+    const stage = parseDifficultyStage(stageInput);
+    if (typeof stage === "string") {
+      return { ok: false, error: stage };
+    }
+
+    const previous = parsedStages[parsedStages.length - 1];
+    if (previous ? stage.fromRound <= previous.fromRound : stage.fromRound !== 0) {
+      return {
+        ok: false,
+        error: previous
+          ? "Each stage must start on a later round than the one before it."
+          : "The first stage must start at round 0.",
+      };
+    }
+
+    parsedStages.push(stage);
+  }
+
+  return { ok: true, profile: { preset, stages: parsedStages } };
+}
+
+/**
+ * Finds the latest stage the match has reached. A round is one active turn per player, so
+ * `rounds` is the match's active turns divided by the roster size at the start.
+ */
+export function resolveDifficultyStage(
+  profile: DifficultyProfile,
+  rounds: number,
+): DifficultyStageMatch {
+  let stageIndex = 0;
+  profile.stages.forEach((stage, index) => {
+    if (stage.fromRound <= rounds) {
+      stageIndex = index;
+    }
+  });
+
+  return { stageIndex, stage: profile.stages[stageIndex] };
+}
+
+export function listStageTierWeights(
+  stage: DifficultyStage,
+): Array<{ tier: ChunkTier; weight: number }> {
+  return CHUNK_TIERS.flatMap((tier) => {
+    const weight = stage.tierWeights[tier] ?? 0;
+    return weight > 0 ? [{ tier, weight }] : [];
+  });
+}
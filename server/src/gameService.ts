@@ -1,31 +1,130 @@
 import { Server } from "socket.io";
-import { ChunkDescriptor, ChunkPool, Dictionary } from "./dictionary";
+import { MatchStatsRecorder, createAccountService, createMemoryAccountStore } from "./accounts";
+import { buildMatchAnalytics, snapshotRotationLives } from "./analytics";
 import {
+  DEFAULT_BONUS_LETTER_RULES,
+  collectBonusLetters,
+  mergeBonusLetterRules,
+} from "./bonusLetters";
+import { createBotName, createBotSocketId, isBotDifficulty, planBotTurn } from "./bots";
+import {
+  ChallengeLog,
+  createMemoryChallengeLog,
+  isChallengeAccepted,
+  isChallengeSettled,
+  tallyChallengeVotes,
+  toPublicWordChallenge,
+} from "./challenges";
+import {
+  ChunkDescriptor,
+  ChunkPool,
+  Dictionary,
+  MAX_CUSTOM_WORDS,
+  MIN_CUSTOM_WORDS,
+  createWordListDictionary,
+  isLanguageInstalled,
+  loadMergedDictionary,
+  parseWordList,
+} from "./dictionary";
+import {
+  cloneDifficultyStages,
+  getPresetDifficultyProfile,
+  listStageTierWeights,
+  parseDifficultyProfile,
+  resolveDifficultyStage,
+} from "./difficulty";
+import { NEUTRAL_HANDICAP, computePlayerHandicap, shiftChunkTier } from "./handicap";
+import { DEFAULT_LANGUAGE, isLanguageCode, isLanguageLetter, listLanguageCodes } from "./languages";
+import {
+  DEFAULT_MODIFIER_RULES,
+  MIN_WORD_LENGTH,
+  PLAIN_TURN_MODIFIERS,
+  getModifierRejection,
+  listModifierFallbacks,
+  matchesTurnModifiers,
+  mergeModifierRules,
+  rollTurnModifiers,
+} from "./modifiers";
+import {
+  DEFAULT_POWER_UP_RULES,
+  EXTRA_TIME_SECONDS,
+  POWER_UP_NAMES,
+  earnsPowerUp,
+  isPowerUpKind,
+  mergePowerUpRules,
+  rollPowerUp,
+} from "./powerUps";
+import { createMatchReplay, finishMatchReplay, recordMatchEvent } from "./replay";
+import { RoomStore, createMemoryRoomStore } from "./roomStore";
+import {
+  DEFAULT_SCORING_RULES,
+  hasScoringBonuses,
+  mergeScoringRules,
+  scoreWord,
+} from "./scoring";
+import { summarizeReplayForPlayer } from "./stats";
+import {
+  DEFAULT_TIMER_MODE,
+  MIN_FUSE_TURN_MS,
+  MIN_TURN_SECONDS,
+  computeTurnDurationSeconds,
+  isTimerMode,
+  rollFuseMs,
+} from "./timers";
+import {
+  MAX_TEAMS,
+  MIN_TEAMS,
+  balanceTeams,
+  createTeams,
+  getTeamMembers,
+  getTeamName,
+  getTeamScore,
+  isTeamId,
+} from "./teams";
+import {
+  AccountProfile,
   ChunkTier,
+  LanguageCode,
+  MatchReplay,
   PublicTypingState,
   PublicRoomState,
   RoomState,
   PlayerState,
+  TeamState,
   AckResponse,
+  AddBotPayload,
+  AssignTeamPayload,
+  ChallengeVotePayload,
+  RemoveBotPayload,
+  RoomRemovedPayload,
+  SetWordListPayload,
   PlayerTypingPayload,
   UpdateSettingsPayload,
   SubmitWordPayload,
   PlayerActionPayload,
+  TargetPlayerPayload,
+  TurnModifiers,
+  TurnOutcome,
+  UsePowerUpPayload,
 } from "./types";
 import {
   clampInt,
+  createMatchSeed,
   createPlayerId,
   createRoomCode,
   createSeededRandomState,
   nextSeededRandom,
+  sanitizeClientId,
+  sanitizeMatchSeed,
   sanitizePlayerName,
   sanitizeRoomCode,
   sanitizeTypingPreview,
   sanitizeWord,
+  sanitizeWordListName,
+  toUpperWord,
 } from "./utils";
 
 const DEFAULT_TURN_SECONDS = 10;
-const MIN_TURN_SECONDS = 5;
 const MAX_TURN_SECONDS = 20;
 const DEFAULT_STARTING_LIVES = 3;
 const MIN_STARTING_LIVES = 1;
@@ -34,16 +133,20 @@ const MIN_PLAYERS_TO_START = 2;
 const MAX_PLAYERS_PER_ROOM = 12;
 const TIMER_TICK_MS = 250;
 const SUBMIT_RATE_LIMIT_MS = 300;
+const CHALLENGE_VOTE_MS = 8000;
+const NOT_IN_DICTIONARY_ERROR = "Word not found in dictionary.";
 const TYPING_RATE_LIMIT_WINDOW_MS = 1000;
 const MAX_TYPING_EVENTS_PER_WINDOW = 8;
 const EMPTY_ROOM_TTL_MS = 5 * 60 * 1000;
 const CHUNK_COOLDOWN_TURNS = 8;
+const MIN_REMAINING_CHUNK_WORDS = 2;
+const MIN_REMAINING_COVERAGE_SHARE = 0.5;
+const BOT_RETRY_DELAY_MS = 350;
+const MAX_WORD_LIST_CHARS = 400_000;
+const MIN_CUSTOM_CHUNK_POOL_SIZE = 10;
+const EXPLOSION_HINT_WORDS = 5;
+const EXPLOSION_HINT_SAMPLE_SIZE = 40;
 const STAGE_TIER_ORDER: ChunkTier[] = ["veryEasy", "easy", "medium", "hard", "veryHard"];
-const POST_VERY_HARD_TIER_WEIGHTS: Array<{ tier: ChunkTier; weight: number }> = [
-  { tier: "medium", weight: 20 },
-  { tier: "hard", weight: 40 },
-  { tier: "veryHard", weight: 40 },
-];
 
 interface SocketSession {
   roomCode: string;
@@ -53,51 +156,87 @@ interface SocketSession {
 interface OperationResult {
   ok: boolean;
   error?: string;
+  challengeable?: boolean;
   roomCode?: string;
   playerId?: string;
   state?: PublicRoomState;
+  replay?: MatchReplay;
 }
 
 interface DifficultyTarget {
   stageIndex: number;
   targetTier: ChunkTier;
+  // The target after the active player's handicap, which is what the chunk is drawn from.
+  playerTier: ChunkTier;
 }
 
 export class GameService {
-  private readonly rooms = new Map<string, RoomState>();
   private readonly socketSessions = new Map<string, SocketSession>();
   private readonly lastSubmitAtBySocket = new Map<string, number>();
   private readonly typingEventTimesBySocket = new Map<string, number[]>();
+  private readonly botTimers = new Map<string, NodeJS.Timeout>();
+  private readonly roomDictionaries = new Map<string, Dictionary>();
+  private readonly pinnedDictionaries = new Map<string, Dictionary>();
+  private readonly languageDictionaries = new Map<LanguageCode, Dictionary>();
+  private availableLanguages: LanguageCode[] = [DEFAULT_LANGUAGE];
 
   constructor(
     private readonly io: Server,
-    private readonly dictionary: Dictionary,
+    private dictionary: Dictionary,
+    private readonly roomStore: RoomStore = createMemoryRoomStore(),
+    private readonly ownsRoomCode: (roomCode: string) => boolean = () => true,
+    private readonly accounts: MatchStatsRecorder = createAccountService(
+      createMemoryAccountStore(),
+      undefined,
+    ),
+    private readonly challengeLog: ChallengeLog = createMemoryChallengeLog(),
   ) {
+    this.loadLanguageDictionaries(listLanguageCodes());
+    for (const room of this.roomStore.values()) {
+      this.restoreRoom(room);
+    }
+
     setInterval(() => this.tick(), TIMER_TICK_MS);
     setInterval(() => this.cleanupRooms(), 30_000);
   }
 
-  public createRoom(socketId: string, nameInput: string): OperationResult {
-    const name = sanitizePlayerName(nameInput);
+  public createRoom(
+    socketId: string,
+    nameInput: string,
+    account: AccountProfile | null = null,
+    clientIdInput?: string,
+  ): OperationResult {
+    const name = sanitizePlayerName(nameInput) || account?.displayName || "";
     if (!name) {
       return { ok: false, error: "Enter a valid display name." };
     }
 
-    const roomCode = createRoomCode(new Set(this.rooms.keys()));
+    const roomCode = createRoomCode(this.roomStore.codes(), this.ownsRoomCode);
     const playerId = createPlayerId();
 
     const host: PlayerState = {
       id: playerId,
       name,
+      accountId: account?.id ?? null,
+      clientId: sanitizeClientId(clientIdInput),
+      avatarSeed: account?.avatarSeed ?? "",
       role: "player",
+      queuedForNextMatch: false,
+      isBot: false,
+      botDifficulty: null,
+      teamId: null,
       joinedAt: Date.now(),
       socketId,
       connected: true,
       score: 0,
       lastWord: "",
+      lastWordPoints: 0,
       activeTurnCount: 0,
       lives: DEFAULT_STARTING_LIVES,
       eliminated: false,
+      handicap: null,
+      powerUps: [],
+      bonusLetters: [],
     };
 
     const room: RoomState = {
@@ -106,39 +245,71 @@ export class GameService {
       phase: "lobby",
       config: {
         turnSeconds: DEFAULT_TURN_SECONDS,
+        timerMode: DEFAULT_TIMER_MODE,
         startingLives: DEFAULT_STARTING_LIVES,
         dictionaryEnabled: this.dictionary.enabled,
         showTypingPreviews: true,
         allowFourLetterChunks: false,
+        matchSeed: "",
+        scoring: { ...DEFAULT_SCORING_RULES },
+        teamMode: false,
+        teamCount: MIN_TEAMS,
+        language: DEFAULT_LANGUAGE,
+        modifiers: { ...DEFAULT_MODIFIER_RULES },
+        difficulty: getPresetDifficultyProfile("standard"),
+        adaptiveHandicap: false,
+        powerUps: { ...DEFAULT_POWER_UP_RULES },
+        bonusLetters: {
+          ...DEFAULT_BONUS_LETTER_RULES,
+          excludedLetters: [...DEFAULT_BONUS_LETTER_RULES.excludedLetters],
+        },
       },
       players: [host],
+      bannedPlayers: [],
+      teams: [],
       usedWords: new Set<string>(),
       usedWordsOrdered: [],
       activePlayerId: null,
       currentChunk: null,
       currentChunkCoverage: null,
       currentChunkTier: null,
+      currentModifiers: null,
       globalDifficultyTier: null,
       globalStageIndex: 0,
       turnNumber: 0,
       turnDurationSeconds: 0,
       turnStartedAt: null,
+      pausedTurnRemainingMs: null,
+      fuseRemainingMs: null,
       matchStartedAt: null,
       activePlayerCountAtMatchStart: 0,
       recentChunks: [],
+      matchSeed: null,
       randomState: 1,
       winnerId: null,
+      winnerTeamId: null,
       lastEvent: "Room created. Waiting for players.",
       activeTurnTyping: this.createActiveTurnTypingState(null),
+      replay: null,
+      turnHistory: [],
+      matchAnalytics: null,
+      lastExplosion: null,
+      customWordList: null,
+      allowedWords: [],
+      wordChallenge: null,
+      lastChallengeTurnNumber: 0,
+      turnDirection: 1,
+      passDoublePending: false,
+      lastPowerUpTurnNumber: 0,
       createdAt: Date.now(),
       updatedAt: Date.now(),
       emptySince: null,
     };
 
-    this.rooms.set(roomCode, room);
+    this.roomStore.set(room);
     this.bindSocketSession(socketId, roomCode, playerId);
 
-    this.io.sockets.sockets.get(socketId)?.join(roomCode);
+    this.io.in(socketId).socketsJoin(roomCode);
     this.emitTypingState(room, socketId);
 
     return {
@@ -149,9 +320,16 @@ export class GameService {
     };
   }
 
-  public joinRoom(socketId: string, roomCodeInput: string, nameInput: string): OperationResult {
+  public joinRoom(
+    socketId: string,
+    roomCodeInput: string,
+    nameInput: string,
+    account: AccountProfile | null = null,
+    clientIdInput?: string,
+  ): OperationResult {
     const roomCode = sanitizeRoomCode(roomCodeInput);
-    const name = sanitizePlayerName(nameInput);
+    const name = sanitizePlayerName(nameInput) || account?.displayName || "";
+    const clientId = sanitizeClientId(clientIdInput);
 
     if (!roomCode) {
       return { ok: false, error: "Enter a valid room code." };
@@ -161,13 +339,13 @@ export class GameService {
       return { ok: false, error: "Enter a valid display name." };
     }
 
-    const room = this.rooms.get(roomCode);
+    const room = this.roomStore.get(roomCode);
     if (!room) {
       return { ok: false, error: "Room not found." };
     }
 
-    if (room.phase !== "lobby") {
-      return { ok: false, error: "Game already started in this room." };
+    if (this.isBannedFromRoom(room, clientId, account?.id ?? null)) {
+      return { ok: false, error: "You are banned from this room." };
     }
 
     if (room.players.length >= MAX_PLAYERS_PER_ROOM) {
@@ -182,28 +360,48 @@ export class GameService {
       return { ok: false, error: "Display name already taken in this room." };
     }
 
+    if (account && room.players.some((player) => player.accountId === account.id)) {
+      return { ok: false, error: "That account is already in this room." };
+    }
+
+    // Latecomers watch the match in progress and take a seat in the rotation at the next reset.
+    const joinsMidMatch = room.phase !== "lobby";
     const playerId = createPlayerId();
     const player: PlayerState = {
       id: playerId,
       name,
-      role: "player",
+      accountId: account?.id ?? null,
+      clientId,
+      avatarSeed: account?.avatarSeed ?? "",
+      role: joinsMidMatch ? "spectator" : "player",
+      queuedForNextMatch: joinsMidMatch,
+      isBot: false,
+      botDifficulty: null,
+      teamId: null,
       joinedAt: Date.now(),
       socketId,
       connected: true,
       score: 0,
       lastWord: "",
+      lastWordPoints: 0,
       activeTurnCount: 0,
-      lives: room.config.startingLives,
+      lives: joinsMidMatch ? 0 : room.config.startingLives,
       eliminated: false,
+      handicap: null,
+      powerUps: [],
+      bonusLetters: [],
     };
 
     room.players.push(player);
+    this.syncTeamAssignments(room);
     room.emptySince = null;
     room.updatedAt = Date.now();
-    room.lastEvent = `${player.name} joined the room.`;
+    room.lastEvent = joinsMidMatch
+      ? `${player.name} is watching and will join the next match.`
+      : `${player.name} joined the room.`;
 
     this.bindSocketSession(socketId, room.code, player.id);
-    this.io.sockets.sockets.get(socketId)?.join(room.code);
+    this.io.in(socketId).socketsJoin(room.code);
 
     this.broadcastRoom(room);
     this.emitTypingState(room, socketId);
@@ -221,16 +419,25 @@ export class GameService {
     roomCodeInput: string,
     playerId: string,
     nameInput?: string,
+    clientIdInput?: string,
   ): OperationResult {
     const roomCode = sanitizeRoomCode(roomCodeInput);
-    const room = this.rooms.get(roomCode);
+    const room = this.roomStore.get(roomCode);
+    const clientId = sanitizeClientId(clientIdInput);
 
     if (!room) {
       return { ok: false, error: "Room no longer exists." };
     }
 
+    if (
+      room.bannedPlayers.some((entry) => entry.id === playerId) ||
+      this.isBannedFromRoom(room, clientId, null)
+    ) {
+      return { ok: false, error: "You are banned from this room." };
+    }
+
     const player = this.getPlayer(room, playerId);
-    if (!player) {
+    if (!player || player.isBot) {
       return { ok: false, error: "Player not found in room." };
     }
 
@@ -246,12 +453,14 @@ export class GameService {
 
     player.socketId = socketId;
     player.connected = true;
+    player.clientId ??= clientId;
 
     this.bindSocketSession(socketId, room.code, player.id);
-    this.io.sockets.sockets.get(socketId)?.join(room.code);
+    this.io.in(socketId).socketsJoin(room.code);
 
     room.emptySince = null;
     this.ensureHostIsConnected(room);
+    this.resumePausedTurn(room);
 
     if (room.phase === "in_game" && room.activePlayerId === null) {
       const next = this.getNextEligiblePlayer(room, null);
@@ -277,7 +486,7 @@ export class GameService {
 
   public updateSettings(socketId: string, payload: UpdateSettingsPayload): OperationResult {
     const roomCode = sanitizeRoomCode(payload.roomCode);
-    const room = this.rooms.get(roomCode);
+    const room = this.roomStore.get(roomCode);
 
     if (!room) {
       return { ok: false, error: "Room not found." };
@@ -293,23 +502,51 @@ export class GameService {
 
     const hasLobbyOnlyUpdates =
       typeof payload.turnSeconds === "number" ||
+      isTimerMode(payload.timerMode) ||
       typeof payload.startingLives === "number" ||
       typeof payload.dictionaryEnabled === "boolean" ||
       typeof payload.allowFourLetterChunks === "boolean" ||
-      typeof payload.hostSpectatorMode === "boolean";
+      typeof payload.matchSeed === "string" ||
+      typeof payload.scoring === "object" ||
+      typeof payload.modifiers === "object" ||
+      payload.difficulty !== undefined ||
+      typeof payload.adaptiveHandicap === "boolean" ||
+      typeof payload.powerUps === "object" ||
+      typeof payload.bonusLetters === "object" ||
+      typeof payload.teamMode === "boolean" ||
+      typeof payload.teamCount === "number" ||
+      typeof payload.hostSpectatorMode === "boolean" ||
+      payload.language !== undefined;
 
     if (hasLobbyOnlyUpdates && room.phase !== "lobby") {
       return {
         ok: false,
         error:
-          "Turn timer, lives, dictionary, chunk pool, and spectator mode can only be changed in lobby.",
+          "Turn timer, lives, dictionary, language, chunk pool, match seed, scoring, modifiers, difficulty, handicap, power-ups, bonus letters, teams, and spectator mode can only be changed in lobby.",
       };
     }
 
+    if (payload.language !== undefined) {
+      const languageError = this.getLanguageError(payload.language);
+      if (languageError) {
+        return { ok: false, error: languageError };
+      }
+    }
+
+    const difficulty =
+      payload.difficulty !== undefined ? parseDifficultyProfile(payload.difficulty) : null;
+    if (difficulty && !difficulty.profile) {
+      return { ok: false, error: difficulty.error ?? "Difficulty settings are invalid." };
+    }
+
     if (typeof payload.turnSeconds === "number") {
       room.config.turnSeconds = clampInt(payload.turnSeconds, MIN_TURN_SECONDS, MAX_TURN_SECONDS);
     }
 
+    if (isTimerMode(payload.timerMode)) {
+      room.config.timerMode = payload.timerMode;
+    }
+
     if (typeof payload.startingLives === "number") {
       room.config.startingLives = clampInt(
         payload.startingLives,
@@ -318,8 +555,17 @@ export class GameService {
       );
     }
 
+    if (isLanguageCode(payload.language) && payload.language !== room.config.language) {
+      room.config.language = payload.language;
+      // A custom list is rebuilt with the new language's letters on next use.
+      this.roomDictionaries.delete(room.code);
+      room.config.dictionaryEnabled =
+        room.config.dictionaryEnabled && this.getRoomDictionary(room).enabled;
+    }
+
     if (typeof payload.dictionaryEnabled === "boolean") {
-      room.config.dictionaryEnabled = payload.dictionaryEnabled && this.dictionary.enabled;
+      room.config.dictionaryEnabled =
+        payload.dictionaryEnabled && this.getRoomDictionary(room).enabled;
     }
 
     if (typeof payload.showTypingPreviews === "boolean") {
@@ -330,6 +576,45 @@ export class GameService {
       room.config.allowFourLetterChunks = payload.allowFourLetterChunks;
     }
 
+    if (typeof payload.matchSeed === "string") {
+      room.config.matchSeed = sanitizeMatchSeed(payload.matchSeed);
+    }
+
+    if (typeof payload.scoring === "object") {
+      room.config.scoring = mergeScoringRules(room.config.scoring, payload.scoring);
+    }
+
+    if (typeof payload.modifiers === "object") {
+      room.config.modifiers = mergeModifierRules(room.config.modifiers, payload.modifiers);
+    }
+
+    if (difficulty?.profile) {
+      room.config.difficulty = difficulty.profile;
+    }
+
+    if (typeof payload.adaptiveHandicap === "boolean") {
+      room.config.adaptiveHandicap = payload.adaptiveHandicap;
+    }
+
+    if (typeof payload.powerUps === "object") {
+      room.config.powerUps = mergePowerUpRules(room.config.powerUps, payload.powerUps);
+    }
+
+    if (typeof payload.bonusLetters === "object") {
+      room.config.bonusLetters = mergeBonusLetterRules(
+        room.config.bonusLetters,
+        payload.bonusLetters,
+      );
+    }
+
+    if (typeof payload.teamMode === "boolean") {
+      room.config.teamMode = payload.teamMode;
+    }
+
+    if (typeof payload.teamCount === "number") {
+      room.config.teamCount = clampInt(payload.teamCount, MIN_TEAMS, MAX_TEAMS);
+    }
+
     if (typeof payload.hostSpectatorMode === "boolean") {
       this.setHostSpectatorMode(room, payload.hostSpectatorMode);
       room.lastEvent = payload.hostSpectatorMode
@@ -339,6 +624,7 @@ export class GameService {
       room.lastEvent = "Host updated game settings.";
     }
 
+    this.syncTeamAssignments(room);
     room.updatedAt = Date.now();
 
     this.broadcastRoom(room);
@@ -349,9 +635,272 @@ export class GameService {
     return { ok: true, state: this.serializeRoom(room) };
   }
 
+  public addBot(socketId: string, payload: AddBotPayload): OperationResult {
+    const roomCode = sanitizeRoomCode(payload.roomCode);
+    const room = this.roomStore.get(roomCode);
+
+    if (!room) {
+      return { ok: false, error: "Room not found." };
+    }
+
+    if (!this.socketOwnsPlayer(socketId, roomCode, payload.playerId)) {
+      return { ok: false, error: "Action not allowed for this socket." };
+    }
+
+    if (room.hostId !== payload.playerId) {
+      return { ok: false, error: "Only the host can add bots." };
+    }
+
+    if (room.phase !== "lobby") {
+      return { ok: false, error: "Bots can only be added in lobby." };
+    }
+
+    if (!isBotDifficulty(payload.difficulty)) {
+      return { ok: false, error: "Choose a valid bot difficulty." };
+    }
+
+    if (room.players.length >= MAX_PLAYERS_PER_ROOM) {
+      return { ok: false, error: "Room is full." };
+    }
+
+    const name = createBotName(new Set(room.players.map((player) => player.name.toLowerCase())));
+    if (!name) {
+      return { ok: false, error: "No bot names left in this room." };
+    }
+
+    const botId = createPlayerId();
+    const botSocketId = createBotSocketId(botId);
+    const bot: PlayerState = {
+      id: botId,
+      name,
+      accountId: null,
+      clientId: null,
+      avatarSeed: "",
+      role: "player",
+      queuedForNextMatch: false,
+      isBot: true,
+      botDifficulty: payload.difficulty,
+      teamId: null,
+      joinedAt: Date.now(),
+      socketId: botSocketId,
+      connected: true,
+      score: 0,
+      lastWord: "",
+      lastWordPoints: 0,
+      activeTurnCount: 0,
+      lives: room.config.startingLives,
+      eliminated: false,
+      handicap: null,
+      powerUps: [],
+      bonusLetters: [],
+    };
+
+    room.players.push(bot);
+    this.syncTeamAssignments(room);
+    room.updatedAt = Date.now();
+    room.lastEvent = `${bot.name} joined the room.`;
+
+    this.bindSocketSession(botSocketId, room.code, bot.id);
+    this.broadcastRoom(room);
+
+    return { ok: true, state: this.serializeRoom(room) };
+  }
+
+  public removeBot(socketId: string, payload: RemoveBotPayload): OperationResult {
+    const roomCode = sanitizeRoomCode(payload.roomCode);
+    const room = this.roomStore.get(roomCode);
+
+    if (!room) {
+      return { ok: false, error: "Room not found." };
+    }
+
+    if (!this.socketOwnsPlayer(socketId, roomCode, payload.playerId)) {
+      return { ok: false, error: "Action not allowed for this socket." };
+    }
+
+    if (room.hostId !== payload.playerId) {
+      return { ok: false, error: "Only the host can remove bots." };
+    }
+
+    if (room.phase !== "lobby") {
+      return { ok: false, error: "Bots can only be removed in lobby." };
+    }
+
+    const bot = this.getPlayer(room, payload.botId);
+    if (!bot || !bot.isBot) {
+      return { ok: false, error: "Bot not found in room." };
+    }
+
+    room.players = room.players.filter((player) => player.id !== bot.id);
+    this.syncTeamAssignments(room);
+    room.updatedAt = Date.now();
+    room.lastEvent = `${bot.name} left the room.`;
+
+    this.releaseBot(bot);
+    this.broadcastRoom(room);
+
+    return { ok: true, state: this.serializeRoom(room) };
+  }
+
+  public assignTeam(socketId: string, payload: AssignTeamPayload): OperationResult {
+    const roomCode = sanitizeRoomCode(payload.roomCode);
+    const room = this.roomStore.get(roomCode);
+
+    if (!room) {
+      return { ok: false, error: "Room not found." };
+    }
+
+    if (!this.socketOwnsPlayer(socketId, roomCode, payload.playerId)) {
+      return { ok: false, error: "Action not allowed for this socket." };
+    }
+
+    if (room.hostId !== payload.playerId) {
+      return { ok: false, error: "Only the host can assign teams." };
+    }
+
+    if (room.phase !== "lobby") {
+      return { ok: false, error: "Teams can only be changed in lobby." };
+    }
+
+    if (!room.config.teamMode) {
+      return { ok: false, error: "Turn on team mode first." };
+    }
+
+    if (!isTeamId(payload.teamId, room.config.teamCount)) {
+      return { ok: false, error: "Choose a valid team." };
+    }
+
+    const target = this.getPlayer(room, payload.targetPlayerId);
+    if (!target || target.role !== "player") {
+      return { ok: false, error: "Only players in the turn rotation can join a team." };
+    }
+
+    target.teamId = payload.teamId;
+    room.updatedAt = Date.now();
+    room.lastEvent = `${target.name} joined team ${getTeamName(payload.teamId)}.`;
+
+    this.broadcastRoom(room);
+
+    return { ok: true, state: this.serializeRoom(room) };
+  }
+
+  public setWordList(socketId: string, payload: SetWordListPayload): OperationResult {
+    const roomCode = sanitizeRoomCode(payload.roomCode);
+    const room = this.roomStore.get(roomCode);
+
+    if (!room) {
+      return { ok: false, error: "Room not found." };
+    }
+
+    if (!this.socketOwnsPlayer(socketId, roomCode, payload.playerId)) {
+      return { ok: false, error: "Action not allowed for this socket." };
+    }
+
+    if (room.hostId !== payload.playerId) {
+      return { ok: false, error: "Only the host can change the word list." };
+    }
+
+    if (room.phase !== "lobby") {
+      return { ok: false, error: "Word lists can only be changed in lobby." };
+    }
+
+    if (typeof payload.text !== "string" || !payload.text.trim()) {
+      room.customWordList = null;
+      this.roomDictionaries.delete(room.code);
+      room.config.dictionaryEnabled =
+        room.config.dictionaryEnabled && this.getRoomDictionary(room).enabled;
+      room.updatedAt = Date.now();
+      room.lastEvent = "Host switched back to the standard dictionary.";
+
+      this.broadcastRoom(room);
+      return { ok: true, state: this.serializeRoom(room) };
+    }
+
+    if (payload.text.length > MAX_WORD_LIST_CHARS) {
+      return { ok: false, error: "Word list file is too large." };
+    }
+
+    const words = parseWordList(payload.text, room.config.language);
+    if (words.length < MIN_CUSTOM_WORDS) {
+      return { ok: false, error: `Word list needs at least ${MIN_CUSTOM_WORDS} valid words.` };
+    }
+
+    if (words.length > MAX_CUSTOM_WORDS) {
+      return { ok: false, error: `Word list can have at most ${MAX_CUSTOM_WORDS} words.` };
+    }
+
+    const name = sanitizeWordListName(payload.name ?? "") || "Custom list";
+    const dictionary = createWordListDictionary(
+      words,
+      `Room ${room.code} "${name}"`,
+      room.config.language,
+    );
+    if (dictionary.getChunkPool(false).poolSize < MIN_CUSTOM_CHUNK_POOL_SIZE) {
+      return { ok: false, error: "Those words share too few letter chunks to build a game." };
+    }
+
+    room.customWordList = { name, words };
+    room.config.dictionaryEnabled = true;
+    this.roomDictionaries.set(room.code, dictionary);
+    room.updatedAt = Date.now();
+    room.lastEvent = `Host loaded the ${name} word list (${words.length} words).`;
+
+    this.broadcastRoom(room);
+
+    return { ok: true, state: this.serializeRoom(room) };
+  }
+
+  public kickPlayer(socketId: string, payload: TargetPlayerPayload): OperationResult {
+    return this.moderatePlayer(socketId, payload, "kicked");
+  }
+
+  public banPlayer(socketId: string, payload: TargetPlayerPayload): OperationResult {
+    return this.moderatePlayer(socketId, payload, "banned");
+  }
+
+  public transferHost(socketId: string, payload: TargetPlayerPayload): OperationResult {
+    const roomCode = sanitizeRoomCode(payload.roomCode);
+    const room = this.roomStore.get(roomCode);
+
+    if (!room) {
+      return { ok: false, error: "Room not found." };
+    }
+
+    if (!this.socketOwnsPlayer(socketId, roomCode, payload.playerId)) {
+      return { ok: false, error: "Action not allowed for this socket." };
+    }
+
+    if (room.hostId !== payload.playerId) {
+      return { ok: false, error: "Only the host can hand off hosting." };
+    }
+
+    const target = this.getPlayer(room, payload.targetPlayerId);
+    if (!target || target.id === room.hostId) {
+      return { ok: false, error: "Choose another player to host." };
+    }
+
+    if (target.isBot || !target.connected) {
+      return { ok: false, error: "Only connected players can host." };
+    }
+
+    // Spectator mode belongs to the host seat, so the outgoing host rejoins the rotation in lobby.
+    if (room.phase === "lobby") {
+      this.setHostSpectatorMode(room, false);
+      this.syncTeamAssignments(room);
+    }
+
+    room.hostId = target.id;
+    room.updatedAt = Date.now();
+    room.lastEvent = `${target.name} is now host.`;
+
+    this.broadcastRoom(room);
+
+    return { ok: true, state: this.serializeRoom(room) };
+  }
+
   public startGame(socketId: string, payload: PlayerActionPayload): OperationResult {
     const roomCode = sanitizeRoomCode(payload.roomCode);
-    const room = this.rooms.get(roomCode);
+    const room = this.roomStore.get(roomCode);
 
     if (!room) {
       return { ok: false, error: "Room not found." };
@@ -374,38 +923,64 @@ export class GameService {
       return { ok: false, error: "Need at least 2 connected players in the turn rotation to start." };
     }
 
+    if (!this.hasEnoughSidesToStart(room)) {
+      return { ok: false, error: "Need connected players on at least 2 teams to start." };
+    }
+
     room.phase = "in_game";
     room.usedWords.clear();
     room.usedWordsOrdered = [];
     room.winnerId = null;
+    room.winnerTeamId = null;
     room.activePlayerId = null;
     room.currentChunk = null;
     room.currentChunkCoverage = null;
     room.currentChunkTier = null;
+    room.currentModifiers = null;
     room.globalDifficultyTier = null;
     room.globalStageIndex = 0;
     room.turnNumber = 0;
     room.turnDurationSeconds = 0;
     room.turnStartedAt = null;
+    room.pausedTurnRemainingMs = null;
+    room.fuseRemainingMs = null;
     room.matchStartedAt = Date.now();
     room.activePlayerCountAtMatchStart = connectedTurnPlayers.length;
     room.recentChunks = [];
-    room.randomState = createSeededRandomState(`${room.code}:${room.matchStartedAt}`);
+    room.matchSeed = room.config.matchSeed || createMatchSeed();
     room.activeTurnTyping = this.createActiveTurnTypingState(null);
 
     for (const player of room.players) {
       player.score = 0;
       player.lastWord = "";
+      player.lastWordPoints = 0;
       player.activeTurnCount = 0;
       player.lives = player.role === "player" ? room.config.startingLives : 0;
       player.eliminated = false;
-    }
+      player.handicap =
+        room.config.adaptiveHandicap && player.role === "player" ? { ...NEUTRAL_HANDICAP } : null;
+      player.powerUps = [];
+      player.bonusLetters = [];
+    }
+
+    room.teams = room.config.teamMode ? this.createMatchTeams(room) : [];
+    room.replay = createMatchReplay(room, room.matchStartedAt);
+    room.turnHistory = [];
+    room.matchAnalytics = null;
+    room.lastExplosion = null;
+    room.lastChallengeTurnNumber = 0;
+    room.turnDirection = 1;
+    room.passDoublePending = false;
+    room.lastPowerUpTurnNumber = 0;
 
     const firstActive = this.getNextEligiblePlayer(room, null);
     if (!firstActive) {
       room.phase = "lobby";
       room.matchStartedAt = null;
       room.activePlayerCountAtMatchStart = 0;
+      room.matchSeed = null;
+      room.teams = [];
+      room.replay = null;
       return { ok: false, error: "No eligible players to start the game." };
     }
 
@@ -413,7 +988,10 @@ export class GameService {
       room.phase = "lobby";
       room.matchStartedAt = null;
       room.activePlayerCountAtMatchStart = 0;
+      room.matchSeed = null;
       room.randomState = 1;
+      room.teams = [];
+      room.replay = null;
       return { ok: false, error: "Could not create a chunk pool for this match." };
     }
 
@@ -435,7 +1013,7 @@ export class GameService {
     this.lastSubmitAtBySocket.set(socketId, now);
 
     const roomCode = sanitizeRoomCode(payload.roomCode);
-    const room = this.rooms.get(roomCode);
+    const room = this.roomStore.get(roomCode);
 
     if (!room) {
       return { ok: false, error: "Room not found." };
@@ -466,35 +1044,30 @@ export class GameService {
       return { ok: false, error: "It is not your turn." };
     }
 
-    const word = sanitizeWord(payload.word);
-    if (!/^[a-z]+$/.test(word)) {
-      return { ok: false, error: "Word must contain letters A-Z only." };
-    }
-
-    if (word.length < 3) {
-      return { ok: false, error: "Word must be at least 3 letters." };
-    }
-
-    const chunk = room.currentChunk?.toLowerCase();
-    if (!chunk || !word.includes(chunk)) {
-      return { ok: false, error: `Word must include chunk "${room.currentChunk}".` };
-    }
-
-    if (room.usedWords.has(word)) {
-      return { ok: false, error: "Word already used in this match." };
+    if (room.wordChallenge) {
+      return { ok: false, error: "Wait for the challenge vote to finish." };
     }
 
-    if (room.config.dictionaryEnabled && !this.dictionary.has(word)) {
-      return { ok: false, error: "Word not found in dictionary." };
+    const word = sanitizeWord(payload.word, room.config.language);
+    const rejection = this.getWordRejection(room, word);
+    if (rejection) {
+      recordMatchEvent(room.replay, {
+        type: "word_rejected",
+        playerId: player.id,
+        word,
+        reason: rejection,
+      });
+      return {
+        ok: false,
+        error: rejection,
+        challengeable:
+          rejection === NOT_IN_DICTIONARY_ERROR &&
+          room.lastChallengeTurnNumber !== room.turnNumber &&
+          this.getChallengeVoterIds(room, player.id).length > 0,
+      };
     }
 
-    room.usedWords.add(word);
-    room.usedWordsOrdered.push(word);
-    player.score += 1;
-    player.lastWord = word.toUpperCase();
-    room.lastEvent = `${player.name} played "${word}".`;
-
-    this.advanceTurn(room, player.id);
+    this.playWord(room, player, word, now);
     room.updatedAt = Date.now();
 
     this.broadcastRoom(room);
@@ -503,9 +1076,13 @@ export class GameService {
     return { ok: true, state: this.serializeRoom(room) };
   }
 
-  public playAgain(socketId: string, payload: PlayerActionPayload): OperationResult {
+  /**
+   * Disputes a word rejected as not in the dictionary. The turn timer pauses while the other
+   * connected players vote, and each turn allows one challenge so it cannot stall the bomb.
+   */
+  public challengeWord(socketId: string, payload: SubmitWordPayload): OperationResult {
     const roomCode = sanitizeRoomCode(payload.roomCode);
-    const room = this.rooms.get(roomCode);
+    const room = this.roomStore.get(roomCode);
 
     if (!room) {
       return { ok: false, error: "Room not found." };
@@ -515,42 +1092,345 @@ export class GameService {
       return { ok: false, error: "Action not allowed for this socket." };
     }
 
-    if (room.hostId !== payload.playerId) {
-      return { ok: false, error: "Only the host can reset the match." };
+    if (room.phase !== "in_game") {
+      return { ok: false, error: "Game is not active." };
     }
 
-    if (room.phase !== "results") {
-      return { ok: false, error: "Match has not ended yet." };
+    const player = this.getPlayer(room, payload.playerId);
+    if (!player || room.activePlayerId !== player.id) {
+      return { ok: false, error: "It is not your turn." };
     }
 
-    room.phase = "lobby";
-    room.activePlayerId = null;
-    room.currentChunk = null;
-    room.currentChunkCoverage = null;
-    room.currentChunkTier = null;
-    room.globalDifficultyTier = null;
-    room.globalStageIndex = 0;
-    room.turnNumber = 0;
-    room.turnDurationSeconds = 0;
-    room.turnStartedAt = null;
-    room.matchStartedAt = null;
-    room.activePlayerCountAtMatchStart = 0;
-    room.recentChunks = [];
-    room.randomState = 1;
+    if (room.wordChallenge) {
+      return { ok: false, error: "A challenge vote is already running." };
+    }
+
+    if (room.turnStartedAt === null) {
+      return { ok: false, error: "The turn is paused." };
+    }
+
+    if (room.lastChallengeTurnNumber === room.turnNumber) {
+      return { ok: false, error: "You already challenged a word this turn." };
+    }
+
+    const word = sanitizeWord(payload.word, room.config.language);
+    if (this.getWordRejection(room, word) !== NOT_IN_DICTIONARY_ERROR) {
+      return { ok: false, error: "Only words missing from the dictionary can be challenged." };
+    }
+
+    const voterIds = this.getChallengeVoterIds(room, player.id);
+    if (voterIds.length === 0) {
+      return { ok: false, error: "No other players are here to vote." };
+    }
+
+    const now = Date.now();
+    room.pausedTurnRemainingMs = Math.max(0, this.getTurnEndsAt(room) - now);
+    room.turnStartedAt = null;
+    room.lastChallengeTurnNumber = room.turnNumber;
+    room.wordChallenge = {
+      playerId: player.id,
+      word,
+      turnNumber: room.turnNumber,
+      startedAt: now,
+      endsAt: now + CHALLENGE_VOTE_MS,
+      voterIds,
+      votes: {},
+    };
+    room.lastEvent = `${player.name} challenged "${word}". Vote to accept or reject it.`;
+    room.updatedAt = now;
+
+    this.broadcastRoom(room);
+    this.emitTypingState(room);
+
+    return { ok: true, state: this.serializeRoom(room) };
+  }
+
+  public voteOnChallenge(socketId: string, payload: ChallengeVotePayload): OperationResult {
+    const roomCode = sanitizeRoomCode(payload.roomCode);
+    const room = this.roomStore.get(roomCode);
+
+    if (!room) {
+      return { ok: false, error: "Room not found." };
+    }
+
+    if (!this.socketOwnsPlayer(socketId, roomCode, payload.playerId)) {
+      return { ok: false, error: "Action not allowed for this socket." };
+    }
+
+    const challenge = room.wordChallenge;
+    if (room.phase !== "in_game" || !challenge) {
+      return { ok: false, error: "No challenge vote is running." };
+    }
+
+    if (!challenge.voterIds.includes(payload.playerId)) {
+      return { ok: false, error: "You cannot vote on this challenge." };
+    }
+
+    if (typeof payload.accept !== "boolean") {
+      return { ok: false, error: "Vote to accept or reject the word." };
+    }
+
+    challenge.votes[payload.playerId] = payload.accept;
+    room.updatedAt = Date.now();
+
+    if (isChallengeSettled(challenge)) {
+      this.resolveWordChallenge(room);
+    }
+
+    this.broadcastRoom(room);
+    this.emitTypingState(room);
+
+    return { ok: true, state: this.serializeRoom(room) };
+  }
+
+  /**
+   * Spends one of the active player's charges. Only one power-up can be used per turn, and
+   * never while the turn is paused or a challenge vote is running.
+   */
+  public usePowerUp(socketId: string, payload: UsePowerUpPayload): OperationResult {
+    const roomCode = sanitizeRoomCode(payload.roomCode);
+    const room = this.roomStore.get(roomCode);
+
+    if (!room) {
+      return { ok: false, error: "Room not found." };
+    }
+
+    if (!this.socketOwnsPlayer(socketId, roomCode, payload.playerId)) {
+      return { ok: false, error: "Action not allowed for this socket." };
+    }
+
+    if (room.phase !== "in_game") {
+      return { ok: false, error: "Game is not active." };
+    }
+
+    if (!room.config.powerUps.enabled) {
+      return { ok: false, error: "Power-ups are off in this room." };
+    }
+
+    const player = this.getPlayer(room, payload.playerId);
+    if (!player || room.activePlayerId !== player.id) {
+      return { ok: false, error: "It is not your turn." };
+    }
+
+    if (room.wordChallenge) {
+      return { ok: false, error: "Wait for the challenge vote to finish." };
+    }
+
+    if (room.turnStartedAt === null) {
+      return { ok: false, error: "The turn is paused." };
+    }
+
+    if (room.lastPowerUpTurnNumber === room.turnNumber) {
+      return { ok: false, error: "You already used a power-up this turn." };
+    }
+
+    const powerUp = payload.powerUp;
+    const chargeIndex = isPowerUpKind(powerUp) ? player.powerUps.indexOf(powerUp) : -1;
+    if (!isPowerUpKind(powerUp) || chargeIndex === -1) {
+      return { ok: false, error: "You do not have that power-up." };
+    }
+
+    if (powerUp === "skipChunk") {
+      if (!this.rerollCurrentChunk(room)) {
+        return { ok: false, error: "No other chunk is available to skip to." };
+      }
+    } else if (powerUp === "extraTime") {
+      room.turnDurationSeconds += EXTRA_TIME_SECONDS;
+    } else if (powerUp === "reverseOrder") {
+      room.turnDirection = room.turnDirection === 1 ? -1 : 1;
+    } else {
+      room.passDoublePending = true;
+    }
+
+    player.powerUps.splice(chargeIndex, 1);
+    room.lastPowerUpTurnNumber = room.turnNumber;
+    room.lastEvent = `${player.name} used ${POWER_UP_NAMES[powerUp]}.`;
+    room.updatedAt = Date.now();
+    recordMatchEvent(room.replay, {
+      type: "power_up",
+      playerId: player.id,
+      powerUp,
+      ...(powerUp === "skipChunk" && room.currentChunk && room.currentChunkTier
+        ? { chunk: room.currentChunk, tier: room.currentChunkTier }
+        : {}),
+      ...(powerUp === "extraTime" ? { durationMs: room.turnDurationSeconds * 1000 } : {}),
+    });
+
+    this.broadcastRoom(room);
+    this.emitTypingState(room);
+
+    return { ok: true, state: this.serializeRoom(room) };
+  }
+
+  /**
+   * Scores an accepted word and passes the bomb, or ends a points race once the target is hit.
+   * Shared by regular submissions and words let through by a challenge vote.
+   */
+  private playWord(room: RoomState, player: PlayerState, word: string, now: number): void {
+    const rules = room.config.scoring;
+    const points = scoreWord(rules, {
+      word,
+      chunkTier: room.currentChunkTier,
+      remainingMs: Math.max(0, this.getTurnEndsAt(room) - now),
+      turnDurationMs: room.turnDurationSeconds * 1000,
+    }).total;
+
+    room.usedWords.add(word);
+    room.usedWordsOrdered.push(word);
+    player.score += points;
+    player.lastWord = toUpperWord(word);
+    player.lastWordPoints = points;
+    room.lastEvent = hasScoringBonuses(rules)
+      ? `${player.name} played "${word}" for ${points} ${points === 1 ? "point" : "points"}.`
+      : `${player.name} played "${word}".`;
+    if (earnsPowerUp(room.config.powerUps, word, room.currentChunkTier, player.powerUps.length)) {
+      const powerUp = rollPowerUp(() => this.nextRandom(room));
+      player.powerUps.push(powerUp);
+      room.lastEvent = `${room.lastEvent} Earned ${POWER_UP_NAMES[powerUp]}.`;
+    }
+    this.awardBonusLetters(room, player, word);
+    recordMatchEvent(room.replay, { type: "word_accepted", playerId: player.id, word, points });
+    this.resolveTurnRecord(room, "word", { word, points, now });
+
+    const raceScore = room.config.teamMode ? getTeamScore(room.players, player.teamId) : player.score;
+    if (rules.winCondition === "pointsRace" && raceScore >= rules.targetScore) {
+      this.finishGame(room, player);
+    } else {
+      this.advanceTurn(room, player.id);
+    }
+  }
+
+  /**
+   * Adds the word's letters to the player's alphabet. Completing it grants a life, shared by
+   * the whole team in team mode, unless the lives are already at the room's cap.
+   */
+  private awardBonusLetters(room: RoomState, player: PlayerState, word: string): void {
+    const rules = room.config.bonusLetters;
+    if (!rules.enabled) {
+      return;
+    }
+
+    const progress = collectBonusLetters(rules, player.bonusLetters, word);
+    player.bonusLetters = progress.letters;
+    if (!progress.completed) {
+      return;
+    }
+
+    const team = this.getTeam(room, player.teamId);
+    const members = team ? getTeamMembers(room.players, team.id) : [player];
+    const lives = team ? team.lives : player.lives;
+    if (lives >= rules.maxLives * members.length) {
+      room.lastEvent = `${room.lastEvent} ${player.name} completed the alphabet at full lives.`;
+      return;
+    }
+
+    if (team) {
+      team.lives += 1;
+    }
+    members.forEach((member) => {
+      member.lives = lives + 1;
+    });
+    room.lastEvent = `${room.lastEvent} ${player.name} completed the alphabet for an extra life.`;
+    recordMatchEvent(room.replay, { type: "bonus_life", playerId: player.id, lives: lives + 1 });
+  }
+
+  public getReplay(socketId: string, payload: PlayerActionPayload): OperationResult {
+    const roomCode = sanitizeRoomCode(payload.roomCode);
+    const room = this.roomStore.get(roomCode);
+
+    if (!room) {
+      return { ok: false, error: "Room not found." };
+    }
+
+    if (!this.socketOwnsPlayer(socketId, roomCode, payload.playerId)) {
+      return { ok: false, error: "Action not allowed for this socket." };
+    }
+
+    if (!room.replay || room.replay.endedAt === null) {
+      return { ok: false, error: "No finished match to replay yet." };
+    }
+
+    return { ok: true, roomCode: room.code, replay: room.replay };
+  }
+
+  public playAgain(socketId: string, payload: PlayerActionPayload): OperationResult {
+    const roomCode = sanitizeRoomCode(payload.roomCode);
+    const room = this.roomStore.get(roomCode);
+
+    if (!room) {
+      return { ok: false, error: "Room not found." };
+    }
+
+    if (!this.socketOwnsPlayer(socketId, roomCode, payload.playerId)) {
+      return { ok: false, error: "Action not allowed for this socket." };
+    }
+
+    if (room.hostId !== payload.playerId) {
+      return { ok: false, error: "Only the host can reset the match." };
+    }
+
+    if (room.phase !== "results") {
+      return { ok: false, error: "Match has not ended yet." };
+    }
+
+    room.phase = "lobby";
+    this.pinnedDictionaries.delete(room.code);
+    room.activePlayerId = null;
+    room.currentChunk = null;
+    room.currentChunkCoverage = null;
+    room.currentChunkTier = null;
+    room.currentModifiers = null;
+    room.globalDifficultyTier = null;
+    room.globalStageIndex = 0;
+    room.turnNumber = 0;
+    room.turnDurationSeconds = 0;
+    room.turnStartedAt = null;
+    room.pausedTurnRemainingMs = null;
+    room.fuseRemainingMs = null;
+    room.matchStartedAt = null;
+    room.activePlayerCountAtMatchStart = 0;
+    room.recentChunks = [];
+    room.matchSeed = null;
+    room.randomState = 1;
     room.winnerId = null;
+    room.winnerTeamId = null;
+    room.teams = [];
     room.usedWords.clear();
     room.usedWordsOrdered = [];
+    room.turnHistory = [];
+    room.matchAnalytics = null;
+    room.lastExplosion = null;
+    room.wordChallenge = null;
+    room.lastChallengeTurnNumber = 0;
+    room.turnDirection = 1;
+    room.passDoublePending = false;
+    room.lastPowerUpTurnNumber = 0;
     room.activeTurnTyping = this.createActiveTurnTypingState(null);
 
+    const seatedPlayers: string[] = [];
     for (const player of room.players) {
+      if (player.queuedForNextMatch) {
+        player.role = "player";
+        player.queuedForNextMatch = false;
+        seatedPlayers.push(player.name);
+      }
+
       player.score = 0;
       player.lastWord = "";
+      player.lastWordPoints = 0;
       player.activeTurnCount = 0;
       player.lives = player.role === "player" ? room.config.startingLives : 0;
       player.eliminated = false;
+      player.handicap = null;
+      player.powerUps = [];
+      player.bonusLetters = [];
     }
+    this.syncTeamAssignments(room);
 
-    room.lastEvent = "Match reset. Host can start a new game.";
+    room.lastEvent =
+      seatedPlayers.length > 0
+        ? `Match reset. ${seatedPlayers.join(", ")} joined the rotation.`
+        : "Match reset. Host can start a new game.";
     room.updatedAt = Date.now();
 
     this.broadcastRoom(room);
@@ -566,7 +1446,7 @@ export class GameService {
     }
 
     const roomCode = sanitizeRoomCode(payload?.roomCode ?? "");
-    const room = this.rooms.get(roomCode);
+    const room = this.roomStore.get(roomCode);
     if (!room || room.phase !== "in_game") {
       return;
     }
@@ -585,7 +1465,7 @@ export class GameService {
       return;
     }
 
-    const preview = sanitizeTypingPreview(payload?.preview ?? "");
+    const preview = sanitizeTypingPreview(payload?.preview ?? "", room.config.language);
     const activePlayerId = room.activePlayerId;
     const hasChanged =
       room.activeTurnTyping.playerId !== activePlayerId ||
@@ -603,6 +1483,7 @@ export class GameService {
       updatedAt: now,
     };
     room.updatedAt = now;
+    recordMatchEvent(room.replay, { type: "typing", playerId: activePlayerId, preview }, now);
     this.emitTypingState(room);
   }
 
@@ -616,7 +1497,7 @@ export class GameService {
       return;
     }
 
-    const room = this.rooms.get(session.roomCode);
+    const room = this.roomStore.get(session.roomCode);
     if (!room) {
       return;
     }
@@ -640,16 +1521,22 @@ export class GameService {
     if (room.phase === "in_game") {
       if (room.activePlayerId === player.id) {
         room.lastEvent = `${player.name} disconnected. Bomb moved to next player.`;
+        recordMatchEvent(room.replay, {
+          type: "turn_skipped",
+          playerId: player.id,
+          reason: "disconnected",
+        });
+        this.resolveTurnRecord(room, "skipped");
         this.advanceTurn(room, player.id);
       } else {
         const eligible = this.getEligiblePlayers(room);
-        if (eligible.length <= 1) {
+        if (this.countLiveSides(room, eligible) <= 1) {
           this.finishGame(room, eligible[0] ?? null);
         }
       }
     }
 
-    const connectedCount = room.players.filter((entry) => entry.connected).length;
+    const connectedCount = room.players.filter((entry) => entry.connected && !entry.isBot).length;
     room.emptySince = connectedCount === 0 ? Date.now() : null;
     room.updatedAt = Date.now();
 
@@ -657,11 +1544,35 @@ export class GameService {
     this.emitTypingState(room);
   }
 
+  /**
+   * Swaps in a reloaded server dictionary and rebuilds the other languages listed. Lobbies pick
+   * them up right away, while rooms that have already started keep the one they began with until
+   * the host returns them to the lobby. Returns how many rooms are still pinned to an older
+   * dictionary.
+   */
+  public replaceDictionary(dictionary: Dictionary, languages: readonly LanguageCode[]): number {
+    for (const room of this.roomStore.values()) {
+      const started = room.phase !== "lobby" && !room.customWordList;
+      if (
+        started &&
+        languages.includes(room.config.language) &&
+        !this.pinnedDictionaries.has(room.code)
+      ) {
+        this.pinnedDictionaries.set(room.code, this.getRoomDictionary(room));
+      }
+    }
+
+    this.dictionary = dictionary;
+    this.loadLanguageDictionaries(languages);
+    return this.pinnedDictionaries.size;
+  }
+
   public toAck(result: OperationResult): AckResponse {
     if (!result.ok) {
       return {
         ok: false,
         error: result.error ?? "Unknown error.",
+        challengeable: result.challengeable,
       };
     }
 
@@ -670,15 +1581,125 @@ export class GameService {
       roomCode: result.roomCode,
       playerId: result.playerId,
       state: result.state,
+      replay: result.replay,
     };
   }
 
+  // Display names are not identities, so bans follow the banned browser and, if signed in, account.
+  private isBannedFromRoom(
+    room: RoomState,
+    clientId: string | null,
+    accountId: string | null,
+  ): boolean {
+    return room.bannedPlayers.some(
+      (entry) =>
+        (clientId !== null && entry.clientId === clientId) ||
+        (accountId !== null && entry.accountId === accountId),
+    );
+  }
+
+  private moderatePlayer(
+    socketId: string,
+    payload: TargetPlayerPayload,
+    reason: RoomRemovedPayload["reason"],
+  ): OperationResult {
+    const roomCode = sanitizeRoomCode(payload.roomCode);
+    const room = this.roomStore.get(roomCode);
+
+    if (!room) {
+      return { ok: false, error: "Room not found." };
+    }
+
+    if (!this.socketOwnsPlayer(socketId, roomCode, payload.playerId)) {
+      return { ok: false, error: "Action not allowed for this socket." };
+    }
+
+    if (room.hostId !== payload.playerId) {
+      return { ok: false, error: `Only the host can ${reason === "banned" ? "ban" : "kick"} players.` };
+    }
+
+    const target = this.getPlayer(room, payload.targetPlayerId);
+    if (!target || target.isBot) {
+      return { ok: false, error: "Player not found in room." };
+    }
+
+    if (target.id === room.hostId) {
+      return { ok: false, error: "The host cannot remove themselves." };
+    }
+
+    if (reason === "banned") {
+      room.bannedPlayers.push({
+        id: target.id,
+        name: target.name,
+        accountId: target.accountId,
+        clientId: target.clientId,
+      });
+    }
+
+    // Set before removal so a match that ends as a result can still announce its winner.
+    room.lastEvent = `${target.name} was ${reason} by the host.`;
+    this.removePlayer(room, target);
+
+    if (target.socketId) {
+      const notice: RoomRemovedPayload = { roomCode: room.code, reason };
+      this.io.to(target.socketId).emit("room:removed", notice);
+      this.io.in(target.socketId).socketsLeave(room.code);
+    }
+
+    room.updatedAt = Date.now();
+    this.broadcastRoom(room);
+    this.emitTypingState(room);
+
+    return { ok: true, state: this.serializeRoom(room) };
+  }
+
+  /**
+   * Drops a player mid-room. A bomb holder is passed over before they leave the roster, since
+   * turn order is resolved from their seat; anyone else leaving can still end the match.
+   */
+  private removePlayer(room: RoomState, target: PlayerState): void {
+    if (target.socketId) {
+      this.socketSessions.delete(target.socketId);
+      this.lastSubmitAtBySocket.delete(target.socketId);
+      this.typingEventTimesBySocket.delete(target.socketId);
+    }
+
+    if (room.phase === "in_game" && room.activePlayerId === target.id) {
+      target.connected = false;
+      recordMatchEvent(room.replay, {
+        type: "turn_skipped",
+        playerId: target.id,
+        reason: "removed",
+      });
+      this.resolveTurnRecord(room, "skipped");
+      this.advanceTurn(room, target.id);
+    }
+
+    room.players = room.players.filter((player) => player.id !== target.id);
+    this.syncTeamAssignments(room);
+
+    if (room.phase === "in_game") {
+      const eligible = this.getEligiblePlayers(room);
+      if (this.countLiveSides(room, eligible) <= 1) {
+        this.finishGame(room, eligible[0] ?? null);
+      }
+    }
+  }
+
   private tick(): void {
-    for (const room of this.rooms.values()) {
+    for (const room of this.roomStore.values()) {
       if (room.phase !== "in_game") {
         continue;
       }
 
+      if (room.wordChallenge && Date.now() >= room.wordChallenge.endsAt) {
+        this.resolveWordChallenge(room);
+        room.updatedAt = Date.now();
+        this.broadcastRoom(room);
+        this.emitTypingState(room);
+        continue;
+      }
+
       if (!room.activePlayerId || room.turnStartedAt === null || room.turnDurationSeconds <= 0) {
         continue;
       }
@@ -698,6 +1719,12 @@ export class GameService {
     const active = this.getPlayer(room, room.activePlayerId);
 
     if (!active || !active.connected || active.role !== "player" || active.eliminated) {
+      recordMatchEvent(room.replay, {
+        type: "turn_skipped",
+        playerId: room.activePlayerId,
+        reason: "unavailable",
+      });
+      this.resolveTurnRecord(room, "skipped");
       this.advanceTurn(room, room.activePlayerId);
       if (room.phase === "in_game") {
         room.lastEvent = "Bomb moved because active player was unavailable.";
@@ -708,28 +1735,183 @@ export class GameService {
       return;
     }
 
+    if (room.config.scoring.winCondition === "pointsRace") {
+      // Points races are decided by score, so running out of time only costs the turn.
+      recordMatchEvent(room.replay, {
+        type: "explosion",
+        playerId: active.id,
+        livesLeft: active.lives,
+      });
+      room.lastEvent = `${active.name} ran out of time.`;
+      this.resolveTurnRecord(room, "explosion");
+      this.advanceTurn(room, active.id);
+      room.updatedAt = Date.now();
+      this.broadcastRoom(room);
+      this.emitTypingState(room);
+      return;
+    }
+
+    const team = room.config.teamMode ? this.getTeam(room, active.teamId) : undefined;
+    if (team) {
+      this.explodeTeam(room, team, active);
+      this.resolveTurnRecord(room, "explosion");
+      this.advanceTurn(room, active.id);
+      room.updatedAt = Date.now();
+      this.broadcastRoom(room);
+      this.emitTypingState(room);
+      return;
+    }
+
     active.lives = Math.max(0, active.lives - 1);
+    recordMatchEvent(room.replay, { type: "explosion", playerId: active.id, livesLeft: active.lives });
 
     if (active.lives === 0) {
       active.lives = 0;
       active.eliminated = true;
       room.lastEvent = `${active.name} exploded and was eliminated.`;
+      recordMatchEvent(room.replay, { type: "elimination", playerId: active.id });
     } else {
       room.lastEvent = `${active.name} exploded and lost a life.`;
     }
 
+    this.resolveTurnRecord(room, "explosion");
     this.advanceTurn(room, active.id);
     room.updatedAt = Date.now();
     this.broadcastRoom(room);
     this.emitTypingState(room);
   }
 
+  private restoreRoom(room: RoomState): void {
+    const now = Date.now();
+
+    for (const player of room.players) {
+      if (player.isBot) {
+        player.socketId = createBotSocketId(player.id);
+        player.connected = true;
+        this.bindSocketSession(player.socketId, room.code, player.id);
+        continue;
+      }
+
+      player.socketId = null;
+      player.connected = false;
+    }
+
+    if (room.phase === "in_game" && room.turnStartedAt !== null) {
+      room.pausedTurnRemainingMs = Math.max(0, this.getTurnEndsAt(room) - now);
+      room.turnStartedAt = null;
+    }
+
+    room.activeTurnTyping = this.createActiveTurnTypingState(room.activePlayerId);
+    // The turn stays paused until players reconnect, so an interrupted vote is simply dropped.
+    room.wordChallenge = null;
+    if (!this.availableLanguages.includes(room.config.language)) {
+      room.config.language = DEFAULT_LANGUAGE;
+    }
+    room.emptySince = now;
+    room.updatedAt = now;
+    room.lastEvent = "Server restarted. Waiting for players to reconnect.";
+  }
+
+  private resumePausedTurn(room: RoomState): void {
+    if (room.phase !== "in_game" || room.pausedTurnRemainingMs === null || room.wordChallenge) {
+      return;
+    }
+
+    if (this.getEligiblePlayers(room).length < MIN_PLAYERS_TO_START) {
+      return;
+    }
+
+    const elapsedMs = Math.max(0, room.turnDurationSeconds * 1000 - room.pausedTurnRemainingMs);
+    room.turnStartedAt = Date.now() - elapsedMs;
+    room.pausedTurnRemainingMs = null;
+    room.lastEvent = "Players are back. The bomb is ticking again.";
+    this.scheduleBotTurn(room);
+  }
+
+  private getChallengeVoterIds(room: RoomState, challengerId: string): string[] {
+    return room.players
+      .filter(
+        (player) =>
+          player.id !== challengerId &&
+          player.role === "player" &&
+          player.connected &&
+          !player.isBot,
+      )
+      .map((player) => player.id);
+  }
+
+  /**
+   * Closes the vote and restarts the paused turn clock. An accepted word joins the room's
+   * allowlist for the rest of its matches and is played for the challenger straight away.
+   */
+  private resolveWordChallenge(room: RoomState): void {
+    const challenge = room.wordChallenge;
+    if (!challenge) {
+      return;
+    }
+
+    const now = Date.now();
+    const accepted = isChallengeAccepted(challenge);
+    const { acceptVotes, rejectVotes } = tallyChallengeVotes(challenge);
+    const challenger = this.getPlayer(room, challenge.playerId);
+    const elapsedMs = Math.max(
+      0,
+      room.turnDurationSeconds * 1000 - (room.pausedTurnRemainingMs ?? 0),
+    );
+
+    room.wordChallenge = null;
+    room.turnStartedAt = now - elapsedMs;
+    room.pausedTurnRemainingMs = null;
+    recordMatchEvent(room.replay, {
+      type: "word_challenge",
+      playerId: challenge.playerId,
+      word: challenge.word,
+      accepted,
+      acceptVotes,
+      rejectVotes,
+      pausedMs: now - challenge.startedAt,
+    });
+
+    if (!accepted) {
+      room.lastEvent = `The room rejected "${challenge.word}" (${acceptVotes}-${rejectVotes}).`;
+      return;
+    }
+
+    if (!room.allowedWords.includes(challenge.word)) {
+      room.allowedWords.push(challenge.word);
+    }
+
+    this.challengeLog.record({
+      word: challenge.word,
+      roomCode: room.code,
+      playerName: challenger?.name ?? "Unknown player",
+      acceptVotes,
+      rejectVotes,
+      acceptedAt: now,
+    });
+
+    if (
+      challenger &&
+      challenger.connected &&
+      room.activePlayerId === challenger.id &&
+      !this.getWordRejection(room, challenge.word)
+    ) {
+      this.playWord(room, challenger, challenge.word, now);
+      return;
+    }
+
+    room.lastEvent = `The room accepted "${challenge.word}" (${acceptVotes}-${rejectVotes}).`;
+  }
+
   private cleanupRooms(): void {
     const now = Date.now();
 
-    for (const [roomCode, room] of this.rooms.entries()) {
+    for (const room of this.roomStore.values()) {
       if (room.emptySince !== null && now - room.emptySince > EMPTY_ROOM_TTL_MS) {
-        this.rooms.delete(roomCode);
+        room.players.filter((player) => player.isBot).forEach((bot) => this.releaseBot(bot));
+        this.roomDictionaries.delete(room.code);
+        this.pinnedDictionaries.delete(room.code);
+        this.roomStore.delete(room.code);
       }
     }
   }
@@ -737,7 +1919,7 @@ export class GameService {
   private advanceTurn(room: RoomState, fromPlayerId: string | null): void {
     const eligible = this.getEligiblePlayers(room);
 
-    if (eligible.length <= 1) {
+    if (this.countLiveSides(room, eligible) <= 1) {
       this.finishGame(room, eligible[0] ?? null);
       return;
     }
@@ -754,18 +1936,27 @@ export class GameService {
     }
   }
 
-  private finishGame(room: RoomState, winner: PlayerState | null): void {
+  private finishGame(room: RoomState, survivor: PlayerState | null): void {
+    const winner = this.resolveWinner(room, survivor);
+    finishMatchReplay(room.replay, winner?.id ?? null);
+    this.recordAccountStats(room, winner);
+    room.matchAnalytics = buildMatchAnalytics(room.turnHistory, room.players);
     room.phase = "results";
     room.winnerId = winner?.id ?? null;
+    room.winnerTeamId = room.config.teamMode ? winner?.teamId ?? null : null;
     room.activePlayerId = null;
     room.currentChunk = null;
     room.currentChunkCoverage = null;
     room.currentChunkTier = null;
+    room.currentModifiers = null;
     room.globalDifficultyTier = null;
     room.globalStageIndex = 0;
     room.turnNumber = 0;
     room.turnDurationSeconds = 0;
     room.turnStartedAt = null;
+    room.pausedTurnRemainingMs = null;
+    room.fuseRemainingMs = null;
+    room.wordChallenge = null;
     room.matchStartedAt = null;
     room.activePlayerCountAtMatchStart = 0;
     room.recentChunks = [];
@@ -773,7 +1964,76 @@ export class GameService {
     room.activeTurnTyping = this.createActiveTurnTypingState(null);
     room.updatedAt = Date.now();
 
-    room.lastEvent = winner ? `${winner.name} wins the match.` : "Match ended.";
+    const winnerTeam = this.getTeam(room, room.winnerTeamId);
+    room.lastEvent = winnerTeam
+      ? `Team ${winnerTeam.name} wins the match.`
+      : winner
+        ? `${winner.name} wins the match.`
+        : "Match ended.";
+  }
+
+  /**
+   * Credits lifetime stats to signed-in players who started the match. Words come from the
+   * replay so players who dropped out mid-match still get credit for what they played.
+   */
+  private recordAccountStats(room: RoomState, winner: PlayerState | null): void {
+    const replay = room.replay;
+    if (!replay) {
+      return;
+    }
+
+    for (const participant of replay.players) {
+      const player = this.getPlayer(room, participant.id);
+      if (!player?.accountId || participant.role !== "player") {
+        continue;
+      }
+
+      const won = room.config.teamMode
+        ? winner !== null && winner.teamId === player.teamId
+        : winner?.id === player.id;
+
+      this.accounts.recordMatch(player.accountId, {
+        ...summarizeReplayForPlayer(replay, room.turnHistory, player.id),
+        won,
+        points: player.score,
+      });
+    }
+  }
+
+  private resolveWinner(room: RoomState, survivor: PlayerState | null): PlayerState | null {
+    if (room.config.scoring.winCondition !== "pointsRace") {
+      return survivor;
+    }
+
+    if (room.config.teamMode) {
+      const bestTeam = room.teams.reduce<TeamState | null>((best, team) => {
+        const score = getTeamScore(room.players, team.id);
+        if (!best || score > getTeamScore(room.players, best.id)) {
+          return team;
+        }
+
+        return score === getTeamScore(room.players, best.id) && team.id === survivor?.teamId
+          ? team
+          : best;
+      }, null);
+
+      if (!bestTeam) {
+        return survivor;
+      }
+
+      return survivor?.teamId === bestTeam.id
+        ? survivor
+        : getTeamMembers(room.players, bestTeam.id)[0] ?? survivor;
+    }
+
+    // Highest score wins a points race; the survivor only breaks ties.
+    return this.getPlayersInRotation(room).reduce<PlayerState | null>((best, player) => {
+      if (!best || player.score > best.score) {
+        return player;
+      }
+
+      return player.score === best.score && player.id === survivor?.id ? player : best;
+    }, null);
   }
 
   private beginTurn(room: RoomState, activePlayerId: string, turnNumber: number): boolean {
@@ -787,28 +2047,169 @@ export class GameService {
       return false;
     }
 
+    // Each turn draws from its own seed-derived stream, so randomness used on earlier turns never
+    // shifts it. What the stream picks from still depends on the room: its settings and starting
+    // player count, the cooldown, chunks worn down by played words, and handicap tier shifts.
+    room.randomState = createSeededRandomState(`${room.matchSeed ?? room.code}:${turnNumber}`);
+    if (room.config.adaptiveHandicap) {
+      activePlayer.handicap = computePlayerHandicap(room.turnHistory, activePlayer.id);
+    }
     const difficultyTarget = this.getDifficultyTarget(room, activePlayer.id, chunkPool);
-    const selectedChunk = this.selectNextChunk(room, chunkPool, difficultyTarget.targetTier);
+    const selectedChunk = this.selectNextChunk(room, chunkPool, difficultyTarget.playerTier);
     if (!selectedChunk) {
       return false;
     }
+    const remainingCoverage = this.getRemainingCoverage(
+      room,
+      selectedChunk.chunk,
+      selectedChunk.coverage,
+    );
+    const modifiers = this.rollPlayableModifiers(
+      room,
+      selectedChunk.chunk,
+      difficultyTarget.stageIndex,
+    );
 
     activePlayer.activeTurnCount += 1;
+    const activeTeam = this.getTeam(room, activePlayer.teamId);
+    if (activeTeam) {
+      activeTeam.lastActivePlayerId = activePlayer.id;
+    }
     room.activePlayerId = activePlayerId;
     room.currentChunk = selectedChunk.chunk;
-    room.currentChunkCoverage = selectedChunk.coverage;
+    room.currentChunkCoverage = remainingCoverage;
     room.currentChunkTier = selectedChunk.tier;
+    room.currentModifiers = modifiers;
     room.globalDifficultyTier = difficultyTarget.targetTier;
     room.globalStageIndex = difficultyTarget.stageIndex;
     room.turnNumber = turnNumber;
-    room.turnDurationSeconds = this.computeTurnDurationSeconds(room, turnNumber);
+    room.turnDurationSeconds = this.computeTurnDurationSeconds(room, activePlayer, turnNumber);
+    if (room.passDoublePending) {
+      room.turnDurationSeconds = Math.max(MIN_FUSE_TURN_MS / 1000, room.turnDurationSeconds / 2);
+      room.passDoublePending = false;
+    }
     room.turnStartedAt = Date.now();
+    room.pausedTurnRemainingMs = null;
+    room.wordChallenge = null;
     room.recentChunks = [...room.recentChunks.slice(-(CHUNK_COOLDOWN_TURNS - 1)), selectedChunk.chunk];
     this.resetActiveTurnTyping(room, activePlayerId);
+    recordMatchEvent(room.replay, {
+      type: "turn_start",
+      turnNumber,
+      playerId: activePlayerId,
+      chunk: selectedChunk.chunk,
+      tier: selectedChunk.tier,
+      coverage: remainingCoverage,
+      durationMs: room.turnDurationSeconds * 1000,
+      modifiers,
+    });
+    room.turnHistory.push({
+      turnNumber,
+      playerId: activePlayerId,
+      chunk: selectedChunk.chunk,
+      tier: selectedChunk.tier,
+      livesAtStart: snapshotRotationLives(room.players),
+      outcome: null,
+      word: null,
+      points: 0,
+      responseMs: null,
+      eliminatedPlayerIds: [],
+      missedExamples: [],
+    });
+    this.scheduleBotTurn(room);
 
     return true;
   }
 
+  /**
+   * Closes the history entry for the turn in progress. Callers resolve before advancing, so
+   * the last entry is always the turn the outcome belongs to.
+   */
+  private resolveTurnRecord(
+    room: RoomState,
+    outcome: TurnOutcome,
+    answer?: { word: string; points: number; now: number },
+  ): void {
+    const record = room.turnHistory[room.turnHistory.length - 1];
+    if (!record || record.outcome !== null) {
+      return;
+    }
+
+    this.carryFuse(room, outcome, answer?.now ?? Date.now());
+
+    record.outcome = outcome;
+    record.word = answer?.word ?? null;
+    record.points = answer?.points ?? 0;
+    record.responseMs =
+      answer && room.turnStartedAt !== null ? Math.max(0, answer.now - room.turnStartedAt) : null;
+    record.eliminatedPlayerIds = room.players
+      .filter((player) => player.eliminated && (record.livesAtStart[player.id] ?? 0) > 0)
+      .map((player) => player.id);
+
+    if (outcome === "explosion") {
+      record.missedExamples = this.getExplosionHintWords(room, record.chunk);
+      room.lastExplosion = {
+        playerId: record.playerId,
+        turnNumber: record.turnNumber,
+        chunk: record.chunk,
+        examples: record.missedExamples,
+      };
+    }
+  }
+
+  private getExplosionHintWords(room: RoomState, chunk: string): string[] {
+    const modifiers = room.currentModifiers ?? PLAIN_TURN_MODIFIERS;
+    const samples = this.getRoomDictionary(room).sampleWordsContaining(
+      chunk,
+      EXPLOSION_HINT_SAMPLE_SIZE,
+      {
+        excluding: room.usedWords,
+        accept: (word) => matchesTurnModifiers(modifiers, word, chunk),
+      },
+    );
+
+    // Shorter words are usually the familiar ones, so they make the more useful hints.
+    return samples.sort((left, right) => left.length - right.length).slice(0, EXPLOSION_HINT_WORDS);
+  }
+
+  private getWordRejection(room: RoomState, word: string): string | null {
+    if (!word || ![...word].every((char) => isLanguageLetter(char, room.config.language))) {
+      return "Word must contain letters only.";
+    }
+
+    if (word.length < MIN_WORD_LENGTH) {
+      return `Word must be at least ${MIN_WORD_LENGTH} letters.`;
+    }
+
+    const chunk = room.currentChunk;
+    if (!chunk || !word.includes(chunk.toLowerCase())) {
+      return `Word must include chunk "${chunk}".`;
+    }
+
+    const modifierRejection = getModifierRejection(
+      room.currentModifiers ?? PLAIN_TURN_MODIFIERS,
+      word,
+      chunk,
+    );
+    if (modifierRejection) {
+      return modifierRejection;
+    }
+
+    if (room.usedWords.has(word)) {
+      return "Word already used in this match.";
+    }
+
+    if (
+      room.config.dictionaryEnabled &&
+      !this.getRoomDictionary(room).has(word) &&
+      !room.allowedWords.includes(word)
+    ) {
+      return NOT_IN_DICTIONARY_ERROR;
+    }
+
+    return null;
+  }
+
   private getDifficultyTarget(
     room: RoomState,
     incomingActivePlayerId: string,
@@ -826,26 +2227,32 @@ export class GameService {
       return sum + player.activeTurnCount + (player.id === incomingActivePlayerId ? 1 : 0);
     }, 0);
 
-    const stageIndex = Math.min(
-      STAGE_TIER_ORDER.length - 1,
-      Math.floor(totalActiveTurns / (2 * divisor)),
+    const { stageIndex, stage } = resolveDifficultyStage(
+      room.config.difficulty,
+      Math.floor(totalActiveTurns / divisor),
     );
+    const stageTiers = listStageTierWeights(stage);
 
-    if (stageIndex < STAGE_TIER_ORDER.length - 1) {
-      return {
-        stageIndex,
-        targetTier: STAGE_TIER_ORDER[stageIndex],
-      };
-    }
+    // A single-tier stage is a fixed target; tier fallback happens when the chunk is picked.
+    const targetTier =
+      stageTiers.length === 1
+        ? stageTiers[0].tier
+        : this.pickWeightedTier(room, chunkPool, stageTiers);
+    const handicap = this.getPlayer(room, incomingActivePlayerId)?.handicap;
 
     return {
       stageIndex,
-      targetTier: this.pickPostVeryHardTier(room, chunkPool),
+      targetTier,
+      playerTier: handicap ? shiftChunkTier(targetTier, handicap.level) : targetTier,
     };
   }
 
-  private pickPostVeryHardTier(room: RoomState, chunkPool: ChunkPool): ChunkTier {
-    const weightedTiers = POST_VERY_HARD_TIER_WEIGHTS.filter(
+  private pickWeightedTier(
+    room: RoomState,
+    chunkPool: ChunkPool,
+    tierWeights: Array<{ tier: ChunkTier; weight: number }>,
+  ): ChunkTier {
+    const weightedTiers = tierWeights.filter(
       (entry) => chunkPool.tierChunks[entry.tier].length > 0,
     );
 
@@ -912,7 +2319,11 @@ export class GameService {
       return null;
     }
 
-    const availableChunks = this.filterChunksByCooldown(tierChunks, room.recentChunks);
+    const availableChunks = this.filterExhaustedChunks(
+      room,
+      chunkPool,
+      this.filterChunksByCooldown(tierChunks, room.recentChunks),
+    );
     if (availableChunks.length === 0) {
       return null;
     }
@@ -923,16 +2334,52 @@ export class GameService {
 
   private pickChunkFromPool(room: RoomState, chunkPool: ChunkPool): ChunkDescriptor | null {
     const allChunks = STAGE_TIER_ORDER.flatMap((tier) => chunkPool.tierChunks[tier]);
-    const availableChunks = this.filterChunksByCooldown(allChunks, room.recentChunks);
+    const cooledChunks = this.filterChunksByCooldown(allChunks, room.recentChunks);
+    const availableChunks = this.filterExhaustedChunks(room, chunkPool, cooledChunks);
 
     if (availableChunks.length === 0) {
-      return null;
+      // Every chunk is worn down, so keep the match going with the one that has the most left.
+      const freshest = cooledChunks
+        .map((chunk): [string, number] => [chunk, this.getRemainingCoverage(room, chunk, 0)])
+        .reduce<[string, number] | null>(
+          (best, entry) => (best === null || entry[1] > best[1] ? entry : best),
+          null,
+        );
+      return freshest ? chunkPool.chunkMap.get(freshest[0]) ?? null : null;
     }
 
     const selectedChunk = availableChunks[Math.floor(this.nextRandom(room) * availableChunks.length)];
     return chunkPool.chunkMap.get(selectedChunk) ?? null;
   }
 
+  /**
+   * Drops chunks whose unplayed words have fallen below half their starting coverage, so long
+   * matches and small custom lists stop serving chunks the room has mostly used up.
+   */
+  private filterExhaustedChunks(room: RoomState, chunkPool: ChunkPool, chunks: string[]): string[] {
+    if (room.usedWords.size === 0 || !this.getRoomDictionary(room).enabled) {
+      return chunks;
+    }
+
+    return chunks.filter((chunk) => {
+      const coverage = chunkPool.chunkMap.get(chunk)?.coverage ?? 0;
+      const remaining = this.getRemainingCoverage(room, chunk, coverage);
+      return (
+        remaining >= MIN_REMAINING_CHUNK_WORDS &&
+        remaining >= coverage * MIN_REMAINING_COVERAGE_SHARE
+      );
+    });
+  }
+
+  /**
+   * Counts dictionary words containing the chunk that the room has not played yet. Without a
+   * dictionary there is nothing to count, so the static coverage stands in.
+   */
+  private getRemainingCoverage(room: RoomState, chunk: string, staticCoverage: number): number {
+    const dictionary = this.getRoomDictionary(room);
+    return dictionary.enabled ? dictionary.countRemaining(chunk, room.usedWords) : staticCoverage;
+  }
+
   private filterChunksByCooldown(chunks: string[], recentChunks: string[]): string[] {
     if (chunks.length === 0) {
       return [];
@@ -962,19 +2409,198 @@ export class GameService {
     return chunks.filter((chunk) => chunk !== immediatePrevious);
   }
 
-  private computeTurnDurationSeconds(room: RoomState, turnNumber: number): number {
-    return Math.max(
-      MIN_TURN_SECONDS,
-      room.config.turnSeconds - Math.floor((turnNumber - 1) / 3),
+  /**
+   * Draws a different chunk for the turn in progress at the same tier, for the skip power-up.
+   * The modifiers are rolled again so they still fit the new chunk.
+   */
+  private rerollCurrentChunk(room: RoomState): boolean {
+    const chunkPool = this.getChunkPool(room);
+    const tier = room.currentChunkTier ?? room.globalDifficultyTier ?? "medium";
+    const selectedChunk = this.selectNextChunk(room, chunkPool, tier);
+    if (!selectedChunk || selectedChunk.chunk === room.currentChunk) {
+      return false;
+    }
+
+    room.currentChunk = selectedChunk.chunk;
+    room.currentChunkTier = selectedChunk.tier;
+    room.currentChunkCoverage = this.getRemainingCoverage(
+      room,
+      selectedChunk.chunk,
+      selectedChunk.coverage,
+    );
+    room.currentModifiers = this.rollPlayableModifiers(
+      room,
+      selectedChunk.chunk,
+      room.globalStageIndex,
     );
+    room.recentChunks = [...room.recentChunks.slice(-(CHUNK_COOLDOWN_TURNS - 1)), selectedChunk.chunk];
+
+    const record = room.turnHistory[room.turnHistory.length - 1];
+    if (record && record.outcome === null) {
+      record.chunk = selectedChunk.chunk;
+      record.tier = selectedChunk.tier;
+    }
+
+    return true;
+  }
+
+  /**
+   * Timed modes add the active player's handicap on top of the curve. The hidden fuse is
+   * shared by everyone it passes through, so it is never adjusted per player.
+   */
+  private computeTurnDurationSeconds(
+    room: RoomState,
+    activePlayer: PlayerState,
+    turnNumber: number,
+  ): number {
+    if (room.config.timerMode !== "hiddenFuse") {
+      const curveSeconds = computeTurnDurationSeconds(
+        room.config.timerMode,
+        room.config.turnSeconds,
+        turnNumber,
+      );
+      return Math.max(
+        MIN_TURN_SECONDS,
+        curveSeconds + (activePlayer.handicap?.timeAdjustSeconds ?? 0),
+      );
+    }
+
+    const fuseMs =
+      room.fuseRemainingMs ??
+      rollFuseMs(room.config.turnSeconds, () => this.nextRandom(room));
+    room.fuseRemainingMs = null;
+    return Math.max(MIN_FUSE_TURN_MS, fuseMs) / 1000;
+  }
+
+  /**
+   * A hidden fuse keeps burning from one player to the next. Whatever is left when a turn ends
+   * carries over, and only an explosion or a fuse that ran out lights a fresh one.
+   */
+  private carryFuse(room: RoomState, outcome: TurnOutcome, now: number): void {
+    if (room.config.timerMode !== "hiddenFuse") {
+      return;
+    }
+
+    const remainingMs =
+      room.pausedTurnRemainingMs ??
+      (room.turnStartedAt !== null ? this.getTurnEndsAt(room) - now : 0);
+    room.fuseRemainingMs = outcome !== "explosion" && remainingMs > 0 ? remainingMs : null;
   }
 
   private getTurnEndsAt(room: RoomState): number {
     return (room.turnStartedAt ?? 0) + room.turnDurationSeconds * 1000;
   }
 
+  /**
+   * Rooms with a custom word list validate and draw chunks from their own dictionary. It is
+   * rebuilt lazily from the stored words, so restored snapshots pick it up on first use.
+   */
+  private getRoomDictionary(room: RoomState): Dictionary {
+    if (!room.customWordList) {
+      return (
+        this.pinnedDictionaries.get(room.code) ??
+        this.getLanguageDictionary(room.config.language) ??
+        this.dictionary
+      );
+    }
+
+    let dictionary = this.roomDictionaries.get(room.code);
+    if (!dictionary) {
+      dictionary = createWordListDictionary(
+        room.customWordList.words,
+        `Room ${room.code} "${room.customWordList.name}"`,
+        room.config.language,
+      );
+      this.roomDictionaries.set(room.code, dictionary);
+    }
+
+    return dictionary;
+  }
+
+  // English is the server dictionary. Other languages are shared by every room using them.
+  private getLanguageDictionary(language: LanguageCode): Dictionary | null {
+    return language === DEFAULT_LANGUAGE
+      ? this.dictionary
+      : (this.languageDictionaries.get(language) ?? null);
+  }
+
+  private getLanguageError(language: unknown): string | null {
+    if (!isLanguageCode(language)) {
+      return "Unknown language.";
+    }
+
+    return this.availableLanguages.includes(language)
+      ? null
+      : "That language is not available on this server.";
+  }
+
+  /**
+   * Builds the installed languages up front, at startup and on reload, because a large list
+   * blocks the node for several seconds and must not load inside a room's socket handler. A
+   * language that fails to rebuild keeps its previous dictionary. Other languages have no
+   * fallback pool, so only the ones that can build a game are offered, and only while the
+   * server dictionary is enabled.
+   */
+  private loadLanguageDictionaries(languages: readonly LanguageCode[]): void {
+    if (!this.dictionary.enabled) {
+      this.availableLanguages = [DEFAULT_LANGUAGE];
+      return;
+    }
+
+    for (const language of languages) {
+      if (language === DEFAULT_LANGUAGE || !isLanguageInstalled(language)) {
+        continue;
+      }
+
+      try {
+        this.languageDictionaries.set(language, loadMergedDictionary(language));
+      } catch (error) {
+        console.warn(`[Dictionary] Could not load the ${language} dictionary.`, error);
+      }
+    }
+
+    this.availableLanguages = listLanguageCodes().filter((language) => {
+      const dictionary = this.getLanguageDictionary(language);
+      return (
+        language === DEFAULT_LANGUAGE ||
+        (dictionary !== null &&
+          dictionary.getChunkPool(false).poolSize >= MIN_CUSTOM_CHUNK_POOL_SIZE)
+      );
+    });
+  }
+
+  /**
+   * Rolls the turn's modifiers, then loosens them until the room's dictionary still has an
+   * unplayed word that fits. Without a dictionary there is nothing to check against.
+   */
+  private rollPlayableModifiers(
+    room: RoomState,
+    chunk: string,
+    stageIndex: number,
+  ): TurnModifiers {
+    const rolled = rollTurnModifiers(room.config.modifiers, {
+      chunk,
+      stageIndex,
+      random: () => this.nextRandom(room),
+    });
+    const dictionary = this.getRoomDictionary(room);
+    if (!dictionary.enabled) {
+      return rolled;
+    }
+
+    const playable = [rolled, ...listModifierFallbacks(rolled)].find(
+      (modifiers) =>
+        dictionary.sampleWordsContaining(chunk, 1, {
+          excluding: room.usedWords,
+          accept: (word) => matchesTurnModifiers(modifiers, word, chunk),
+        }).length > 0,
+    );
+
+    return playable ?? PLAIN_TURN_MODIFIERS;
+  }
+
   private getChunkPool(room: RoomState): ChunkPool {
-    return this.dictionary.getChunkPool(room.config.allowFourLetterChunks);
+    return this.getRoomDictionary(room).getChunkPool(room.config.allowFourLetterChunks);
   }
 
   private nextRandom(room: RoomState): number {
@@ -1003,18 +2629,23 @@ export class GameService {
       return null;
     }
 
+    if (room.config.teamMode && room.teams.length > 0) {
+      return this.getNextTeamPlayer(room, eligible, fromPlayerId);
+    }
+
     if (fromPlayerId === null) {
       return eligible[0];
     }
 
-    const startIndex = room.players.findIndex((player) => player.id === fromPlayerId);
+    const order = room.turnDirection === 1 ? room.players : [...room.players].reverse();
+    const startIndex = order.findIndex((player) => player.id === fromPlayerId);
     if (startIndex === -1) {
       return eligible[0];
     }
 
-    for (let offset = 1; offset <= room.players.length; offset += 1) {
-      const index = (startIndex + offset) % room.players.length;
-      const candidate = room.players[index];
+    for (let offset = 1; offset <= order.length; offset += 1) {
+      const index = (startIndex + offset) % order.length;
+      const candidate = order[index];
       if (candidate.role === "player" && candidate.connected && !candidate.eliminated) {
         return candidate;
       }
@@ -1023,6 +2654,115 @@ export class GameService {
     return null;
   }
 
+  /**
+   * Team turns alternate between teams in id order, and each team cycles through its own
+   * members in join order, picking up after whoever last held the bomb for that team.
+   * A reversed room walks both orders backwards.
+   */
+  private getNextTeamPlayer(
+    room: RoomState,
+    eligible: PlayerState[],
+    fromPlayerId: string | null,
+  ): PlayerState | null {
+    const reversed = room.turnDirection === -1;
+    const fromTeamId = fromPlayerId ? this.getPlayer(room, fromPlayerId)?.teamId ?? null : null;
+    const teams = reversed ? [...room.teams].reverse() : room.teams;
+    const teamCount = teams.length;
+    const firstTeamIndex =
+      fromTeamId === null ? 0 : teams.findIndex((team) => team.id === fromTeamId) + 1;
+
+    for (let offset = 0; offset < teamCount; offset += 1) {
+      const team = teams[(firstTeamIndex + offset) % teamCount];
+      const members = eligible.filter((player) => player.teamId === team.id);
+      if (team.eliminated || members.length === 0) {
+        continue;
+      }
+
+      const teamMembers = getTeamMembers(room.players, team.id);
+      const roster = reversed ? teamMembers.reverse() : teamMembers;
+      const lastIndex = roster.findIndex((player) => player.id === team.lastActivePlayerId);
+
+      for (let step = 1; step <= roster.length; step += 1) {
+        const candidate = roster[(lastIndex + step) % roster.length];
+        if (members.includes(candidate)) {
+          return candidate;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private countLiveSides(room: RoomState, players: PlayerState[]): number {
+    if (!room.config.teamMode) {
+      return players.length;
+    }
+
+    return new Set(players.map((player) => player.teamId)).size;
+  }
+
+  private hasEnoughSidesToStart(room: RoomState): boolean {
+    return (
+      !room.config.teamMode ||
+      this.countLiveSides(room, this.getConnectedTurnPlayers(room)) >= MIN_TEAMS
+    );
+  }
+
+  private getTeam(room: RoomState, teamId: number | null): TeamState | undefined {
+    return teamId === null ? undefined : room.teams.find((team) => team.id === teamId);
+  }
+
+  private createMatchTeams(room: RoomState): TeamState[] {
+    const teams = createTeams(room.config.teamCount);
+
+    for (const team of teams) {
+      const members = getTeamMembers(room.players, team.id);
+      team.lives = room.config.startingLives * members.length;
+      team.eliminated = members.length === 0;
+      members.forEach((member) => {
+        member.lives = team.lives;
+      });
+    }
+
+    return teams;
+  }
+
+  private explodeTeam(room: RoomState, team: TeamState, active: PlayerState): void {
+    team.lives = Math.max(0, team.lives - 1);
+    const members = getTeamMembers(room.players, team.id);
+    members.forEach((member) => {
+      member.lives = team.lives;
+    });
+    recordMatchEvent(room.replay, { type: "explosion", playerId: active.id, livesLeft: team.lives });
+
+    if (team.lives > 0) {
+      room.lastEvent = `${active.name} exploded. Team ${team.name} lost a life.`;
+      return;
+    }
+
+    team.eliminated = true;
+    for (const member of members) {
+      member.eliminated = true;
+      recordMatchEvent(room.replay, { type: "elimination", playerId: member.id });
+    }
+    room.lastEvent = `${active.name} exploded. Team ${team.name} is out.`;
+  }
+
+  private syncTeamAssignments(room: RoomState): void {
+    if (room.phase !== "lobby") {
+      return;
+    }
+
+    if (!room.config.teamMode) {
+      room.players.forEach((player) => {
+        player.teamId = null;
+      });
+      return;
+    }
+
+    balanceTeams(room.players, room.config.teamCount);
+  }
+
   private getPlayer(room: RoomState, playerId: string): PlayerState | undefined {
     return room.players.find((player) => player.id === playerId);
   }
@@ -1034,8 +2774,8 @@ export class GameService {
     }
 
     const nextHost =
-      room.players.find((player) => player.connected && player.role === "player") ??
-      room.players.find((player) => player.connected);
+      room.players.find((player) => player.connected && !player.isBot && player.role === "player") ??
+      room.players.find((player) => player.connected && !player.isBot);
     if (nextHost) {
       room.hostId = nextHost.id;
       room.lastEvent = `${nextHost.name} is now host.`;
@@ -1054,6 +2794,104 @@ export class GameService {
     host.lives = enabled ? 0 : room.config.startingLives;
   }
 
+  private scheduleBotTurn(room: RoomState): void {
+    const bot = room.activePlayerId ? this.getPlayer(room, room.activePlayerId) : undefined;
+    if (!bot?.isBot || !bot.botDifficulty || !room.currentChunk || room.turnStartedAt === null) {
+      return;
+    }
+
+    const chunk = room.currentChunk;
+    const turnNumber = room.turnNumber;
+    const botSocketId = createBotSocketId(bot.id);
+    const plan = planBotTurn(
+      this.getRoomDictionary(room),
+      bot.id,
+      bot.botDifficulty,
+      chunk,
+      room.usedWords,
+      room.currentModifiers ?? PLAIN_TURN_MODIFIERS,
+    );
+    const pendingWords = plan.word ? [plan.word, ...plan.fallbackWords] : [];
+    // A bot that blanks still "types" the chunk so the room sees it stall before exploding.
+    let attempt = pendingWords.shift() ?? chunk.toLowerCase();
+    let typedLength = 0;
+
+    const isStillBotTurn = (): boolean =>
+      this.roomStore.get(room.code) === room &&
+      room.phase === "in_game" &&
+      room.activePlayerId === bot.id &&
+      room.turnNumber === turnNumber &&
+      room.turnStartedAt !== null;
+
+    const submitAttempt = (): void => {
+      if (!isStillBotTurn()) {
+        return;
+      }
+
+      const result = this.submitWord(botSocketId, {
+        roomCode: room.code,
+        playerId: bot.id,
+        word: attempt,
+      });
+      const nextWord = pendingWords.shift();
+
+      if (!result.ok && nextWord) {
+        attempt = nextWord;
+        this.setBotTimer(bot.id, () => {
+          if (isStillBotTurn()) {
+            this.handleTyping(botSocketId, { roomCode: room.code, preview: attempt });
+            submitAttempt();
+          }
+        }, BOT_RETRY_DELAY_MS);
+      }
+    };
+
+    const typeNextLetter = (): void => {
+      if (!isStillBotTurn()) {
+        return;
+      }
+
+      typedLength += 1;
+      this.handleTyping(botSocketId, { roomCode: room.code, preview: attempt.slice(0, typedLength) });
+
+      if (typedLength < attempt.length) {
+        this.setBotTimer(bot.id, typeNextLetter, plan.keystrokeMs);
+      } else if (plan.word) {
+        this.setBotTimer(bot.id, submitAttempt, plan.keystrokeMs);
+      }
+    };
+
+    this.setBotTimer(bot.id, typeNextLetter, plan.reactionMs);
+  }
+
+  private setBotTimer(botId: string, callback: () => void, delayMs: number): void {
+    const previous = this.botTimers.get(botId);
+    if (previous) {
+      clearTimeout(previous);
+    }
+
+    this.botTimers.set(
+      botId,
+      setTimeout(() => {
+        this.botTimers.delete(botId);
+        callback();
+      }, delayMs),
+    );
+  }
+
+  private releaseBot(bot: PlayerState): void {
+    const timer = this.botTimers.get(bot.id);
+    if (timer) {
+      clearTimeout(timer);
+      this.botTimers.delete(bot.id);
+    }
+
+    const botSocketId = createBotSocketId(bot.id);
+    this.socketSessions.delete(botSocketId);
+    this.lastSubmitAtBySocket.delete(botSocketId);
+    this.typingEventTimesBySocket.delete(botSocketId);
+  }
+
   private bindSocketSession(socketId: string, roomCode: string, playerId: string): void {
     this.socketSessions.set(socketId, { roomCode, playerId });
   }
@@ -1092,6 +2930,7 @@ export class GameService {
   }
 
   private broadcastRoom(room: RoomState): void {
+    this.roomStore.save(room);
     const snapshot = this.serializeRoom(room);
     this.io.to(room.code).emit("room:update", snapshot);
     this.io.to(room.code).emit("game:state", snapshot);
@@ -1102,10 +2941,15 @@ export class GameService {
   }
 
   private serializeRoom(room: RoomState): PublicRoomState {
+    const fuseHidden = room.phase === "in_game" && room.config.timerMode === "hiddenFuse";
     const remainingMs =
-      room.phase === "in_game" && room.turnStartedAt !== null
-        ? Math.max(0, this.getTurnEndsAt(room) - Date.now())
-        : 0;
+      room.phase !== "in_game"
+        ? 0
+        : room.pausedTurnRemainingMs !== null
+          ? room.pausedTurnRemainingMs
+          : room.turnStartedAt !== null
+            ? Math.max(0, this.getTurnEndsAt(room) - Date.now())
+            : 0;
 
     return {
       roomCode: room.code,
@@ -1114,35 +2958,90 @@ export class GameService {
       players: room.players.map((player) => ({
         id: player.id,
         name: player.name,
+        accountId: player.accountId,
+        avatarSeed: player.avatarSeed,
         role: player.role,
+        queuedForNextMatch: player.queuedForNextMatch,
+        isBot: player.isBot,
+        botDifficulty: player.botDifficulty,
+        teamId: player.teamId,
         connected: player.connected,
         score: player.score,
         lastWord: player.lastWord,
+        lastWordPoints: player.lastWordPoints,
         activeTurnCount: player.activeTurnCount,
         lives: player.lives,
         eliminated: player.eliminated,
+        handicap: player.handicap ? { ...player.handicap } : null,
+        powerUps: [...player.powerUps],
+        bonusLetters: [...player.bonusLetters],
         joinedAt: player.joinedAt,
       })),
       config: {
         turnSeconds: room.config.turnSeconds,
+        timerMode: room.config.timerMode,
         startingLives: room.config.startingLives,
         dictionaryEnabled: room.config.dictionaryEnabled,
         showTypingPreviews: room.config.showTypingPreviews,
         allowFourLetterChunks: room.config.allowFourLetterChunks,
+        matchSeed: room.config.matchSeed,
+        scoring: { ...room.config.scoring },
+        teamMode: room.config.teamMode,
+        teamCount: room.config.teamCount,
+        language: room.config.language,
+        modifiers: { ...room.config.modifiers },
+        difficulty: {
+          preset: room.config.difficulty.preset,
+          stages: cloneDifficultyStages(room.config.difficulty.stages),
+        },
+        adaptiveHandicap: room.config.adaptiveHandicap,
+        powerUps: { ...room.config.powerUps },
+        bonusLetters: {
+          ...room.config.bonusLetters,
+          excludedLetters: [...room.config.bonusLetters.excludedLetters],
+        },
       },
+      teams: room.teams.map((team) => ({
+        id: team.id,
+        name: team.name,
+        lives: team.lives,
+        eliminated: team.eliminated,
+      })),
       activePlayerId: room.activePlayerId,
       currentChunk: room.currentChunk,
       currentChunkCoverage: room.currentChunkCoverage,
       currentChunkTier: room.currentChunkTier,
+      currentModifiers: room.currentModifiers,
       globalDifficultyTier: room.globalDifficultyTier,
       globalStageIndex: room.globalStageIndex,
       turnNumber: room.turnNumber,
-      turnDurationSeconds: room.turnDurationSeconds,
-      remainingMs,
+      turnDurationSeconds: fuseHidden ? 0 : room.turnDurationSeconds,
+      remainingMs: fuseHidden ? null : remainingMs,
+      turnDirection: room.turnDirection,
+      passDoublePending: room.passDoublePending,
+      powerUpUsedThisTurn:
+        room.phase === "in_game" && room.lastPowerUpTurnNumber === room.turnNumber,
       usedWords: room.usedWordsOrdered.map((word) => word.toLowerCase()),
+      matchSeed: room.matchSeed,
       winnerId: room.winnerId,
+      winnerTeamId: room.winnerTeamId,
       lastEvent: room.lastEvent,
-      canStart: room.phase === "lobby" && this.getConnectedTurnPlayers(room).length >= MIN_PLAYERS_TO_START,
+      canStart:
+        room.phase === "lobby" &&
+        this.getConnectedTurnPlayers(room).length >= MIN_PLAYERS_TO_START &&
+        this.hasEnoughSidesToStart(room),
+      replayAvailable: room.replay !== null && room.replay.endedAt !== null,
+      matchAnalytics: room.phase === "results" ? room.matchAnalytics : null,
+      lastExplosion: room.lastExplosion,
+      wordChallenge: room.wordChallenge ? toPublicWordChallenge(room.wordChallenge, Date.now()) : null,
+      customWordList: room.customWordList
+        ? {
+            name: room.customWordList.name,
+            wordCount: room.customWordList.words.length,
+            chunkCount: this.getChunkPool(room).poolSize,
+          }
+        : null,
+      availableLanguages: this.availableLanguages,
       serverTime: Date.now(),
     };
   }
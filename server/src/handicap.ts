@@ -0,0 +1,114 @@
+import { ChunkTier, PlayerHandicap, TurnRecord } from "./types";
+
+const CHUNK_TIERS: ChunkTier[] = ["veryEasy", "easy", "medium", "hard", "veryHard"];
+const HANDICAP_WINDOW_TURNS = 6;
+const HANDICAP_MIN_TURNS = 3;
+const HANDICAP_RATING_STEP = 0.25;
+const SPEED_RATING_WEIGHT = 0.5;
+
+export const MAX_HANDICAP_LEVEL = 2;
+export const HANDICAP_SECONDS_PER_LEVEL = 2;
+
+// The bar each tier is held to: how often a typical player clears it, and how fast.
+const EXPECTED_SUCCESS_RATE: Record<ChunkTier, number> = {
+  veryEasy: 0.9,
+  easy: 0.8,
+  medium: 0.7,
+  hard: 0.55,
+  veryHard: 0.4,
+};
+const EXPECTED_RESPONSE_MS: Record<ChunkTier, number> = {
+  veryEasy: 3000,
+  easy: 4000,
+  medium: 5000,
+  hard: 6500,
+  veryHard: 8000,
+};
+
+export const NEUTRAL_HANDICAP: PlayerHandicap = {
+  level: 0,
+  timeAdjustSeconds: 0,
+  recentTurns: 0,
+  successRate: null,
+  averageResponseMs: null,
+};
+
+interface TierPerformance {
+  attempts: number;
+  successes: number;
+  totalResponseMs: number;
+}
+
+/**
+ * Rates a player's last few answered or exploded turns against the bar for each tier they
+ * drew. Beating a tier's usual success rate, or answering faster than its usual time, pushes
+ * the level up, which means harder chunks and less time. Falling short does the opposite.
+ * Skipped turns say nothing about skill, so they are left out.
+ */
+export function computePlayerHandicap(history: TurnRecord[], playerId: string): PlayerHandicap {
+  const recent = history
+    .filter((record) => record.playerId === playerId)
+    .filter((record) => record.outcome === "word" || record.outcome === "explosion")
+    .slice(-HANDICAP_WINDOW_TURNS);
+  if (recent.length < HANDICAP_MIN_TURNS) {
+    return { ...NEUTRAL_HANDICAP, recentTurns: recent.length };
+  }
+
+  const byTier = new Map<ChunkTier, TierPerformance>();
+  for (const record of recent) {
+    const performance = byTier.get(record.tier) ?? {
+      attempts: 0,
+      successes: 0,
+      totalResponseMs: 0,
+    };
+    performance.attempts += 1;
+    if (record.outcome === "word") {
+      performance.successes += 1;
+      performance.totalResponseMs += record.responseMs ?? 0;
+    }
+    byTier.set(record.tier, performance);
+  }
+
+  let rating = 0;
+  let successes = 0;
+  let totalResponseMs = 0;
+  for (const tier of CHUNK_TIERS) {
+    const performance = byTier.get(tier);
+    if (!performance) {
+      continue;
+    }
+
+    const successRate = performance.successes / performance.attempts;
+    rating += (successRate - EXPECTED_SUCCESS_RATE[tier]) * performance.attempts;
+
+    if (performance.successes > 0) {
+      const averageMs = performance.totalResponseMs / performance.successes;
+      const speed = (EXPECTED_RESPONSE_MS[tier] - averageMs) / EXPECTED_RESPONSE_MS[tier];
+      rating += Math.max(-1, Math.min(1, speed)) * SPEED_RATING_WEIGHT * performance.successes;
+    }
+
+    successes += performance.successes;
+    totalResponseMs += performance.totalResponseMs;
+  }
+
+  const level = Math.max(
+    -MAX_HANDICAP_LEVEL,
+    Math.min(MAX_HANDICAP_LEVEL, Math.trunc(rating / recent.length / HANDICAP_RATING_STEP)),
+  );
+
+  return {
+    level: level || 0,
+    timeAdjustSeconds: -level * HANDICAP_SECONDS_PER_LEVEL || 0,
+    recentTurns: recent.length,
+    successRate: successes / recent.length,
+    averageResponseMs: successes > 0 ? Math.round(totalResponseMs / successes) : null,
+  };
+}
+
+/**
+ * Moves a target tier one step per handicap level, staying inside the tier ladder.
+ */
+export function shiftChunkTier(tier: ChunkTier, level: number): ChunkTier {
+  const index = CHUNK_TIERS.indexOf(tier) + level;
+  return CHUNK_TIERS[Math.max(0, Math.min(CHUNK_TIERS.length - 1, index))];
+}
@@ -1,126 +1,82 @@
+import cluster from "node:cluster";
+import { randomBytes } from "node:crypto";
 import http from "node:http";
-import cors from "cors";
+import { setupMaster } from "@socket.io/sticky";
 import dotenv from "dotenv";
-import express from "express";
-import { Server } from "socket.io";
-import { createDictionary } from "./dictionary";
-import { GameService } from "./gameService";
-import {
-  AckResponse,
-  CreateRoomPayload,
-  JoinRoomPayload,
-  PlayerTypingPayload,
-  PlayerActionPayload,
-  ReconnectPayload,
-  SubmitWordPayload,
-  UpdateSettingsPayload,
-} from "./types";
+import { createProcessMessageBus, relayClusterMessageBus } from "./cluster";
+import { startServerNode } from "./server";
+import { clampInt } from "./utils";
 
 dotenv.config();
 
 const PORT = Number(process.env.PORT ?? 3001);
-const configuredClientOrigins = process.env.CLIENT_ORIGIN ?? "http://localhost:5173";
-const clientOrigins = configuredClientOrigins
-  .split(",")
-  .map((origin) => origin.trim())
-  .filter(Boolean);
+const CLUSTER_WORKERS = clampInt(Number(process.env.CLUSTER_WORKERS ?? 1), 1, 16);
 
-const dictionary = createDictionary(process.env.DICTIONARY_ENABLED);
-
-const app = express();
-app.use(cors({ origin: clientOrigins }));
-app.use(express.json());
-
-app.get("/health", (_req, res) => {
-  res.json({
-    ok: true,
-    dictionaryEnabled: dictionary.enabled,
-    dictionarySize: dictionary.size,
-  });
-});
-
-const httpServer = http.createServer(app);
-const io = new Server(httpServer, {
-  cors: {
-    origin: clientOrigins,
-    methods: ["GET", "POST"],
-  },
-});
-
-const gameService = new GameService(io, dictionary);
-
-function ackWith(result: AckResponse, ack?: (payload: AckResponse) => void): void {
-  if (typeof ack === "function") {
-    ack(result);
+function withNodeSuffix(filePath: string | undefined, nodeId: string): string | undefined {
+  if (!filePath?.trim()) {
+    return filePath;
   }
+
+  return filePath.replace(/(\.json)?$/, `.${nodeId}$1`);
 }
 
-io.on("connection", (socket) => {
-  socket.on("room:create", (payload: CreateRoomPayload, ack?: (payload: AckResponse) => void) => {
-    const result = gameService.createRoom(socket.id, payload?.name ?? "");
-    ackWith(gameService.toAck(result), ack);
+function forkClusterWorkers(): void {
+  const nodeIds = Array.from({ length: CLUSTER_WORKERS }, (_, index) => `node-${index + 1}`);
+
+  relayClusterMessageBus();
+  // Shared so tokens survive a restart of the worker that owns the account store.
+  const accountTokenSecret =
+    process.env.ACCOUNT_TOKEN_SECRET?.trim() || randomBytes(32).toString("hex");
+
+  // Socket.IO's polling transport sends each request of a session separately, so the primary
+  // owns the port and keeps every session on the worker that accepted its handshake.
+  const httpServer = http.createServer();
+  setupMaster(httpServer, { loadBalancingMethod: "least-connection" });
+  httpServer.listen(PORT);
+
+  nodeIds.forEach((nodeId) => {
+    cluster.fork({
+      CLUSTER_NODE_ID: nodeId,
+      CLUSTER_NODES: nodeIds.join(","),
+      ROOM_STORE_FILE: withNodeSuffix(process.env.ROOM_STORE_FILE, nodeId) ?? "",
+      ACCOUNT_TOKEN_SECRET: accountTokenSecret,
+    });
   });
 
-  socket.on("room:join", (payload: JoinRoomPayload, ack?: (payload: AckResponse) => void) => {
-    const result = gameService.joinRoom(socket.id, payload?.roomCode ?? "", payload?.name ?? "");
-    ackWith(gameService.toAck(result), ack);
+  cluster.on("exit", (worker, code) => {
+    console.warn(`[Cluster] Worker ${worker.process.pid} exited with code ${code}.`);
   });
 
-  socket.on(
-    "room:reconnect",
-    (payload: ReconnectPayload, ack?: (payload: AckResponse) => void) => {
-      const result = gameService.reconnectPlayer(
-        socket.id,
-        payload?.roomCode ?? "",
-        payload?.playerId ?? "",
-        payload?.name,
-      );
-      ackWith(gameService.toAck(result), ack);
-    },
-  );
-
-  socket.on(
-    "room:updateSettings",
-    (payload: UpdateSettingsPayload, ack?: (payload: AckResponse) => void) => {
-      const result = gameService.updateSettings(socket.id, payload);
-      ackWith(gameService.toAck(result), ack);
-    },
-  );
+  console.log(`[Cluster] Started ${nodeIds.length} nodes behind port ${PORT}.`);
+}
 
-  socket.on("game:start", (payload: PlayerActionPayload, ack?: (payload: AckResponse) => void) => {
-    const result = gameService.startGame(socket.id, payload);
-    ackWith(gameService.toAck(result), ack);
+function startServer(): void {
+  const nodeId = process.env.CLUSTER_NODE_ID?.trim() || "node-1";
+  const nodeIds = (process.env.CLUSTER_NODES ?? nodeId)
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const node = startServerNode({
+    port: PORT,
+    nodeId,
+    nodeIds,
+    messageBus: cluster.isWorker ? createProcessMessageBus() : null,
+    stickyWorker: cluster.isWorker,
   });
 
-  socket.on(
-    "turn:submitWord",
-    (payload: SubmitWordPayload, ack?: (payload: AckResponse) => void) => {
-      const result = gameService.submitWord(socket.id, payload);
-      ackWith(gameService.toAck(result), ack);
-    },
-  );
-
-  socket.on(
-    "game:playAgain",
-    (payload: PlayerActionPayload, ack?: (payload: AckResponse) => void) => {
-      const result = gameService.playAgain(socket.id, payload);
-      ackWith(gameService.toAck(result), ack);
-    },
-  );
+  function shutdown(): void {
+    node.flush();
+    process.exit(0);
+  }
 
-  socket.on("player:typing", (payload: PlayerTypingPayload) => {
-    gameService.handleTyping(socket.id, payload);
-  });
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
 
-  socket.on("disconnect", () => {
-    gameService.handleDisconnect(socket.id);
-  });
-});
+  void node.listen();
+}
 
-httpServer.listen(PORT, () => {
-  console.log(`Word Fuse server listening on http://localhost:${PORT}`);
-  console.log(`Allowed client origins: ${clientOrigins.join(", ")}`);
-  console.log(
-    `Dictionary: ${dictionary.enabled ? `enabled (${dictionary.size} words)` : "disabled"}`,
-  );
-});
+if (cluster.isPrimary && CLUSTER_WORKERS > 1) {
+  forkClusterWorkers();
+} else {
+  startServer();
+}
@@ -0,0 +1,48 @@
+import { isLanguageInstalled, loadMergedDictionary } from "./dictionary";
+import { DEFAULT_LANGUAGE, LANGUAGE_NAMES, listLanguageCodes } from "./languages";
+
+// Loads every non-English dictionary once, the way a room picking that language would, and
+// fails if one is missing or too small to build a chunk pool.
+
+const MIN_LANGUAGE_WORDS = 10000;
+
+function checkLanguages(): string[] {
+  const failures: string[] = [];
+
+  for (const language of listLanguageCodes()) {
+    if (language === DEFAULT_LANGUAGE) {
+      continue;
+    }
+
+    const name = LANGUAGE_NAMES[language];
+    if (!isLanguageInstalled(language)) {
+      failures.push(`${name} has no word list installed.`);
+      continue;
+    }
+
+    try {
+      const dictionary = loadMergedDictionary(language);
+      const pool = dictionary.getChunkPool(false);
+      if (dictionary.size < MIN_LANGUAGE_WORDS || pool.poolSize === 0) {
+        failures.push(`${name} loaded only ${dictionary.size} words and ${pool.poolSize} chunks.`);
+        continue;
+      }
+
+      console.log(
+        `[LanguageCheck] ${name}: ${dictionary.size} words, ${pool.poolSize} chunks: ok`,
+      );
+    } catch (error) {
+      failures.push(`${name} failed to load: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return failures;
+}
+
+const failures = checkLanguages();
+if (failures.length > 0) {
+  failures.forEach((failure) => console.error(`[LanguageCheck] ${failure}`));
+  process.exit(1);
+}
+
+console.log("[LanguageCheck] Passed.");
@@ -0,0 +1,32 @@
+import { LanguageCode } from "./types";
+
+const LANGUAGE_CODES: LanguageCode[] = ["en", "es", "fr", "de"];
+
+export const DEFAULT_LANGUAGE: LanguageCode = "en";
+
+export const LANGUAGE_NAMES: Record<LanguageCode, string> = {
+  en: "English",
+  es: "Spanish",
+  fr: "French",
+  de: "German",
+};
+
+// Lowercase letters each language keeps as-is. Anything else is folded to its unaccented base.
+const LANGUAGE_LETTERS: Record<LanguageCode, string> = {
+  en: "abcdefghijklmnopqrstuvwxyz",
+  es: "abcdefghijklmnopqrstuvwxyzáéíóúüñ",
+  fr: "abcdefghijklmnopqrstuvwxyzàâæçéèêëîïôœùûüÿ",
+  de: "abcdefghijklmnopqrstuvwxyzäöüß",
+};
+
+export function isLanguageCode(input: unknown): input is LanguageCode {
+  return LANGUAGE_CODES.includes(input as LanguageCode);
+}
+
+export function listLanguageCodes(): LanguageCode[] {
+  return [...LANGUAGE_CODES];
+}
+
+export function isLanguageLetter(char: string, language: LanguageCode): boolean {
+  return char.length > 0 && LANGUAGE_LETTERS[language].includes(char.toLowerCase());
+}
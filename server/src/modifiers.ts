@@ -0,0 +1,164 @@
+import { ChunkPosition, TurnModifiers, WordModifierRules } from "./types";
+
+export const MIN_WORD_LENGTH = 3;
+const MAX_STAGE_MIN_WORD_LENGTH = 7;
+const CHUNK_POSITION_CHANCE = 0.3;
+const NO_REPEATED_LETTERS_CHANCE = 0.25;
+const BANNED_LETTER_CHANCE = 0.3;
+// Common letters, so a ban bites without leaving the chunk unplayable.
+const BANNED_LETTER_CANDIDATES = "eaiorntlsu";
+
+export const DEFAULT_MODIFIER_RULES: WordModifierRules = {
+  growingMinLength: false,
+  chunkPosition: false,
+  noRepeatedLetters: false,
+  bannedLetter: false,
+};
+
+export const PLAIN_TURN_MODIFIERS: TurnModifiers = {
+  minLength: MIN_WORD_LENGTH,
+  chunkPosition: null,
+  noRepeatedLetters: false,
+  bannedLetter: null,
+};
+
+export interface TurnModifierInput {
+  chunk: string;
+  stageIndex: number;
+  random: () => number;
+}
+
+/**
+ * Applies a partial settings update on top of the current modifiers, ignoring malformed
+ * fields the same way scoring rule updates do.
+ */
+export function mergeModifierRules(current: WordModifierRules, update: unknown): WordModifierRules {
+  if (typeof update !== "object" || update === null) {
+    return current;
+  }
+
+  const input = update as Partial<Record<keyof WordModifierRules, unknown>>;
+  const pick = (key: keyof WordModifierRules): boolean =>
+    typeof input[key] === "boolean" ? (input[key] as boolean) : current[key];
+
+  return {
+    growingMinLength: pick("growingMinLength"),
+    chunkPosition: pick("chunkPosition"),
+    noRepeatedLetters: pick("noRepeatedLetters"),
+    bannedLetter: pick("bannedLetter"),
+  };
+}
+
+function hasRepeatedLetters(word: string): boolean {
+  const letters = [...word.toLowerCase()];
+  return new Set(letters).size !== letters.length;
+}
+
+/**
+ * Rolls the constraints for one turn. The minimum length is fixed by the difficulty stage,
+ * while the other modifiers only show up on some turns. Modifiers that the chunk itself would
+ * break, like banning one of its letters, are never rolled.
+ */
+export function rollTurnModifiers(
+  rules: WordModifierRules,
+  input: TurnModifierInput,
+): TurnModifiers {
+  const chunk = input.chunk.toLowerCase();
+  const modifiers: TurnModifiers = {
+    ...PLAIN_TURN_MODIFIERS,
+    minLength: rules.growingMinLength
+      ? Math.min(MAX_STAGE_MIN_WORD_LENGTH, MIN_WORD_LENGTH + input.stageIndex)
+      : MIN_WORD_LENGTH,
+  };
+
+  if (rules.chunkPosition && input.random() < CHUNK_POSITION_CHANCE) {
+    const positions: ChunkPosition[] = ["start", "end"];
+    modifiers.chunkPosition = positions[Math.floor(input.random() * positions.length)];
+  }
+
+  if (
+    rules.noRepeatedLetters &&
+    !hasRepeatedLetters(chunk) &&
+    input.random() < NO_REPEATED_LETTERS_CHANCE
+  ) {
+    modifiers.noRepeatedLetters = true;
+  }
+
+  if (rules.bannedLetter && input.random() < BANNED_LETTER_CHANCE) {
+    const candidates = [...BANNED_LETTER_CANDIDATES].filter((letter) => !chunk.includes(letter));
+    modifiers.bannedLetter = candidates[Math.floor(input.random() * candidates.length)] ?? null;
+  }
+
+  return modifiers;
+}
+
+/**
+ * Lists looser versions of a roll, dropping the banned letter, then the repeat rule, then the
+ * chunk position, then stepping the minimum length down to the default.
+ */
+export function listModifierFallbacks(modifiers: TurnModifiers): TurnModifiers[] {
+  const fallbacks: TurnModifiers[] = [];
+  let current = modifiers;
+
+  const push = (next: TurnModifiers): void => {
+    if (
+      next.bannedLetter !== current.bannedLetter ||
+      next.noRepeatedLetters !== current.noRepeatedLetters ||
+      next.chunkPosition !== current.chunkPosition ||
+      next.minLength !== current.minLength
+    ) {
+      fallbacks.push(next);
+      current = next;
+    }
+  };
+
+  push({ ...current, bannedLetter: null });
+  push({ ...current, noRepeatedLetters: false });
+  push({ ...current, chunkPosition: null });
+  for (let minLength = current.minLength - 1; minLength >= MIN_WORD_LENGTH; minLength -= 1) {
+    push({ ...current, minLength });
+  }
+
+  return fallbacks;
+}
+
+/**
+ * Checks a lowercase word against the turn's modifiers. The chunk itself is checked by the
+ * caller, so this only covers what the modifiers add on top.
+ */
+export function getModifierRejection(
+  modifiers: TurnModifiers,
+  word: string,
+  chunk: string,
+): string | null {
+  if (word.length < modifiers.minLength) {
+    return `Word must be at least ${modifiers.minLength} letters.`;
+  }
+
+  const lowerChunk = chunk.toLowerCase();
+  if (modifiers.chunkPosition === "start" && !word.startsWith(lowerChunk)) {
+    return `Word must start with "${chunk}".`;
+  }
+
+  if (modifiers.chunkPosition === "end" && !word.endsWith(lowerChunk)) {
+    return `Word must end with "${chunk}".`;
+  }
+
+  if (modifiers.noRepeatedLetters && hasRepeatedLetters(word)) {
+    return "Word must not repeat any letter.";
+  }
+
+  if (modifiers.bannedLetter && word.includes(modifiers.bannedLetter)) {
+    return `Word must not use the letter "${modifiers.bannedLetter.toUpperCase()}".`;
+  }
+
+  return null;
+}
+
+export function matchesTurnModifiers(
+  modifiers: TurnModifiers,
+  word: string,
+  chunk: string,
+): boolean {
+  return getModifierRejection(modifiers, word.toLowerCase(), chunk) === null;
+}
@@ -0,0 +1,66 @@
+import { ChunkTier, PowerUpKind, PowerUpRules } from "./types";
+import { clampInt } from "./utils";
+
+const POWER_UP_KINDS: PowerUpKind[] = ["skipChunk", "extraTime", "reverseOrder", "passDouble"];
+
+export const MAX_POWER_UP_CHARGES = 3;
+export const EXTRA_TIME_SECONDS = 3;
+export const MIN_POWER_UP_WORD_LENGTH = 6;
+export const MAX_POWER_UP_WORD_LENGTH = 12;
+
+export const DEFAULT_POWER_UP_RULES: PowerUpRules = {
+  enabled: false,
+  minWordLength: 8,
+};
+
+export const POWER_UP_NAMES: Record<PowerUpKind, string> = {
+  skipChunk: "Skip Chunk",
+  extraTime: `+${EXTRA_TIME_SECONDS} Seconds`,
+  reverseOrder: "Reverse",
+  passDouble: "Pass Double",
+};
+
+export function isPowerUpKind(input: unknown): input is PowerUpKind {
+  return typeof input === "string" && (POWER_UP_KINDS as string[]).includes(input);
+}
+
+/**
+ * Applies a partial settings update on top of the current power-up rules, ignoring malformed
+ * fields the same way scoring rule updates do.
+ */
+export function mergePowerUpRules(current: PowerUpRules, update: unknown): PowerUpRules {
+  if (typeof update !== "object" || update === null) {
+    return current;
+  }
+
+  const input = update as Partial<Record<keyof PowerUpRules, unknown>>;
+
+  return {
+    enabled: typeof input.enabled === "boolean" ? input.enabled : current.enabled,
+    minWordLength:
+      typeof input.minWordLength === "number"
+        ? clampInt(input.minWordLength, MIN_POWER_UP_WORD_LENGTH, MAX_POWER_UP_WORD_LENGTH)
+        : current.minWordLength,
+  };
+}
+
+/**
+ * A charge is earned by a long word or by any answer to a very hard chunk, as long as the
+ * player still has room in their inventory.
+ */
+export function earnsPowerUp(
+  rules: PowerUpRules,
+  word: string,
+  chunkTier: ChunkTier | null,
+  charges: number,
+): boolean {
+  if (!rules.enabled || charges >= MAX_POWER_UP_CHARGES) {
+    return false;
+  }
+
+  return [...word].length >= rules.minWordLength || chunkTier === "veryHard";
+}
+
+export function rollPowerUp(random: () => number): PowerUpKind {
+  return POWER_UP_KINDS[Math.floor(random() * POWER_UP_KINDS.length)];
+}
@@ -0,0 +1,63 @@
+import { MatchEvent, MatchReplay, RoomState } from "./types";
+
+const REPLAY_VERSION = 1;
+const MAX_REPLAY_EVENTS = 20_000;
+
+type WithoutTimestamp<Event> = Event extends MatchEvent ? Omit<Event, "at"> : never;
+
+export type MatchEventInput = WithoutTimestamp<MatchEvent>;
+
+export function createMatchReplay(room: RoomState, startedAt: number): MatchReplay {
+  return {
+    version: REPLAY_VERSION,
+    roomCode: room.code,
+    matchSeed: room.matchSeed ?? "",
+    startedAt,
+    endedAt: null,
+    config: { ...room.config, scoring: { ...room.config.scoring } },
+    players: room.players.map((player) => ({
+      id: player.id,
+      name: player.name,
+      role: player.role,
+      isBot: player.isBot,
+      teamId: player.teamId,
+      startingLives: player.lives,
+    })),
+    winnerId: null,
+    events: [],
+  };
+}
+
+/**
+ * Appends an event stamped relative to the match start. Typing previews are the only
+ * high-volume events, so they are the ones dropped once a marathon match hits the cap.
+ */
+export function recordMatchEvent(
+  replay: MatchReplay | null,
+  event: MatchEventInput,
+  now: number = Date.now(),
+): void {
+  if (!replay || replay.endedAt !== null) {
+    return;
+  }
+
+  if (replay.events.length >= MAX_REPLAY_EVENTS && event.type === "typing") {
+    return;
+  }
+
+  replay.events.push({ at: Math.max(0, now - replay.startedAt), ...event } as MatchEvent);
+}
+
+export function finishMatchReplay(
+  replay: MatchReplay | null,
+  winnerId: string | null,
+  now: number = Date.now(),
+): void {
+  if (!replay || replay.endedAt !== null) {
+    return;
+  }
+
+  recordMatchEvent(replay, { type: "match_end", winnerId }, now);
+  replay.winnerId = winnerId;
+  replay.endedAt = now;
+}
@@ -0,0 +1,312 @@
+import fs from "node:fs";
+import path from "node:path";
+import { DEFAULT_BONUS_LETTER_RULES, mergeBonusLetterRules } from "./bonusLetters";
+import { getPresetDifficultyProfile } from "./difficulty";
+import { DEFAULT_LANGUAGE } from "./languages";
+import { DEFAULT_MODIFIER_RULES, mergeModifierRules } from "./modifiers";
+import { DEFAULT_POWER_UP_RULES, mergePowerUpRules } from "./powerUps";
+import { DEFAULT_SCORING_RULES, mergeScoringRules } from "./scoring";
+import { MIN_TEAMS } from "./teams";
+import { DEFAULT_TIMER_MODE } from "./timers";
+import { RoomState } from "./types";
+
+const FILE_FLUSH_DELAY_MS = 1000;
+
+export interface RoomStore {
+  get(roomCode: string): RoomState | undefined;
+  set(room: RoomState): void;
+  delete(roomCode: string): void;
+  codes(): Set<string>;
+  values(): RoomState[];
+  save(room: RoomState): void;
+  flush(): void;
+}
+
+type SerializedRoomState = Omit<RoomState, "usedWords"> & {
+  usedWords: string[];
+};
+
+interface RoomSnapshotFile {
+  version: number;
+  savedAt: number;
+  rooms: SerializedRoomState[];
+}
+
+type SnapshotUpgrade = (room: SerializedRoomState) => void;
+
+// Step n brings a version n snapshot up to version n + 1. Whenever RoomState gains or changes
+// a persisted field, append a step that fills it in for rooms saved before the change.
+const SNAPSHOT_UPGRADES: SnapshotUpgrade[] = [
+  // 1 -> 2: bot players
+  (room) => {
+    room.players.forEach((player) => {
+      player.isBot ??= false;
+      player.botDifficulty ??= null;
+    });
+  },
+  // 2 -> 3: match replays
+  (room) => {
+    room.replay ??= null;
+  },
+  // 3 -> 4: seeded matches
+  (room) => {
+    room.config.matchSeed ??= "";
+    room.matchSeed ??= null;
+  },
+  // 4 -> 5: scoring rules and per-word points
+  (room) => {
+    room.config.scoring = mergeScoringRules(DEFAULT_SCORING_RULES, room.config.scoring);
+    room.players.forEach((player) => {
+      player.lastWordPoints ??= 0;
+    });
+  },
+  // 5 -> 6: team mode
+  (room) => {
+    room.config.teamMode ??= false;
+    room.config.teamCount ??= MIN_TEAMS;
+    room.teams ??= [];
+    room.winnerTeamId ??= null;
+    room.players.forEach((player) => {
+      player.teamId ??= null;
+    });
+  },
+  // 6 -> 7: players queued for the next match
+  (room) => {
+    room.players.forEach((player) => {
+      player.queuedForNextMatch ??= false;
+    });
+  },
+  // 7 -> 8: room bans
+  (room) => {
+    room.bannedPlayers ??= [];
+  },
+  // 8 -> 9: custom word lists
+  (room) => {
+    room.customWordList ??= null;
+  },
+  // 9 -> 10: player accounts
+  (room) => {
+    room.players.forEach((player) => {
+      player.accountId ??= null;
+      player.avatarSeed ??= "";
+    });
+    room.bannedPlayers.forEach((ban) => {
+      ban.accountId ??= null;
+    });
+  },
+  // 10 -> 11: turn history and match analytics
+  (room) => {
+    room.turnHistory ??= [];
+    room.matchAnalytics ??= null;
+  },
+  // 11 -> 12: explosion hints
+  (room) => {
+    room.turnHistory.forEach((record) => {
+      record.missedExamples ??= [];
+    });
+    room.lastExplosion ??= null;
+  },
+  // 12 -> 13: word challenges
+  (room) => {
+    room.allowedWords ??= [];
+    room.wordChallenge ??= null;
+    room.lastChallengeTurnNumber ??= 0;
+  },
+  // 13 -> 14: room language
+  (room) => {
+    room.config.language ??= DEFAULT_LANGUAGE;
+  },
+  // 14 -> 15: turn modifiers
+  (room) => {
+    room.config.modifiers = mergeModifierRules(DEFAULT_MODIFIER_RULES, room.config.modifiers);
+    room.currentModifiers ??= null;
+  },
+  // 15 -> 16: timer modes
+  (room) => {
+    room.config.timerMode ??= DEFAULT_TIMER_MODE;
+    room.fuseRemainingMs ??= null;
+  },
+  // 16 -> 17: difficulty profiles
+  (room) => {
+    room.config.difficulty ??= getPresetDifficultyProfile("standard");
+  },
+  // 17 -> 18: adaptive handicap
+  (room) => {
+    room.config.adaptiveHandicap ??= false;
+    room.players.forEach((player) => {
+      player.handicap ??= null;
+    });
+  },
+  // 18 -> 19: power-ups
+  (room) => {
+    room.config.powerUps = mergePowerUpRules(DEFAULT_POWER_UP_RULES, room.config.powerUps);
+    room.turnDirection ??= 1;
+    room.passDoublePending ??= false;
+    room.lastPowerUpTurnNumber ??= 0;
+    room.players.forEach((player) => {
+      player.powerUps ??= [];
+    });
+  },
+  // 19 -> 20: bonus letters
+  (room) => {
+    room.config.bonusLetters = mergeBonusLetterRules(
+      DEFAULT_BONUS_LETTER_RULES,
+      room.config.bonusLetters,
+    );
+    room.players.forEach((player) => {
+      player.bonusLetters ??= [];
+    });
+  },
+  // 20 -> 21: client ids for bans. Older guest bans only have a name and stop applying.
+  (room) => {
+    room.players.forEach((player) => {
+      player.clientId ??= null;
+    });
+    room.bannedPlayers.forEach((ban) => {
+      ban.clientId ??= null;
+    });
+  },
+];
+const SNAPSHOT_VERSION = SNAPSHOT_UPGRADES.length + 1;
+
+function serializeRoomState(room: RoomState): SerializedRoomState {
+  return {
+    ...room,
+    usedWords: [...room.usedWords],
+  };
+}
+
+function upgradeRoomSnapshot(room: SerializedRoomState, version: number): SerializedRoomState {
+  for (const upgrade of SNAPSHOT_UPGRADES.slice(version - 1)) {
+    upgrade(room);
+  }
+
+  return room;
+}
+
+function restoreRoomState(serialized: SerializedRoomState, downtimeMs: number): RoomState {
+  return {
+    ...serialized,
+    usedWords: new Set(serialized.usedWords),
+    turnStartedAt:
+      serialized.turnStartedAt === null ? null : serialized.turnStartedAt + downtimeMs,
+  };
+}
+
+function readSnapshotFile(filePath: string): RoomState[] {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  try {
+    const snapshot = JSON.parse(fs.readFileSync(filePath, "utf8")) as RoomSnapshotFile;
+    if (
+      !Number.isInteger(snapshot.version) ||
+      snapshot.version < 1 ||
+      snapshot.version > SNAPSHOT_VERSION ||
+      !Array.isArray(snapshot.rooms)
+    ) {
+      console.warn(`[RoomStore] Ignoring snapshot with unsupported version at ${filePath}.`);
+      return [];
+    }
+
+    const downtimeMs = Math.max(0, Date.now() - snapshot.savedAt);
+    return snapshot.rooms.map((room) =>
+      restoreRoomState(upgradeRoomSnapshot(room, snapshot.version), downtimeMs),
+    );
+  } catch (error) {
+    console.warn(`[RoomStore] Could not read room snapshot at ${filePath}.`, error);
+    return [];
+  }
+}
+
+function writeSnapshotFile(filePath: string, rooms: Iterable<RoomState>): void {
+  const snapshot: RoomSnapshotFile = {
+    version: SNAPSHOT_VERSION,
+    savedAt: Date.now(),
+    rooms: [...rooms].map(serializeRoomState),
+  };
+  const tempPath = `${filePath}.tmp`;
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(tempPath, JSON.stringify(snapshot));
+  fs.renameSync(tempPath, filePath);
+}
+
+export function createMemoryRoomStore(): RoomStore {
+  const rooms = new Map<string, RoomState>();
+
+  return {
+    get: (roomCode: string) => rooms.get(roomCode),
+    set: (room: RoomState) => {
+      rooms.set(room.code, room);
+    },
+    delete: (roomCode: string) => {
+      rooms.delete(roomCode);
+    },
+    codes: () => new Set(rooms.keys()),
+    values: () => [...rooms.values()],
+    save: () => undefined,
+    flush: () => undefined,
+  };
+}
+
+export function createFileRoomStore(filePath: string): RoomStore {
+  const rooms = new Map<string, RoomState>();
+  let flushTimeout: NodeJS.Timeout | null = null;
+
+  for (const room of readSnapshotFile(filePath)) {
+    rooms.set(room.code, room);
+  }
+
+  console.log(`[RoomStore] Restored ${rooms.size} room(s) from ${filePath}.`);
+
+  const flush = (): void => {
+    if (flushTimeout !== null) {
+      clearTimeout(flushTimeout);
+      flushTimeout = null;
+    }
+
+    try {
+      writeSnapshotFile(filePath, rooms.values());
+    } catch (error) {
+      console.warn(`[RoomStore] Could not write room snapshot to ${filePath}.`, error);
+    }
+  };
+
+  const scheduleFlush = (): void => {
+    if (flushTimeout === null) {
+      flushTimeout = setTimeout(flush, FILE_FLUSH_DELAY_MS);
+    }
+  };
+
+  return {
+    get: (roomCode: string) => rooms.get(roomCode),
+    set: (room: RoomState) => {
+      rooms.set(room.code, room);
+      scheduleFlush();
+    },
+    delete: (roomCode: string) => {
+      if (rooms.delete(roomCode)) {
+        scheduleFlush();
+      }
+    },
+    codes: () => new Set(rooms.keys()),
+    values: () => [...rooms.values()],
+    save: (room: RoomState) => {
+      if (rooms.has(room.code)) {
+        scheduleFlush();
+      }
+    },
+    flush,
+  };
+}
+
+export function createRoomStore(roomStoreFileEnv: string | undefined): RoomStore {
+  const filePath = roomStoreFileEnv?.trim();
+  if (!filePath) {
+    return createMemoryRoomStore();
+  }
+
+  return createFileRoomStore(path.resolve(filePath));
+}
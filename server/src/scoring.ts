@@ -0,0 +1,92 @@
+import { ChunkTier, ScoringRules, WinCondition } from "./types";
+import { clampInt } from "./utils";
+
+const LENGTH_BONUS_FREE_LETTERS = 4;
+const MAX_LENGTH_BONUS = 6;
+const MAX_SPEED_BONUS = 3;
+const RARITY_BONUS_BY_TIER: Record<ChunkTier, number> = {
+  veryEasy: 0,
+  easy: 0,
+  medium: 1,
+  hard: 2,
+  veryHard: 3,
+};
+const WIN_CONDITIONS: WinCondition[] = ["lastStanding", "pointsRace"];
+
+export const MIN_TARGET_SCORE = 10;
+export const MAX_TARGET_SCORE = 200;
+
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  lengthBonus: false,
+  rarityBonus: false,
+  speedBonus: false,
+  winCondition: "lastStanding",
+  targetScore: 50,
+};
+
+export interface WordScoreInput {
+  word: string;
+  chunkTier: ChunkTier | null;
+  remainingMs: number;
+  turnDurationMs: number;
+}
+
+export interface WordScore {
+  base: number;
+  length: number;
+  rarity: number;
+  speed: number;
+  total: number;
+}
+
+export function isWinCondition(input: unknown): input is WinCondition {
+  return typeof input === "string" && (WIN_CONDITIONS as string[]).includes(input);
+}
+
+export function hasScoringBonuses(rules: ScoringRules): boolean {
+  return rules.lengthBonus || rules.rarityBonus || rules.speedBonus;
+}
+
+/**
+ * Applies a partial settings update on top of the current rules, ignoring malformed fields
+ * so an old client can never knock a room into an invalid rule set.
+ */
+export function mergeScoringRules(current: ScoringRules, update: unknown): ScoringRules {
+  if (typeof update !== "object" || update === null) {
+    return current;
+  }
+
+  const input = update as Partial<Record<keyof ScoringRules, unknown>>;
+
+  return {
+    lengthBonus: typeof input.lengthBonus === "boolean" ? input.lengthBonus : current.lengthBonus,
+    rarityBonus: typeof input.rarityBonus === "boolean" ? input.rarityBonus : current.rarityBonus,
+    speedBonus: typeof input.speedBonus === "boolean" ? input.speedBonus : current.speedBonus,
+    winCondition: isWinCondition(input.winCondition) ? input.winCondition : current.winCondition,
+    targetScore:
+      typeof input.targetScore === "number"
+        ? clampInt(input.targetScore, MIN_TARGET_SCORE, MAX_TARGET_SCORE)
+        : current.targetScore,
+  };
+}
+
+export function scoreWord(rules: ScoringRules, input: WordScoreInput): WordScore {
+  const base = 1;
+  const length = rules.lengthBonus
+    ? Math.min(MAX_LENGTH_BONUS, Math.max(0, input.word.length - LENGTH_BONUS_FREE_LETTERS))
+    : 0;
+  const rarity = rules.rarityBonus && input.chunkTier ? RARITY_BONUS_BY_TIER[input.chunkTier] : 0;
+  const remainingRatio =
+    input.turnDurationMs > 0 ? Math.max(0, Math.min(1, input.remainingMs / input.turnDurationMs)) : 0;
+  const speed = rules.speedBonus
+    ? Math.min(MAX_SPEED_BONUS, Math.floor(remainingRatio * (MAX_SPEED_BONUS + 1)))
+    : 0;
+
+  return {
+    base,
+    length,
+    rarity,
+    speed,
+    total: base + length + rarity + speed,
+  };
+}
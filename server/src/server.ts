@@ -0,0 +1,541 @@
+import { timingSafeEqual } from "node:crypto";
+import http from "node:http";
+import { setupWorker } from "@socket.io/sticky";
+import cors from "cors";
+import express from "express";
+import { Server } from "socket.io";
+import { SIGN_IN_EXPIRED_ERROR, createAccountService, createAccountStore } from "./accounts";
+import { createChallengeLog } from "./challenges";
+import {
+  AccountRouter,
+  ClusterBroadcast,
+  ClusterRouter,
+  MessageBus,
+  RoomActionHandler,
+  RoomActionName,
+  createMessageBusAdapter,
+  getAccountOwnerNodeId,
+} from "./cluster";
+import {
+  WordFileEdit,
+  addExtraWord,
+  blockWord,
+  createDictionary,
+  loadMergedDictionary,
+} from "./dictionary";
+import { GameService } from "./gameService";
+import { DEFAULT_LANGUAGE, isLanguageCode, listLanguageCodes } from "./languages";
+import { createRoomStore } from "./roomStore";
+import {
+  buildLeaderboard,
+  parseLeaderboardLimit,
+  parseLeaderboardSort,
+  toPlayerStatsSummary,
+} from "./stats";
+import {
+  AccountCredentialsPayload,
+  AccountProfile,
+  AccountResponse,
+  AckResponse,
+  AddBotPayload,
+  AssignTeamPayload,
+  ChallengeLogResponse,
+  ChallengeVotePayload,
+  CreateRoomPayload,
+  DictionaryAdminResponse,
+  JoinRoomPayload,
+  LanguageCode,
+  LeaderboardResponse,
+  PlayerTypingPayload,
+  PlayerActionPayload,
+  PlayerStatsResponse,
+  ReconnectPayload,
+  RemoveBotPayload,
+  SetWordListPayload,
+  SubmitWordPayload,
+  TargetPlayerPayload,
+  UpdateProfilePayload,
+  UpdateSettingsPayload,
+  UsePowerUpPayload,
+} from "./types";
+
+const ROUTED_ROOM_ACTIONS: RoomActionName[] = [
+  "room:reconnect",
+  "room:updateSettings",
+  "room:addBot",
+  "room:removeBot",
+  "room:assignTeam",
+  "room:kick",
+  "room:ban",
+  "room:transferHost",
+  "room:setWordList",
+  "game:start",
+  "turn:submitWord",
+  "turn:challengeWord",
+  "turn:voteChallenge",
+  "turn:usePowerUp",
+  "game:playAgain",
+  "game:replay",
+  "player:typing",
+];
+
+type VerifiedJoinPayload = JoinRoomPayload & { account: AccountProfile | null };
+
+const ACCOUNT_REQUEST_ERROR = "Account request failed. Please try again.";
+// Rebuilding every language takes far longer than a room action, so reloads wait longer.
+const DICTIONARY_RELOAD_TIMEOUT_MS = 60_000;
+
+export interface ServerNodeOptions {
+  port: number;
+  nodeId: string;
+  nodeIds: string[];
+  messageBus: MessageBus | null;
+  /** Cluster workers take connections handed over by the primary instead of binding the port. */
+  stickyWorker: boolean;
+}
+
+export interface ServerNode {
+  /** Resolves with the bound port once the node accepts connections. */
+  listen(): Promise<number>;
+  flush(): void;
+  close(): Promise<void>;
+}
+
+function isAdminRequest(authorization: string | undefined, adminToken: string): boolean {
+  if (!adminToken || !authorization?.startsWith("Bearer ")) {
+    return false;
+  }
+
+  const expected = Buffer.from(adminToken);
+  const actual = Buffer.from(authorization.slice("Bearer ".length).trim());
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Account calls can fail here or on the account node, and the caller still needs an answer.
+function reportAccountFailure(error: unknown): { ok: false; error: string } {
+  console.warn("[Accounts] Request failed.", error);
+  return { ok: false, error: ACCOUNT_REQUEST_ERROR };
+}
+
+export function startServerNode(options: ServerNodeOptions): ServerNode {
+  const { nodeId, nodeIds, messageBus } = options;
+  const configuredClientOrigins = process.env.CLIENT_ORIGIN ?? "http://localhost:5173";
+  const clientOrigins = configuredClientOrigins
+    .split(",")
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+
+  let dictionary = createDictionary(process.env.DICTIONARY_ENABLED);
+  const dictionaryDisabled = process.env.DICTIONARY_ENABLED === "false";
+  const adminToken = process.env.ADMIN_TOKEN?.trim() ?? "";
+  const roomStore = createRoomStore(process.env.ROOM_STORE_FILE);
+  // Only the account owner node opens the account store; the others forward to it.
+  const ownsAccounts = !messageBus || getAccountOwnerNodeId(nodeIds) === nodeId;
+  const accounts = createAccountService(
+    createAccountStore(ownsAccounts ? process.env.ACCOUNT_STORE_FILE : undefined),
+    process.env.ACCOUNT_TOKEN_SECRET,
+  );
+  const challengeLog = createChallengeLog(process.env.CHALLENGE_LOG_FILE);
+
+  const app = express();
+  app.use(cors({ origin: clientOrigins }));
+  app.use(express.json());
+
+  app.get("/health", (_req, res) => {
+    res.json({
+      ok: true,
+      nodeId,
+      dictionaryEnabled: dictionary.enabled,
+      dictionarySize: dictionary.size,
+    });
+  });
+
+  const accountRouter = new AccountRouter(messageBus, nodeId, nodeIds, accounts);
+
+  app.get("/api/leaderboard", (req, res) => {
+    const sort = parseLeaderboardSort(req.query.sort);
+    void accountRouter
+      .listProfiles()
+      .then((profiles) => {
+        const response: LeaderboardResponse = {
+          ok: true,
+          sort,
+          entries: buildLeaderboard(profiles, sort, parseLeaderboardLimit(req.query.limit)),
+        };
+        res.json(response);
+      })
+      .catch((error) => res.status(500).json(reportAccountFailure(error)));
+  });
+
+  app.get("/api/players/:id/stats", (req, res) => {
+    void accountRouter
+      .findProfile(req.params.id)
+      .then((profile) => {
+        const response: PlayerStatsResponse = profile
+          ? { ok: true, player: toPlayerStatsSummary(profile) }
+          : { ok: false, error: "Player not found." };
+        res.status(profile ? 200 : 404).json(response);
+      })
+      .catch((error) => res.status(500).json(reportAccountFailure(error)));
+  });
+
+  const httpServer = http.createServer(app);
+  const io = new Server(httpServer, {
+    cors: {
+      origin: clientOrigins,
+      methods: ["GET", "POST"],
+    },
+    ...(messageBus ? { adapter: createMessageBusAdapter(messageBus) } : {}),
+  });
+
+  let router: ClusterRouter | null = null;
+  const gameService = new GameService(
+    io,
+    dictionary,
+    roomStore,
+    (roomCode) => router?.ownsRoom(roomCode) ?? true,
+    accountRouter,
+    challengeLog,
+  );
+
+  const roomActions: Record<RoomActionName, RoomActionHandler> = {
+    "room:join": (socketId, payload) => {
+      const input = payload as VerifiedJoinPayload | null;
+      return gameService.toAck(
+        gameService.joinRoom(
+          socketId,
+          input?.roomCode ?? "",
+          input?.name ?? "",
+          input?.account,
+          input?.clientId,
+        ),
+      );
+    },
+    "room:reconnect": (socketId, payload) => {
+      const input = payload as ReconnectPayload | null;
+      return gameService.toAck(
+        gameService.reconnectPlayer(
+          socketId,
+          input?.roomCode ?? "",
+          input?.playerId ?? "",
+          input?.name,
+          input?.clientId,
+        ),
+      );
+    },
+    "room:updateSettings": (socketId, payload) =>
+      gameService.toAck(gameService.updateSettings(socketId, payload as UpdateSettingsPayload)),
+    "room:addBot": (socketId, payload) =>
+      gameService.toAck(gameService.addBot(socketId, payload as AddBotPayload)),
+    "room:removeBot": (socketId, payload) =>
+      gameService.toAck(gameService.removeBot(socketId, payload as RemoveBotPayload)),
+    "room:assignTeam": (socketId, payload) =>
+      gameService.toAck(gameService.assignTeam(socketId, payload as AssignTeamPayload)),
+    "room:kick": (socketId, payload) =>
+      gameService.toAck(gameService.kickPlayer(socketId, payload as TargetPlayerPayload)),
+    "room:ban": (socketId, payload) =>
+      gameService.toAck(gameService.banPlayer(socketId, payload as TargetPlayerPayload)),
+    "room:transferHost": (socketId, payload) =>
+      gameService.toAck(gameService.transferHost(socketId, payload as TargetPlayerPayload)),
+    "room:setWordList": (socketId, payload) =>
+      gameService.toAck(gameService.setWordList(socketId, payload as SetWordListPayload)),
+    "game:start": (socketId, payload) =>
+      gameService.toAck(gameService.startGame(socketId, payload as PlayerActionPayload)),
+    "turn:submitWord": (socketId, payload) =>
+      gameService.toAck(gameService.submitWord(socketId, payload as SubmitWordPayload)),
+    "turn:challengeWord": (socketId, payload) =>
+      gameService.toAck(gameService.challengeWord(socketId, payload as SubmitWordPayload)),
+    "turn:voteChallenge": (socketId, payload) =>
+      gameService.toAck(gameService.voteOnChallenge(socketId, payload as ChallengeVotePayload)),
+    "turn:usePowerUp": (socketId, payload) =>
+      gameService.toAck(gameService.usePowerUp(socketId, payload as UsePowerUpPayload)),
+    "game:playAgain": (socketId, payload) =>
+      gameService.toAck(gameService.playAgain(socketId, payload as PlayerActionPayload)),
+    "game:replay": (socketId, payload) =>
+      gameService.toAck(gameService.getReplay(socketId, payload as PlayerActionPayload)),
+    "player:typing": (socketId, payload) => {
+      gameService.handleTyping(socketId, payload as PlayerTypingPayload);
+      return { ok: true };
+    },
+    disconnect: (socketId) => {
+      gameService.handleDisconnect(socketId);
+      return { ok: true };
+    },
+  };
+
+  function reloadDictionary(languages: LanguageCode[]): DictionaryAdminResponse {
+    try {
+      const nextDictionary = languages.includes(DEFAULT_LANGUAGE)
+        ? loadMergedDictionary()
+        : dictionary;
+      const pinnedRooms = gameService.replaceDictionary(nextDictionary, languages);
+      dictionary = nextDictionary;
+      console.log(
+        `[Dictionary] Reloaded with ${dictionary.size} words. ` +
+          `${pinnedRooms} started rooms keep their pool.`,
+      );
+      return { ok: true, dictionarySize: dictionary.size, pinnedRooms };
+    } catch (error) {
+      console.warn("[Dictionary] Reload failed, keeping the current dictionary.", error);
+      return {
+        ok: false,
+        error: "Dictionary reload failed. The current dictionary is still in use.",
+      };
+    }
+  }
+
+  // Every node reloads from the shared asset files and pins its own running matches.
+  const dictionaryReload = new ClusterBroadcast<LanguageCode[], DictionaryAdminResponse>(
+    messageBus,
+    nodeId,
+    nodeIds,
+    "dictionary-reload",
+    reloadDictionary,
+    (silentNodeId) => ({ ok: false, error: `Node ${silentNodeId} did not respond to the reload.` }),
+    DICTIONARY_RELOAD_TIMEOUT_MS,
+  );
+
+  async function reloadClusterDictionary(
+    languages: LanguageCode[],
+  ): Promise<DictionaryAdminResponse> {
+    const results = await dictionaryReload.run(languages);
+    const failed = results.find((result) => !result.ok);
+    if (failed) {
+      return { ok: false, error: failed.error };
+    }
+
+    return {
+      ok: true,
+      dictionarySize: dictionary.size,
+      pinnedRooms: results.reduce((total, result) => total + (result.pinnedRooms ?? 0), 0),
+    };
+  }
+
+  // Word edits land in the asset files first, then reload the languages they touch unless the
+  // caller is batching edits.
+  async function sendWordEdit(
+    res: express.Response,
+    edit: WordFileEdit,
+    reload: unknown,
+    languages: LanguageCode[],
+  ): Promise<void> {
+    if (!edit.ok) {
+      res.status(400).json(edit);
+      return;
+    }
+
+    if (!edit.changed || reload === false || dictionaryDisabled) {
+      res.json(edit);
+      return;
+    }
+
+    const response: DictionaryAdminResponse = {
+      ...(await reloadClusterDictionary(languages)),
+      word: edit.word,
+      changed: true,
+    };
+    res.status(response.ok ? 200 : 500).json(response);
+  }
+
+  app.use("/api/admin", (req, res, next) => {
+    if (!adminToken) {
+      res.status(403).json({ ok: false, error: "Admin endpoints are disabled on this server." });
+      return;
+    }
+
+    if (!isAdminRequest(req.get("authorization"), adminToken)) {
+      res.status(401).json({ ok: false, error: "Admin token required." });
+      return;
+    }
+
+    next();
+  });
+
+  app.post("/api/admin/dictionary/reload", (req, res) => {
+    if (dictionaryDisabled) {
+      res.status(409).json({ ok: false, error: "Dictionary is disabled on this server." });
+      return;
+    }
+
+    const language = req.body?.language;
+    if (language !== undefined && !isLanguageCode(language)) {
+      res.status(400).json({ ok: false, error: "Unknown language." });
+      return;
+    }
+
+    const languages = language ? [language] : listLanguageCodes();
+    void reloadClusterDictionary(languages).then((response) => {
+      res.status(response.ok ? 200 : 500).json(response);
+    });
+  });
+
+  app.post("/api/admin/dictionary/words", (req, res) => {
+    const language = req.body?.language ?? DEFAULT_LANGUAGE;
+    if (!isLanguageCode(language)) {
+      res.status(400).json({ ok: false, error: "Unknown language." });
+      return;
+    }
+
+    void sendWordEdit(res, addExtraWord(req.body?.word, language), req.body?.reload, [language]);
+  });
+
+  app.post("/api/admin/dictionary/blocked", (req, res) => {
+    const language = req.body?.language ?? DEFAULT_LANGUAGE;
+    if (!isLanguageCode(language)) {
+      res.status(400).json({ ok: false, error: "Unknown language." });
+      return;
+    }
+
+    // Every language reads the same blocklist.
+    void sendWordEdit(
+      res,
+      blockWord(req.body?.word, language),
+      req.body?.reload,
+      listLanguageCodes(),
+    );
+  });
+
+  app.get("/api/admin/dictionary/challenges", (_req, res) => {
+    const response: ChallengeLogResponse = { ok: true, entries: challengeLog.list().reverse() };
+    res.json(response);
+  });
+
+  router = new ClusterRouter(messageBus, nodeId, nodeIds, roomActions);
+  const clusterRouter = router;
+
+  function ackWith<Result>(result: Result, ack?: (payload: Result) => void): void {
+    if (typeof ack === "function") {
+      ack(result);
+    }
+  }
+
+  io.on("connection", (socket) => {
+    socket.on("room:create", (payload: CreateRoomPayload, ack?: (payload: AckResponse) => void) => {
+      void accountRouter
+        .verifyToken(payload?.token)
+        .then((account) => {
+          if (payload?.token && !account) {
+            ackWith({ ok: false, error: SIGN_IN_EXPIRED_ERROR }, ack);
+            return;
+          }
+
+          const result = gameService.createRoom(
+            socket.id,
+            payload?.name ?? "",
+            account,
+            payload?.clientId,
+          );
+          ackWith(gameService.toAck(result), ack);
+        })
+        .catch((error) => ackWith(reportAccountFailure(error), ack));
+    });
+
+    // Tokens are checked before routing so the room owner receives the verified profile.
+    socket.on("room:join", (payload: JoinRoomPayload, ack?: (payload: AckResponse) => void) => {
+      void accountRouter
+        .verifyToken(payload?.token)
+        .then((account) => {
+          if (payload?.token && !account) {
+            return { ok: false, error: SIGN_IN_EXPIRED_ERROR };
+          }
+
+          const verifiedPayload: VerifiedJoinPayload = { ...payload, account };
+          return clusterRouter.dispatch("room:join", socket.id, verifiedPayload);
+        })
+        .then((result) => ackWith(result, ack))
+        .catch((error) => ackWith(reportAccountFailure(error), ack));
+    });
+
+    socket.on(
+      "account:register",
+      (payload: AccountCredentialsPayload, ack?: (payload: AccountResponse) => void) => {
+        void accountRouter
+          .register(payload?.username, payload?.passphrase, payload?.displayName)
+          .then((result) => ackWith(result, ack))
+          .catch((error) => ackWith(reportAccountFailure(error), ack));
+      },
+    );
+
+    socket.on(
+      "account:signIn",
+      (payload: AccountCredentialsPayload, ack?: (payload: AccountResponse) => void) => {
+        void accountRouter
+          .signIn(payload?.username, payload?.passphrase)
+          .then((result) => ackWith(result, ack))
+          .catch((error) => ackWith(reportAccountFailure(error), ack));
+      },
+    );
+
+    socket.on(
+      "account:profile",
+      (payload: { token?: string }, ack?: (payload: AccountResponse) => void) => {
+        void accountRouter
+          .getProfile(payload?.token ?? "")
+          .then((result) => ackWith(result, ack))
+          .catch((error) => ackWith(reportAccountFailure(error), ack));
+      },
+    );
+
+    socket.on(
+      "account:updateProfile",
+      (payload: UpdateProfilePayload, ack?: (payload: AccountResponse) => void) => {
+        void accountRouter
+          .updateProfile(payload?.token ?? "", payload ?? {})
+          .then((result) => ackWith(result, ack))
+          .catch((error) => ackWith(reportAccountFailure(error), ack));
+      },
+    );
+
+    for (const action of ROUTED_ROOM_ACTIONS) {
+      socket.on(action, (payload: unknown, ack?: (payload: AckResponse) => void) => {
+        void clusterRouter
+          .dispatch(action, socket.id, payload)
+          .then((result) => ackWith(result, ack));
+      });
+    }
+
+    socket.on("disconnect", () => {
+      clusterRouter.disconnect(socket.id);
+    });
+  });
+
+  function logStartup(port: number): void {
+    console.log(`Word Fuse server listening on http://localhost:${port}`);
+    console.log(`Allowed client origins: ${clientOrigins.join(", ")}`);
+    console.log(
+      `Dictionary: ${dictionary.enabled ? `enabled (${dictionary.size} words)` : "disabled"}`,
+    );
+    if (nodeIds.length > 1) {
+      console.log(`Cluster node ${nodeId} of ${nodeIds.join(", ")}`);
+    }
+  }
+
+  return {
+    listen: () => {
+      if (options.stickyWorker) {
+        setupWorker(io);
+        logStartup(options.port);
+        return Promise.resolve(options.port);
+      }
+
+      return new Promise((resolve) => {
+        httpServer.listen(options.port, () => {
+          const address = httpServer.address();
+          const port = typeof address === "object" && address ? address.port : options.port;
+          logStartup(port);
+          resolve(port);
+        });
+      });
+    },
+    flush: () => {
+      roomStore.flush();
+      accounts.flush();
+    },
+    close: () =>
+      new Promise((resolve) => {
+        roomStore.flush();
+        accounts.flush();
+        io.close(() => resolve());
+      }),
+  };
+}
@@ -0,0 +1,157 @@
+import {
+  AccountProfile,
+  ChunkTier,
+  LeaderboardEntry,
+  LeaderboardSort,
+  MatchReplay,
+  PlayerStatsSummary,
+  TurnRecord,
+} from "./types";
+
+const LEADERBOARD_SORTS: LeaderboardSort[] = ["wins", "winRate", "words", "speed", "points"];
+const DEFAULT_LEADERBOARD_LIMIT = 20;
+const MAX_LEADERBOARD_LIMIT = 100;
+// Rate-based boards ignore tiny samples so one lucky match cannot top them.
+const MIN_WIN_RATE_GAMES = 3;
+const MIN_SPEED_WORDS = 10;
+
+export interface ReplayPlayerTotals {
+  wordsPlayed: number;
+  totalResponseMs: number;
+  longestWord: string;
+  livesLostByTier: Record<ChunkTier, number>;
+}
+
+export function createEmptyTierCounts(): Record<ChunkTier, number> {
+  return { veryEasy: 0, easy: 0, medium: 0, hard: 0, veryHard: 0 };
+}
+
+/**
+ * Walks a finished replay for one player. Response time comes from the turn history, which
+ * leaves out time the clock spent paused for a challenge vote. Each explosion is charged to
+ * the tier of the chunk they were holding, except in points races where a timeout costs no
+ * life.
+ */
+export function summarizeReplayForPlayer(
+  replay: MatchReplay,
+  history: TurnRecord[],
+  playerId: string,
+): ReplayPlayerTotals {
+  const totals: ReplayPlayerTotals = {
+    wordsPlayed: 0,
+    totalResponseMs: 0,
+    longestWord: "",
+    livesLostByTier: createEmptyTierCounts(),
+  };
+  const responseMsByTurn = new Map(
+    history.map((record) => [record.turnNumber, record.responseMs ?? 0]),
+  );
+  const livesAtStake = replay.config.scoring.winCondition !== "pointsRace";
+  let turnNumber = 0;
+  let turnTier: ChunkTier | null = null;
+
+  for (const event of replay.events) {
+    if (event.type === "turn_start") {
+      turnNumber = event.turnNumber;
+      turnTier = event.tier;
+    } else if (event.type === "power_up" && event.tier) {
+      turnTier = event.tier;
+    } else if (event.type === "word_accepted" && event.playerId === playerId) {
+      totals.wordsPlayed += 1;
+      totals.totalResponseMs += responseMsByTurn.get(turnNumber) ?? 0;
+      if (event.word.length > totals.longestWord.length) {
+        totals.longestWord = event.word;
+      }
+    } else if (
+      event.type === "explosion" &&
+      event.playerId === playerId &&
+      livesAtStake &&
+      turnTier
+    ) {
+      totals.livesLostByTier[turnTier] += 1;
+    }
+  }
+
+  return totals;
+}
+
+export function toPlayerStatsSummary(profile: AccountProfile): PlayerStatsSummary {
+  const { stats } = profile;
+
+  return {
+    id: profile.id,
+    displayName: profile.displayName,
+    avatarSeed: profile.avatarSeed,
+    gamesPlayed: stats.gamesPlayed,
+    wins: stats.wins,
+    winRate: stats.gamesPlayed > 0 ? stats.wins / stats.gamesPlayed : 0,
+    wordsPlayed: stats.wordsPlayed,
+    totalPoints: stats.totalPoints,
+    bestMatchPoints: stats.bestMatchPoints,
+    averageResponseMs:
+      stats.wordsPlayed > 0 ? Math.round(stats.totalResponseMs / stats.wordsPlayed) : null,
+    longestWord: stats.longestWord,
+    livesLostByTier: { ...stats.livesLostByTier },
+  };
+}
+
+export function parseLeaderboardSort(input: unknown): LeaderboardSort {
+  return LEADERBOARD_SORTS.includes(input as LeaderboardSort) ? (input as LeaderboardSort) : "wins";
+}
+
+export function parseLeaderboardLimit(input: unknown): number {
+  const limit = Number.parseInt(String(input ?? ""), 10);
+  if (!Number.isFinite(limit) || limit < 1) {
+    return DEFAULT_LEADERBOARD_LIMIT;
+  }
+
+  return Math.min(limit, MAX_LEADERBOARD_LIMIT);
+}
+
+function isRanked(summary: PlayerStatsSummary, sort: LeaderboardSort): boolean {
+  if (sort === "winRate") {
+    return summary.gamesPlayed >= MIN_WIN_RATE_GAMES;
+  }
+
+  if (sort === "speed") {
+    return summary.wordsPlayed >= MIN_SPEED_WORDS;
+  }
+
+  return summary.gamesPlayed > 0;
+}
+
+function compareSummaries(
+  left: PlayerStatsSummary,
+  right: PlayerStatsSummary,
+  sort: LeaderboardSort,
+): number {
+  switch (sort) {
+    case "winRate":
+      return right.winRate - left.winRate || right.wins - left.wins;
+    case "words":
+      return right.wordsPlayed - left.wordsPlayed;
+    case "speed":
+      return (left.averageResponseMs ?? 0) - (right.averageResponseMs ?? 0);
+    case "points":
+      return right.totalPoints - left.totalPoints;
+    case "wins":
+    default:
+      return right.wins - left.wins || right.winRate - left.winRate;
+  }
+}
+
+export function buildLeaderboard(
+  profiles: AccountProfile[],
+  sort: LeaderboardSort,
+  limit: number,
+): LeaderboardEntry[] {
+  return profiles
+    .map(toPlayerStatsSummary)
+    .filter((summary) => isRanked(summary, sort))
+    .sort(
+      (left, right) =>
+        compareSummaries(left, right, sort) || left.displayName.localeCompare(right.displayName),
+    )
+    .slice(0, limit)
+    .map((summary, index) => ({ ...summary, rank: index + 1 }));
+}
@@ -0,0 +1,59 @@
+import { PlayerState, TeamState } from "./types";
+
+const TEAM_NAMES = ["Coral", "Lagoon", "Sunset", "Reef"];
+
+export const MIN_TEAMS = 2;
+export const MAX_TEAMS = TEAM_NAMES.length;
+
+export function createTeams(teamCount: number): TeamState[] {
+  return TEAM_NAMES.slice(0, teamCount).map((name, id) => ({
+    id,
+    name,
+    lives: 0,
+    eliminated: false,
+    lastActivePlayerId: null,
+  }));
+}
+
+export function getTeamName(teamId: number): string {
+  return TEAM_NAMES[teamId] ?? `Team ${teamId + 1}`;
+}
+
+export function isTeamId(input: unknown, teamCount: number): input is number {
+  return typeof input === "number" && Number.isInteger(input) && input >= 0 && input < teamCount;
+}
+
+/**
+ * Keeps every rotation player on a valid team. Players that already have one stay put, so the
+ * host's manual picks survive; newcomers and orphans from a shrunk team count join the
+ * smallest team, with ties going to the lowest team id.
+ */
+export function balanceTeams(players: PlayerState[], teamCount: number): void {
+  const sizes = Array.from({ length: teamCount }, () => 0);
+
+  for (const player of players) {
+    if (player.role !== "player") {
+      player.teamId = null;
+    } else if (player.teamId !== null && player.teamId < teamCount) {
+      sizes[player.teamId] += 1;
+    }
+  }
+
+  for (const player of players) {
+    if (player.role !== "player" || (player.teamId !== null && player.teamId < teamCount)) {
+      continue;
+    }
+
+    const smallestTeamId = sizes.indexOf(Math.min(...sizes));
+    player.teamId = smallestTeamId;
+    sizes[smallestTeamId] += 1;
+  }
+}
+
+export function getTeamMembers(players: PlayerState[], teamId: number | null): PlayerState[] {
+  return players.filter((player) => player.role === "player" && player.teamId === teamId);
+}
+
+export function getTeamScore(players: PlayerState[], teamId: number | null): number {
+  return getTeamMembers(players, teamId).reduce((sum, player) => sum + player.score, 0);
+}
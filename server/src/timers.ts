@@ -0,0 +1,51 @@
+import { TimerMode } from "./types";
+
+const TIMER_MODES: TimerMode[] = ["linear", "exponential", "fixed", "hiddenFuse"];
+const LINEAR_DECAY_TURNS = 3;
+const EXPONENTIAL_DECAY_RATE = 0.95;
+const FUSE_MIN_MULTIPLIER = 1;
+const FUSE_MAX_MULTIPLIER = 3;
+
+export const MIN_TURN_SECONDS = 5;
+// A fuse that is nearly out still gives the next player a moment to read the chunk.
+export const MIN_FUSE_TURN_MS = 1500;
+export const DEFAULT_TIMER_MODE: TimerMode = "linear";
+
+export function isTimerMode(input: unknown): input is TimerMode {
+  return typeof input === "string" && (TIMER_MODES as string[]).includes(input);
+}
+
+/**
+ * Turn length for the timed modes. Linear loses a second every three turns, exponential
+ * shrinks by 5% a turn, and both stop at the five-second floor. Fixed never changes.
+ */
+export function computeTurnDurationSeconds(
+  mode: Exclude<TimerMode, "hiddenFuse">,
+  turnSeconds: number,
+  turnNumber: number,
+): number {
+  const elapsedTurns = Math.max(0, turnNumber - 1);
+
+  switch (mode) {
+    case "fixed":
+      return turnSeconds;
+    case "exponential":
+      return Math.max(
+        MIN_TURN_SECONDS,
+        Math.round(turnSeconds * EXPONENTIAL_DECAY_RATE ** elapsedTurns),
+      );
+    case "linear":
+      return Math.max(
+        MIN_TURN_SECONDS,
+        turnSeconds - Math.floor(elapsedTurns / LINEAR_DECAY_TURNS),
+      );
+  }
+}
+
+/**
+ * Lights a new hidden fuse somewhere between one and three times the room's turn length.
+ */
+export function rollFuseMs(turnSeconds: number, random: () => number): number {
+  const spread = FUSE_MAX_MULTIPLIER - FUSE_MIN_MULTIPLIER;
+  return Math.round(turnSeconds * 1000 * (FUSE_MIN_MULTIPLIER + random() * spread));
+}
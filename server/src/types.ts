@@ -1,13 +1,78 @@
 export type GamePhase = "lobby" | "in_game" | "results";
 export type ChunkTier = "veryEasy" | "easy" | "medium" | "hard" | "veryHard";
 export type PlayerRole = "player" | "spectator";
+export type BotDifficulty = "easy" | "medium" | "hard";
+export type WinCondition = "lastStanding" | "pointsRace";
+export type LanguageCode = "en" | "es" | "fr" | "de";
+export type TimerMode = "linear" | "exponential" | "fixed" | "hiddenFuse";
+export type DifficultyPreset = "casual" | "standard" | "brutal" | "custom";
+export type PowerUpKind = "skipChunk" | "extraTime" | "reverseOrder" | "passDouble";
+
+export interface ScoringRules {
+  lengthBonus: boolean;
+  rarityBonus: boolean;
+  speedBonus: boolean;
+  winCondition: WinCondition;
+  targetScore: number;
+}
+
+export interface DifficultyStage {
+  // Rounds (one active turn per player) played before this stage begins.
+  fromRound: number;
+  tierWeights: Partial<Record<ChunkTier, number>>;
+}
+
+export interface DifficultyProfile {
+  preset: DifficultyPreset;
+  stages: DifficultyStage[];
+}
+
+export type ChunkPosition = "start" | "end";
+
+export interface BonusLetterRules {
+  enabled: boolean;
+  // Lowercase letters left out of the alphabet players collect.
+  excludedLetters: string[];
+  maxLives: number;
+}
+
+export interface PowerUpRules {
+  enabled: boolean;
+  // Words at least this long earn a charge, as does any word on a very hard chunk.
+  minWordLength: number;
+}
+
+export interface WordModifierRules {
+  growingMinLength: boolean;
+  chunkPosition: boolean;
+  noRepeatedLetters: boolean;
+  bannedLetter: boolean;
+}
+
+export interface TurnModifiers {
+  minLength: number;
+  chunkPosition: ChunkPosition | null;
+  noRepeatedLetters: boolean;
+  bannedLetter: string | null;
+}
 
 export interface RoomConfig {
   turnSeconds: number;
+  timerMode: TimerMode;
   startingLives: number;
   dictionaryEnabled: boolean;
   showTypingPreviews: boolean;
   allowFourLetterChunks: boolean;
+  matchSeed: string;
+  scoring: ScoringRules;
+  teamMode: boolean;
+  teamCount: number;
+  language: LanguageCode;
+  modifiers: WordModifierRules;
+  difficulty: DifficultyProfile;
+  adaptiveHandicap: boolean;
+  powerUps: PowerUpRules;
+  bonusLetters: BonusLetterRules;
 }
 
 export interface TierBand {
@@ -22,18 +87,58 @@ export interface ActiveTurnTypingState {
   updatedAt: number;
 }
 
+export interface TeamState {
+  id: number;
+  name: string;
+  lives: number;
+  eliminated: boolean;
+  lastActivePlayerId: string | null;
+}
+
+export interface PlayerHandicap {
+  // Tiers the player's chunks are shifted by; positive for strong recent play.
+  level: number;
+  timeAdjustSeconds: number;
+  recentTurns: number;
+  successRate: number | null;
+  averageResponseMs: number | null;
+}
+
 export interface PlayerState {
   id: string;
   name: string;
+  accountId: string | null;
+  clientId: string | null;
+  avatarSeed: string;
   role: PlayerRole;
+  queuedForNextMatch: boolean;
+  isBot: boolean;
+  botDifficulty: BotDifficulty | null;
+  teamId: number | null;
   joinedAt: number;
   socketId: string | null;
   connected: boolean;
   score: number;
   lastWord: string;
+  lastWordPoints: number;
   activeTurnCount: number;
   lives: number;
   eliminated: boolean;
+  handicap: PlayerHandicap | null;
+  powerUps: PowerUpKind[];
+  bonusLetters: string[];
+}
+
+export interface CustomWordList {
+  name: string;
+  words: string[];
+}
+
+export interface BannedPlayer {
+  id: string;
+  name: string;
+  accountId: string | null;
+  clientId: string | null;
 }
 
 export interface RoomState {
@@ -42,96 +147,404 @@ export interface RoomState {
   phase: GamePhase;
   config: RoomConfig;
   players: PlayerState[];
+  bannedPlayers: BannedPlayer[];
+  teams: TeamState[];
   usedWords: Set<string>;
   usedWordsOrdered: string[];
   activePlayerId: string | null;
   currentChunk: string | null;
   currentChunkCoverage: number | null;
   currentChunkTier: ChunkTier | null;
+  currentModifiers: TurnModifiers | null;
   globalDifficultyTier: ChunkTier | null;
   globalStageIndex: number;
   turnNumber: number;
   turnDurationSeconds: number;
   turnStartedAt: number | null;
+  pausedTurnRemainingMs: number | null;
+  fuseRemainingMs: number | null;
   matchStartedAt: number | null;
   activePlayerCountAtMatchStart: number;
   recentChunks: string[];
+  matchSeed: string | null;
   randomState: number;
   winnerId: string | null;
+  winnerTeamId: number | null;
   lastEvent: string;
   activeTurnTyping: ActiveTurnTypingState;
+  replay: MatchReplay | null;
+  turnHistory: TurnRecord[];
+  matchAnalytics: MatchAnalytics | null;
+  lastExplosion: ExplosionHint | null;
+  customWordList: CustomWordList | null;
+  allowedWords: string[];
+  wordChallenge: WordChallenge | null;
+  lastChallengeTurnNumber: number;
+  // 1 passes the bomb in join order, -1 after a reverse power-up.
+  turnDirection: 1 | -1;
+  passDoublePending: boolean;
+  lastPowerUpTurnNumber: number;
   createdAt: number;
   updatedAt: number;
   emptySince: number | null;
 }
 
+export interface WordChallenge {
+  playerId: string;
+  word: string;
+  turnNumber: number;
+  startedAt: number;
+  endsAt: number;
+  voterIds: string[];
+  votes: Record<string, boolean>;
+}
+
+export interface PublicWordChallenge {
+  playerId: string;
+  word: string;
+  remainingMs: number;
+  voterIds: string[];
+  votedPlayerIds: string[];
+  acceptVotes: number;
+  rejectVotes: number;
+}
+
+export interface AcceptedChallenge {
+  word: string;
+  roomCode: string;
+  playerName: string;
+  acceptVotes: number;
+  rejectVotes: number;
+  acceptedAt: number;
+}
+
+export type TurnOutcome = "word" | "explosion" | "skipped";
+
+export interface TurnRecord {
+  turnNumber: number;
+  playerId: string;
+  chunk: string;
+  tier: ChunkTier;
+  livesAtStart: Record<string, number>;
+  outcome: TurnOutcome | null;
+  word: string | null;
+  points: number;
+  responseMs: number | null;
+  eliminatedPlayerIds: string[];
+  missedExamples: string[];
+}
+
+export interface ExplosionHint {
+  playerId: string;
+  turnNumber: number;
+  chunk: string;
+  examples: string[];
+}
+
+export interface AnsweredWord {
+  playerId: string;
+  turnNumber: number;
+  word: string;
+  chunk: string;
+  tier: ChunkTier;
+  responseMs: number;
+  points: number;
+}
+
+export interface PlayerMatchBreakdown {
+  playerId: string;
+  words: AnsweredWord[];
+  eliminatedBy: { turnNumber: number; chunk: string; tier: ChunkTier } | null;
+}
+
+export interface LivesTimelinePoint {
+  turnNumber: number;
+  lives: Record<string, number>;
+}
+
+export interface MatchAnalytics {
+  players: PlayerMatchBreakdown[];
+  fastestAnswer: AnsweredWord | null;
+  longestWord: AnsweredWord | null;
+  livesTimeline: LivesTimelinePoint[];
+  missedChunks: ExplosionHint[];
+}
+
+export interface ReplayPlayer {
+  id: string;
+  name: string;
+  role: PlayerRole;
+  isBot: boolean;
+  teamId: number | null;
+  startingLives: number;
+}
+
+export type MatchEvent =
+  | {
+      type: "turn_start";
+      at: number;
+      turnNumber: number;
+      playerId: string;
+      chunk: string;
+      tier: ChunkTier;
+      coverage: number;
+      durationMs: number;
+      modifiers?: TurnModifiers;
+    }
+  | { type: "typing"; at: number; playerId: string; preview: string }
+  | { type: "word_accepted"; at: number; playerId: string; word: string; points: number }
+  | { type: "word_rejected"; at: number; playerId: string; word: string; reason: string }
+  | {
+      type: "word_challenge";
+      at: number;
+      playerId: string;
+      word: string;
+      accepted: boolean;
+      acceptVotes: number;
+      rejectVotes: number;
+      pausedMs: number;
+    }
+  | { type: "explosion"; at: number; playerId: string; livesLeft: number }
+  | { type: "elimination"; at: number; playerId: string }
+  | { type: "bonus_life"; at: number; playerId: string; lives: number }
+  | { type: "turn_skipped"; at: number; playerId: string; reason: "disconnected" | "unavailable" | "removed" }
+  | {
+      type: "power_up";
+      at: number;
+      playerId: string;
+      powerUp: PowerUpKind;
+      // Set when the power-up changed the live turn: a new chunk or a longer clock.
+      chunk?: string;
+      tier?: ChunkTier;
+      durationMs?: number;
+    }
+  | { type: "match_end"; at: number; winnerId: string | null };
+
+export interface MatchReplay {
+  version: number;
+  roomCode: string;
+  matchSeed: string;
+  startedAt: number;
+  endedAt: number | null;
+  config: RoomConfig;
+  players: ReplayPlayer[];
+  winnerId: string | null;
+  events: MatchEvent[];
+}
+
 export interface PublicPlayerState {
   id: string;
   name: string;
+  accountId: string | null;
+  avatarSeed: string;
   role: PlayerRole;
+  queuedForNextMatch: boolean;
+  isBot: boolean;
+  botDifficulty: BotDifficulty | null;
+  teamId: number | null;
   connected: boolean;
   score: number;
   lastWord: string;
+  lastWordPoints: number;
   activeTurnCount: number;
   lives: number;
   eliminated: boolean;
+  handicap: PlayerHandicap | null;
+  powerUps: PowerUpKind[];
+  bonusLetters: string[];
   joinedAt: number;
 }
 
+export interface PublicTeamState {
+  id: number;
+  name: string;
+  lives: number;
+  eliminated: boolean;
+}
+
+export interface PublicWordListState {
+  name: string;
+  wordCount: number;
+  chunkCount: number;
+}
+
 export interface PublicRoomState {
   roomCode: string;
   phase: GamePhase;
   hostId: string;
   players: PublicPlayerState[];
+  teams: PublicTeamState[];
   config: RoomConfig;
   activePlayerId: string | null;
   currentChunk: string | null;
   currentChunkCoverage: number | null;
   currentChunkTier: ChunkTier | null;
+  currentModifiers: TurnModifiers | null;
   globalDifficultyTier: ChunkTier | null;
   globalStageIndex: number;
   turnNumber: number;
   turnDurationSeconds: number;
-  remainingMs: number;
+  // Null while a hidden fuse is burning, so clients cannot show an exact countdown.
+  remainingMs: number | null;
+  turnDirection: 1 | -1;
+  passDoublePending: boolean;
+  powerUpUsedThisTurn: boolean;
   usedWords: string[];
+  matchSeed: string | null;
   winnerId: string | null;
+  winnerTeamId: number | null;
   lastEvent: string;
   canStart: boolean;
+  replayAvailable: boolean;
+  matchAnalytics: MatchAnalytics | null;
+  lastExplosion: ExplosionHint | null;
+  wordChallenge: PublicWordChallenge | null;
+  customWordList: PublicWordListState | null;
+  availableLanguages: LanguageCode[];
   serverTime: number;
 }
 
 export interface AckResponse {
   ok: boolean;
   error?: string;
+  challengeable?: boolean;
   roomCode?: string;
   playerId?: string;
   state?: PublicRoomState;
+  replay?: MatchReplay;
+}
+
+export interface AccountStats {
+  gamesPlayed: number;
+  wins: number;
+  wordsPlayed: number;
+  totalPoints: number;
+  bestMatchPoints: number;
+  longestWord: string;
+  totalResponseMs: number;
+  livesLostByTier: Record<ChunkTier, number>;
+}
+
+export interface AccountProfile {
+  id: string;
+  username: string;
+  displayName: string;
+  avatarSeed: string;
+  createdAt: number;
+  stats: AccountStats;
+}
+
+export interface AccountRecord extends AccountProfile {
+  passphraseHash: string;
+  passphraseSalt: string;
+}
+
+export interface AccountResponse {
+  ok: boolean;
+  error?: string;
+  token?: string;
+  profile?: AccountProfile;
+}
+
+export type LeaderboardSort = "wins" | "winRate" | "words" | "speed" | "points";
+
+export interface PlayerStatsSummary {
+  id: string;
+  displayName: string;
+  avatarSeed: string;
+  gamesPlayed: number;
+  wins: number;
+  winRate: number;
+  wordsPlayed: number;
+  totalPoints: number;
+  bestMatchPoints: number;
+  averageResponseMs: number | null;
+  longestWord: string;
+  livesLostByTier: Record<ChunkTier, number>;
+}
+
+export interface LeaderboardEntry extends PlayerStatsSummary {
+  rank: number;
+}
+
+export interface LeaderboardResponse {
+  ok: boolean;
+  sort: LeaderboardSort;
+  entries: LeaderboardEntry[];
+}
+
+export interface PlayerStatsResponse {
+  ok: boolean;
+  error?: string;
+  player?: PlayerStatsSummary;
+}
+
+export interface DictionaryAdminResponse {
+  ok: boolean;
+  error?: string;
+  word?: string;
+  changed?: boolean;
+  dictionarySize?: number;
+  pinnedRooms?: number;
+}
+
+export interface ChallengeLogResponse {
+  ok: boolean;
+  entries: AcceptedChallenge[];
+}
+
+export interface AccountCredentialsPayload {
+  username: string;
+  passphrase: string;
+  displayName?: string;
+}
+
+export interface UpdateProfilePayload {
+  token: string;
+  displayName?: string;
+  avatarSeed?: string;
 }
 
 export interface CreateRoomPayload {
   name: string;
+  token?: string;
+  clientId?: string;
 }
 
 export interface JoinRoomPayload {
   roomCode: string;
   name: string;
+  token?: string;
+  clientId?: string;
 }
 
 export interface ReconnectPayload {
   roomCode: string;
   playerId: string;
   name?: string;
+  clientId?: string;
 }
 
 export interface UpdateSettingsPayload {
   roomCode: string;
   playerId: string;
   turnSeconds?: number;
+  timerMode?: TimerMode;
   startingLives?: number;
   dictionaryEnabled?: boolean;
   showTypingPreviews?: boolean;
   allowFourLetterChunks?: boolean;
+  matchSeed?: string;
+  scoring?: Partial<ScoringRules>;
+  modifiers?: Partial<WordModifierRules>;
+  difficulty?: { preset: DifficultyPreset; stages?: DifficultyStage[] };
+  adaptiveHandicap?: boolean;
+  powerUps?: Partial<PowerUpRules>;
+  bonusLetters?: Partial<BonusLetterRules>;
+  teamMode?: boolean;
+  teamCount?: number;
   hostSpectatorMode?: boolean;
+  language?: LanguageCode;
 }
 
 export interface PlayerActionPayload {
@@ -139,15 +552,50 @@ export interface PlayerActionPayload {
   playerId: string;
 }
 
+export interface AddBotPayload extends PlayerActionPayload {
+  difficulty: BotDifficulty;
+}
+
+export interface RemoveBotPayload extends PlayerActionPayload {
+  botId: string;
+}
+
+export interface SetWordListPayload extends PlayerActionPayload {
+  name?: string;
+  text: string | null;
+}
+
+export interface AssignTeamPayload extends PlayerActionPayload {
+  targetPlayerId: string;
+  teamId: number;
+}
+
+export interface TargetPlayerPayload extends PlayerActionPayload {
+  targetPlayerId: string;
+}
+
 export interface SubmitWordPayload extends PlayerActionPayload {
   word: string;
 }
 
+export interface ChallengeVotePayload extends PlayerActionPayload {
+  accept: boolean;
+}
+
+export interface UsePowerUpPayload extends PlayerActionPayload {
+  powerUp: PowerUpKind;
+}
+
 export interface PlayerTypingPayload {
   roomCode: string;
   preview: string;
 }
 
+export interface RoomRemovedPayload {
+  roomCode: string;
+  reason: "kicked" | "banned";
+}
+
 export interface PublicTypingState {
   activePlayerId: string | null;
   isTyping: boolean;
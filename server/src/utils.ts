@@ -1,11 +1,43 @@
+import { DEFAULT_LANGUAGE, isLanguageLetter } from "./languages";
+import { LanguageCode } from "./types";
+
 const ROOM_CHARS = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
 
-export function normalizeLettersOnly(input: string): string {
-  return input
-    .normalize("NFKD")
-    .replace(/[\u0300-\u036f]/g, "")
-    .replace(/[\u200B-\u200D\uFEFF]/g, "")
-    .replace(/[^A-Za-z]/g, "");
+/**
+ * Keeps the letters of the given language, including its accented ones, and folds any other
+ * accented letter to its base. English keeps only A-Z, which is how every language used to work.
+ */
+export function normalizeLettersOnly(
+  input: string,
+  language: LanguageCode = DEFAULT_LANGUAGE,
+): string {
+  if (/^[A-Za-z]*$/.test(input)) {
+    return input;
+  }
+
+  let normalized = "";
+  for (const char of input.normalize("NFC")) {
+    if (isLanguageLetter(char, language)) {
+      normalized += char;
+      continue;
+    }
+
+    for (const baseChar of char.normalize("NFKD").replace(/[\u0300-\u036f]/g, "")) {
+      if (isLanguageLetter(baseChar, language)) {
+        normalized += baseChar;
+      }
+    }
+  }
+
+  return normalized;
+}
+
+/**
+ * Uppercases a word without letting "ß" expand to "SS", so the uppercase dictionary form
+ * and the lowercase played form always have the same letters.
+ */
+export function toUpperWord(input: string): string {
+  return input.replace(/ß/g, "ẞ").toUpperCase();
 }
 
 export function clampInt(value: number, min: number, max: number): number {
@@ -28,22 +60,59 @@ export function sanitizePlayerName(input: string): string {
     .slice(0, 20);
 }
 
-export function sanitizeWord(input: string): string {
-  return normalizeLettersOnly(input.trim()).toLowerCase();
+// Client ids are random strings the browser keeps between visits; anything else is ignored.
+export function sanitizeClientId(input: string | undefined): string | null {
+  const clientId = typeof input === "string" ? input.trim() : "";
+  return /^[A-Za-z0-9-]{16,64}$/.test(clientId) ? clientId : null;
+}
+
+export function sanitizeWordListName(input: string): string {
+  return input
+    .trim()
+    .replace(/\s+/g, " ")
+    .replace(/[^A-Za-z0-9 '_-]/g, "")
+    .slice(0, 32);
+}
+
+export function sanitizeWord(input: string, language: LanguageCode = DEFAULT_LANGUAGE): string {
+  return normalizeLettersOnly(input.trim(), language).toLowerCase();
+}
+
+export function sanitizeTypingPreview(
+  input: string,
+  language: LanguageCode = DEFAULT_LANGUAGE,
+): string {
+  return toUpperWord(normalizeLettersOnly(input, language)).slice(0, 24);
 }
 
-export function sanitizeTypingPreview(input: string): string {
-  return normalizeLettersOnly(input).toUpperCase().slice(0, 24);
+export function sanitizeMatchSeed(input: string): string {
+  return input
+    .trim()
+    .toUpperCase()
+    .replace(/[^A-Z0-9-]/g, "")
+    .slice(0, 24);
+}
+
+export function createMatchSeed(): string {
+  let seed = "";
+  for (let i = 0; i < 8; i += 1) {
+    seed += ROOM_CHARS[Math.floor(Math.random() * ROOM_CHARS.length)];
+  }
+
+  return seed;
 }
 
-export function createRoomCode(existingCodes: Set<string>): string {
+export function createRoomCode(
+  existingCodes: Set<string>,
+  isAllowed: (roomCode: string) => boolean = () => true,
+): string {
   for (let attempt = 0; attempt < 10_000; attempt += 1) {
     let next = "";
     for (let i = 0; i < 6; i += 1) {
       next += ROOM_CHARS[Math.floor(Math.random() * ROOM_CHARS.length)];
     }
 
-    if (!existingCodes.has(next)) {
+    if (!existingCodes.has(next) && isAllowed(next)) {
       return next;
     }
   }